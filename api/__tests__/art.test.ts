@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { inflateSync } from "zlib";
+import { request as get } from "./request";
+import { ART_SIZE, createCover, getArtUrl, renderPng, renderSvg } from "../art";
+
+describe("createCover", () => {
+  it("designs the same cover for the same seed", () => {
+    expect(createCover("the-weeknd--after-hours")).toEqual(createCover("the-weeknd--after-hours"));
+    expect(createCover("the-weeknd--after-hours")).not.toEqual(createCover("queen--innuendo"));
+  });
+});
+
+describe("renderSvg", () => {
+  it("draws the gradient and every circle", () => {
+    const cover = createCover("seed");
+    const svg = renderSvg(cover);
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="300" height="300"/);
+    expect(svg.match(/<circle /g)).toHaveLength(cover.circles.length);
+  });
+});
+
+describe("renderPng", () => {
+  it("encodes a valid RGB image of the requested size", () => {
+    const png = renderPng(createCover("seed"), 40);
+
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    expect(png.toString("ascii", 12, 16)).toBe("IHDR");
+    expect(png.readUInt32BE(16)).toBe(40);
+    expect(png.readUInt32BE(20)).toBe(40);
+
+    const idatLength = png.readUInt32BE(33);
+    expect(png.toString("ascii", 37, 41)).toBe("IDAT");
+    const pixels = inflateSync(png.subarray(41, 41 + idatLength));
+    expect(pixels.length).toBe(40 * (1 + 40 * 3));
+    expect(png.toString("ascii", png.length - 8, png.length - 4)).toBe("IEND");
+  });
+
+  it("paints the gradient's start colour in an uncovered top-left corner", () => {
+    const cover = { ...createCover("seed"), circles: [] };
+    const png = renderPng(cover, 40);
+    const pixels = inflateSync(png.subarray(41, 41 + png.readUInt32BE(33)));
+
+    // Row 0 starts with its filter byte
+    const corner = [...pixels.subarray(1, 4)];
+    corner.forEach((channel, i) => {
+      expect(Math.abs(channel - cover.from[i])).toBeLessThanOrEqual(2);
+    });
+  });
+});
+
+describe("getArtUrl", () => {
+  it("seeds art by artist and album", () => {
+    expect(getArtUrl("The Weeknd", "After Hours")).toBe("/api/art/the-weeknd--after-hours.svg");
+    expect(getArtUrl("The Weeknd", "After Hours", "png")).toBe("/api/art/the-weeknd--after-hours.png");
+  });
+});
+
+describe("GET /api/art/:seed", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("serves SVG art", async () => {
+    const response = await get("/api/art/the-weeknd--after-hours.svg");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("image/svg+xml");
+    expect(await response.text()).toBe(renderSvg(createCover("the-weeknd--after-hours")));
+  });
+
+  it("serves PNG art", async () => {
+    const response = await get("/api/art/the-weeknd--after-hours.png");
+    const body = Buffer.from(await response.arrayBuffer());
+
+    expect(response.headers.get("Content-Type")).toBe("image/png");
+    expect(body.readUInt32BE(16)).toBe(ART_SIZE);
+  });
+
+  it("serves PNG art at a requested size", async () => {
+    const response = await get("/api/art/the-weeknd--after-hours.png?size=96");
+    const body = Buffer.from(await response.arrayBuffer());
+
+    expect(body.readUInt32BE(16)).toBe(96);
+    expect(body.readUInt32BE(20)).toBe(96);
+  });
+
+  it("returns 400 for a size out of range", async () => {
+    expect((await get("/api/art/the-weeknd--after-hours.png?size=0")).status).toBe(400);
+    expect((await get("/api/art/the-weeknd--after-hours.png?size=2048")).status).toBe(400);
+    expect((await get("/api/art/the-weeknd--after-hours.png?size=1.5")).status).toBe(400);
+  });
+
+  it("returns 404 for other formats", async () => {
+    expect((await get("/api/art/the-weeknd--after-hours.gif")).status).toBe(404);
+  });
+
+  it("is what the catalogue's songs point at", async () => {
+    const response = await get("/api/songs/song-00001");
+    const song = await response.json();
+
+    expect(song.albumArt).toBe(getArtUrl(song.artist, song.album));
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { request as get } from "./request";
+import { buildCatalog, slugify } from "../catalog";
+import type { Album, AlbumSummary, Artist, ArtistSummary, Song } from "../types";
+
+const song = (id: string, artist: string, album: string, duration = 100): Song => ({
+  id,
+  title: `Song ${id}`,
+  artist,
+  album,
+  albumArt: `art-${id}.jpg`,
+  duration,
+});
+
+describe("slugify", () => {
+  it("lowercases and hyphenates names", () => {
+    expect(slugify("The Midnight Dreamers")).toBe("the-midnight-dreamers");
+    expect(slugify("  AC/DC  ")).toBe("ac-dc");
+    expect(slugify("Beyoncé")).toBe("beyonce");
+    expect(slugify("!!!")).toBe("untitled");
+  });
+});
+
+describe("buildCatalog", () => {
+  const songs = [
+    song("1", "Alpha", "First", 100),
+    song("2", "Beta", "First", 200),
+    song("3", "Alpha", "Second", 300),
+    song("4", "Alpha", "First", 400),
+  ];
+
+  it("groups songs into artists and per-artist albums", () => {
+    const { artists, albums } = buildCatalog(songs);
+
+    expect(artists).toEqual([
+      { id: "alpha", name: "Alpha", albumCount: 2, songCount: 3, totalDuration: 800 },
+      { id: "beta", name: "Beta", albumCount: 1, songCount: 1, totalDuration: 200 },
+    ]);
+    expect(albums.map((album) => [album.id, album.songCount, album.totalDuration])).toEqual([
+      ["alpha--first", 2, 500],
+      ["beta--first", 1, 200],
+      ["alpha--second", 1, 300],
+    ]);
+  });
+
+  it("keeps the catalogue order within an album", () => {
+    const album = buildCatalog(songs).albumsById.get("alpha--first")!;
+
+    expect(album.songs.map((track) => track.id)).toEqual(["1", "4"]);
+    expect(album.albumArt).toBe("art-1.jpg");
+  });
+
+  it("gives names that slug alike their own stable ids", () => {
+    const build = (order: Song[]) =>
+      buildCatalog(order).artists.map((artist) => [artist.name, artist.id]);
+    const clashing = [song("1", "AC/DC", "Live"), song("2", "AC DC", "Live")];
+
+    expect(build(clashing)).toEqual([
+      ["AC DC", "ac-dc"],
+      ["AC/DC", "ac-dc-2"],
+    ]);
+    expect(build([...clashing].reverse())).toEqual(build(clashing));
+  });
+});
+
+describe("artist and album endpoints", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lists artists with counts that add up to the whole library", async () => {
+    const artists: ArtistSummary[] = await (await get("/api/artists")).json();
+
+    expect(artists.length).toBeGreaterThan(0);
+    expect(artists.reduce((total, artist) => total + artist.songCount, 0)).toBe(10000);
+    expect(artists[0]).not.toHaveProperty("songs");
+  });
+
+  it("returns an artist with their albums and songs", async () => {
+    const [summary]: ArtistSummary[] = await (await get("/api/artists")).json();
+
+    const response = await get(`/api/artists/${summary.id}`);
+    const artist: Artist = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(artist).toMatchObject(summary);
+    expect(artist.albums).toHaveLength(summary.albumCount);
+    expect(artist.songs).toHaveLength(summary.songCount);
+    expect(artist.songs.every((track) => track.artist === artist.name)).toBe(true);
+  });
+
+  it("lists albums and returns one with its track list", async () => {
+    const albums: AlbumSummary[] = await (await get("/api/albums")).json();
+    const summary = albums[0];
+
+    const album: Album = await (await get(`/api/albums/${summary.id}`)).json();
+
+    expect(album).toMatchObject(summary);
+    expect(album.songs).toHaveLength(summary.songCount);
+    expect(album.totalDuration).toBe(album.songs.reduce((total, track) => total + track.duration, 0));
+    expect(album.songs.every((track) => track.album === album.title && track.artist === album.artist)).toBe(true);
+  });
+
+  it("returns 404 for unknown ids", async () => {
+    expect((await get("/api/artists/nobody")).status).toBe(404);
+    expect((await get("/api/albums/nothing")).status).toBe(404);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { request } from "./request";
+import { createApp } from "../app";
+import { DEFAULT_CHAOS, parseChaos, parseLatency, sampleLatency } from "../chaos";
+import { createRandom } from "../random";
+
+describe("parseLatency", () => {
+  it("reads each distribution", () => {
+    expect(parseLatency("fixed:300")).toEqual({ type: "fixed", ms: 300 });
+    expect(parseLatency("uniform:100-500")).toEqual({ type: "uniform", min: 100, max: 500 });
+    expect(parseLatency("normal:300,50")).toEqual({ type: "normal", mean: 300, stddev: 50 });
+    expect(parseLatency("exponential:200")).toEqual({ type: "exponential", mean: 200 });
+    expect(parseLatency("off")).toEqual({ type: "fixed", ms: 0 });
+  });
+
+  it("rejects malformed distributions", () => {
+    for (const spec of ["fixed", "fixed:-1", "uniform:500-100", "normal:300", "gamma:1", "fixed:abc"]) {
+      expect(parseLatency(spec)).toBeNull();
+    }
+  });
+});
+
+describe("parseChaos", () => {
+  it("reads a full spec", () => {
+    expect(
+      parseChaos("latency=uniform:0-50; error=0.1;timeout=0.05;timeoutAfter=1000;truncate=0.5;throttle=2048;seed=7"),
+    ).toEqual({
+      latency: { type: "uniform", min: 0, max: 50 },
+      error: 0.1,
+      timeout: 0.05,
+      timeoutAfter: 1000,
+      truncate: 0.5,
+      throttle: 2048,
+      seed: 7,
+    });
+    expect(parseChaos("")).toEqual({});
+  });
+
+  it("rejects unknown keys and out-of-range values", () => {
+    for (const spec of ["explode=1", "error=2", "error=", "throttle=1.5", "seed=-1", "latency"]) {
+      expect(parseChaos(spec)).toBeNull();
+    }
+  });
+});
+
+describe("sampleLatency", () => {
+  it("stays within the distribution", () => {
+    const random = createRandom(1);
+    for (let i = 0; i < 100; i++) {
+      const uniform = sampleLatency({ type: "uniform", min: 100, max: 200 }, random);
+      expect(uniform).toBeGreaterThanOrEqual(100);
+      expect(uniform).toBeLessThan(200);
+      expect(sampleLatency({ type: "normal", mean: 10, stddev: 50 }, random)).toBeGreaterThanOrEqual(0);
+      expect(sampleLatency({ type: "exponential", mean: 10 }, random)).toBeGreaterThanOrEqual(0);
+    }
+  });
+});
+
+describe("chaos middleware", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const songPath = "/api/songs/song-00001";
+
+  it("leaves requests alone by default", async () => {
+    const app = createApp({ chaos: DEFAULT_CHAOS });
+
+    const response = await request(songPath, undefined, app);
+
+    expect(response.status).toBe(200);
+  });
+
+  it("answers 500 when an error is forced", async () => {
+    const app = createApp({ chaos: { ...DEFAULT_CHAOS, error: 1 } });
+
+    const response = await request(songPath, undefined, app);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Simulated server error" });
+  });
+
+  it("takes per-request overrides from the header or query", async () => {
+    const app = createApp({ chaos: DEFAULT_CHAOS });
+
+    const fromHeader = await request(songPath, { headers: { "X-Chaos": "error=1" } }, app);
+    const fromQuery = await request(`${songPath}?chaos=${encodeURIComponent("error=1")}`, undefined, app);
+    const invalid = await request(songPath, { headers: { "X-Chaos": "error=lots" } }, app);
+
+    expect(fromHeader.status).toBe(500);
+    expect(fromQuery.status).toBe(500);
+    expect(invalid.status).toBe(400);
+  });
+
+  it("hangs, then times out", async () => {
+    const app = createApp({ chaos: { ...DEFAULT_CHAOS, timeout: 1, timeoutAfter: 5000 } });
+    let settled = false;
+
+    const pending = Promise.resolve(app.request(songPath)).then((response) => {
+      settled = true;
+      return response;
+    });
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(settled).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await pending).status).toBe(504);
+  });
+
+  it("replaces the route's delay with the configured latency", async () => {
+    const app = createApp({ chaos: { ...DEFAULT_CHAOS, latency: { type: "fixed", ms: 2000 } } });
+    let settled = false;
+
+    Promise.resolve(app.request(songPath)).then(() => {
+      settled = true;
+    });
+    // The route's own delay is 100ms
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(settled).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(settled).toBe(true);
+  });
+
+  it("truncates JSON bodies", async () => {
+    const app = createApp({ chaos: { ...DEFAULT_CHAOS, truncate: 1 } });
+
+    const response = await request(songPath, undefined, app);
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).rejects.toThrow(SyntaxError);
+  });
+
+  it("throttles bodies to the configured rate", async () => {
+    const app = createApp({ chaos: DEFAULT_CHAOS });
+    const response = await request(songPath, { headers: { "X-Chaos": "throttle=100" } }, app);
+    let body: string | undefined;
+
+    response.text().then((text) => {
+      body = text;
+    });
+    // Song JSON is a couple of hundred bytes: several seconds at 100 bytes/s
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(body).toBeUndefined();
+    await vi.runAllTimersAsync();
+
+    expect(JSON.parse(body!)).toMatchObject({ id: "song-00001" });
+  });
+
+  it("rolls the same faults for the same seed", async () => {
+    const app = createApp({ chaos: DEFAULT_CHAOS });
+    const statuses = async () => {
+      const results = [];
+      for (let i = 0; i < 10; i++) {
+        const response = await request(songPath, { headers: { "X-Chaos": `error=0.5;seed=${i}` } }, app);
+        results.push(response.status);
+      }
+      return results;
+    };
+
+    const first = await statuses();
+
+    expect(await statuses()).toEqual(first);
+    expect(first).toContain(200);
+    expect(first).toContain(500);
+  });
+});
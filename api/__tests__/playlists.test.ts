@@ -0,0 +1,359 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { Hono } from "hono";
+import { createApp } from "../app";
+import { json, request } from "./request";
+import type { PlaylistResponse, PlaylistSummary } from "../playlists";
+
+describe("/api/playlists", () => {
+  let dir: string;
+  let playlistsFile: string;
+  let app: Hono;
+
+  const send = (path: string, init?: RequestInit) => request(path, init, app);
+
+  const create = async (body: unknown): Promise<PlaylistResponse> => {
+    const response = await send("/api/playlists", json("POST", body));
+    expect(response.status).toBe(201);
+    return response.json();
+  };
+
+  // Marks an edit as made against the given version
+  const ifMatch = (playlist: { version: number }) => ({ "If-Match": `"${playlist.version}"` });
+
+  const stored = () => JSON.parse(readFileSync(playlistsFile, "utf-8"));
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    dir = mkdtempSync(join(tmpdir(), "playlists-"));
+    playlistsFile = join(dir, "playlists.json");
+    app = createApp({ playlistsFile });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("serves the bundled playlist before anything is saved", async () => {
+    const response = await send("/api/playlists/1");
+    const playlist: PlaylistResponse = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(playlist.name).toBe("Discover Weekly");
+    expect(playlist.songs).toHaveLength(20);
+    expect(playlist.songs[0]).toMatchObject({ id: "song-001", title: "Blinding Lights" });
+  });
+
+  it("lists playlists with song counts", async () => {
+    await create({ name: "Road trip", songIds: ["song-00001", "song-00002"] });
+
+    const response = await send("/api/playlists");
+    const playlists: PlaylistSummary[] = await response.json();
+
+    expect(playlists.map(({ name, songCount }) => ({ name, songCount }))).toEqual([
+      { name: "Discover Weekly", songCount: 20 },
+      { name: "Road trip", songCount: 2 },
+    ]);
+  });
+
+  it("creates a playlist and persists song ids rather than songs", async () => {
+    const playlist = await create({
+      name: "  Focus  ",
+      description: "Deep work",
+      songIds: ["song-00003", "song-001"],
+    });
+
+    expect(playlist).toMatchObject({ name: "Focus", description: "Deep work" });
+    expect(playlist.songs.map((song) => song.id)).toEqual(["song-00003", "song-001"]);
+
+    const saved = stored().playlists.find((p: { id: string }) => p.id === playlist.id);
+    expect(saved.songIds).toEqual(["song-00003", "song-001"]);
+    expect(saved.songs).toBeUndefined();
+  });
+
+  it("keeps playlists across app restarts", async () => {
+    const playlist = await create({ name: "Saved" });
+
+    app = createApp({ playlistsFile });
+    const response = await send(`/api/playlists/${playlist.id}`);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).name).toBe("Saved");
+  });
+
+  it("leaves no temporary files behind", async () => {
+    await create({ name: "One" });
+    await create({ name: "Two" });
+
+    expect(readdirSync(dir)).toEqual(["playlists.json"]);
+  });
+
+  it.each([
+    ["a missing name", { description: "x" }],
+    ["a blank name", { name: "   " }],
+    ["an overlong name", { name: "x".repeat(101) }],
+    ["a non-string description", { name: "x", description: 5 }],
+    ["unknown song ids", { name: "x", songIds: ["song-00001", "nope"] }],
+    ["duplicate song ids", { name: "x", songIds: ["song-00001", "song-00001"] }],
+  ])("rejects a playlist with %s", async (_, body) => {
+    const response = await send("/api/playlists", json("POST", body));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: expect.any(String) });
+  });
+
+  it("rejects a body that isn't JSON", async () => {
+    const response = await send("/api/playlists", { method: "POST", body: "name=x" });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("renames and redescribes a playlist", async () => {
+    const created = await create({ name: "Old" });
+    vi.setSystemTime(Date.now() + 1000);
+
+    const response = await send(
+      `/api/playlists/${created.id}`,
+      json("PATCH", { name: "New", description: "Fresh" }, ifMatch(created)),
+    );
+    const playlist: PlaylistResponse = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(playlist).toMatchObject({ name: "New", description: "Fresh" });
+    expect(playlist.updatedAt > created.updatedAt).toBe(true);
+  });
+
+  it("rejects an empty update", async () => {
+    const created = await create({ name: "Old" });
+
+    const response = await send(`/api/playlists/${created.id}`, json("PATCH", {}, ifMatch(created)));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("deletes a playlist", async () => {
+    const created = await create({ name: "Temporary" });
+    const { id } = created;
+
+    const response = await send(`/api/playlists/${id}`, { method: "DELETE", headers: ifMatch(created) });
+
+    expect(response.status).toBe(204);
+    expect((await send(`/api/playlists/${id}`)).status).toBe(404);
+    expect(stored().playlists.map((p: { id: string }) => p.id)).toEqual(["1"]);
+  });
+
+  it("returns 404 for unknown playlists", async () => {
+    expect((await send("/api/playlists/nope")).status).toBe(404);
+    expect((await send("/api/playlists/nope", json("PATCH", { name: "x" }))).status).toBe(404);
+    expect((await send("/api/playlists/nope", { method: "DELETE" })).status).toBe(404);
+    expect((await send("/api/playlists/nope/songs", json("POST", { songIds: [] }))).status).toBe(404);
+  });
+
+  describe("songs", () => {
+    const songIds = (playlist: PlaylistResponse) => playlist.songs.map((song) => song.id);
+
+    it("adds songs to the end or at a position", async () => {
+      const created = await create({ name: "Mix", songIds: ["song-00001", "song-00002"] });
+      const { id } = created;
+
+      const first = await send(
+        `/api/playlists/${id}/songs`,
+        json("POST", { songIds: ["song-00003"] }, ifMatch(created)),
+      );
+      const response = await send(
+        `/api/playlists/${id}/songs`,
+        json("POST", { songIds: ["song-00004", "song-00005"], position: 1 }, ifMatch(await first.json())),
+      );
+
+      expect(response.status).toBe(200);
+      expect(songIds(await response.json())).toEqual([
+        "song-00001",
+        "song-00004",
+        "song-00005",
+        "song-00002",
+        "song-00003",
+      ]);
+    });
+
+    it("rejects songs already in the playlist or an out-of-range position", async () => {
+      const created = await create({ name: "Mix", songIds: ["song-00001"] });
+      const { id } = created;
+
+      const duplicate = await send(
+        `/api/playlists/${id}/songs`,
+        json("POST", { songIds: ["song-00001"] }, ifMatch(created)),
+      );
+      const outOfRange = await send(
+        `/api/playlists/${id}/songs`,
+        json("POST", { songIds: ["song-00002"], position: 5 }, ifMatch(created)),
+      );
+
+      expect(duplicate.status).toBe(409);
+      expect(outOfRange.status).toBe(400);
+    });
+
+    it("removes a song by id", async () => {
+      const created = await create({ name: "Mix", songIds: ["song-00001", "song-00002"] });
+      const { id } = created;
+
+      const response = await send(`/api/playlists/${id}/songs/song-00001`, {
+        method: "DELETE",
+        headers: ifMatch(created),
+      });
+      const updated: PlaylistResponse = await response.json();
+
+      expect(songIds(updated)).toEqual(["song-00002"]);
+      const again = await send(`/api/playlists/${id}/songs/song-00001`, {
+        method: "DELETE",
+        headers: ifMatch(updated),
+      });
+      expect(again.status).toBe(409);
+    });
+
+    it("reorders songs", async () => {
+      const created = await create({
+        name: "Mix",
+        songIds: ["song-00001", "song-00002", "song-00003"],
+      });
+      const { id } = created;
+
+      const response = await send(
+        `/api/playlists/${id}/songs`,
+        json("PUT", { songIds: ["song-00003", "song-00001", "song-00002"] }, ifMatch(created)),
+      );
+
+      expect(songIds(await response.json())).toEqual(["song-00003", "song-00001", "song-00002"]);
+      expect(stored().playlists.find((p: { id: string }) => p.id === id).songIds).toEqual([
+        "song-00003",
+        "song-00001",
+        "song-00002",
+      ]);
+    });
+
+    it("rejects an order that isn't a permutation of the playlist", async () => {
+      const created = await create({ name: "Mix", songIds: ["song-00001", "song-00002"] });
+
+      for (const order of [["song-00001"], ["song-00001", "song-00001"], ["song-00001", "song-00003"]]) {
+        const response = await send(
+          `/api/playlists/${created.id}/songs`,
+          json("PUT", { songIds: order }, ifMatch(created)),
+        );
+        expect(response.status).toBe(409);
+      }
+    });
+  });
+
+  describe("concurrency", () => {
+    it("versions playlists and sends the version as an ETag", async () => {
+      const created = await create({ name: "Versioned" });
+      expect(created.version).toBe(1);
+
+      const response = await send(`/api/playlists/${created.id}`);
+      expect(response.headers.get("ETag")).toBe('"1"');
+
+      const renamed = await send(
+        `/api/playlists/${created.id}`,
+        json("PATCH", { name: "Renamed" }, ifMatch(created)),
+      );
+      expect(renamed.headers.get("ETag")).toBe('"2"');
+      expect((await renamed.json()).version).toBe(2);
+    });
+
+    it("requires If-Match on edits", async () => {
+      const created = await create({ name: "Guarded" });
+
+      const response = await send(`/api/playlists/${created.id}`, json("PATCH", { name: "x" }));
+      const body = await response.json();
+
+      expect(response.status).toBe(428);
+      expect(body.playlist).toMatchObject({ id: created.id, name: "Guarded" });
+    });
+
+    it("rejects a stale edit with the current playlist", async () => {
+      const created = await create({ name: "Shared", songIds: ["song-00001"] });
+      // Another tab edits first
+      await send(`/api/playlists/${created.id}`, json("PATCH", { name: "Theirs" }, ifMatch(created)));
+
+      const response = await send(
+        `/api/playlists/${created.id}`,
+        json("PATCH", { name: "Mine" }, ifMatch(created)),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(412);
+      expect(response.headers.get("ETag")).toBe('"2"');
+      expect(body.playlist).toMatchObject({ name: "Theirs", version: 2 });
+      expect(stored().playlists.find((p: { id: string }) => p.id === created.id).name).toBe("Theirs");
+    });
+
+    it("applies only one of two edits sent at once against the same version", async () => {
+      const created = await create({ name: "Shared", songIds: ["song-00001", "song-00002"] });
+      const path = `/api/playlists/${created.id}`;
+
+      // Bodies that arrive after the simulated latency, so every request is
+      // waiting on its body at the same time
+      const slowJson = (method: string, body: unknown): RequestInit => {
+        const stream = new ReadableStream<Uint8Array>({
+          async start(controller) {
+            await new Promise((resolve) => setTimeout(resolve, 500));
+            controller.enqueue(new TextEncoder().encode(JSON.stringify(body)));
+            controller.close();
+          },
+        });
+        return { ...json(method, body, ifMatch(created)), body: stream, duplex: "half" } as RequestInit;
+      };
+
+      const pending = [
+        app.request(path, slowJson("PATCH", { name: "Mine" })),
+        app.request(`${path}/songs`, slowJson("PUT", { songIds: ["song-00002", "song-00001"] })),
+      ];
+      await vi.runAllTimersAsync();
+      const statuses = (await Promise.all(pending)).map((response) => response.status);
+
+      expect(statuses.sort()).toEqual([200, 412]);
+      expect((await (await send(path)).json()).version).toBe(2);
+    });
+
+    it("rejects a stale delete", async () => {
+      const created = await create({ name: "Shared" });
+      await send(`/api/playlists/${created.id}`, json("PATCH", { name: "Theirs" }, ifMatch(created)));
+
+      const response = await send(`/api/playlists/${created.id}`, {
+        method: "DELETE",
+        headers: ifMatch(created),
+      });
+
+      expect(response.status).toBe(412);
+      expect((await send(`/api/playlists/${created.id}`)).status).toBe(200);
+    });
+
+    it("accepts a wildcard or a list of tags", async () => {
+      const created = await create({ name: "Shared" });
+
+      const wildcard = await send(
+        `/api/playlists/${created.id}`,
+        json("PATCH", { name: "One" }, { "If-Match": "*" }),
+      );
+      const list = await send(
+        `/api/playlists/${created.id}`,
+        json("PATCH", { name: "Two" }, { "If-Match": '"7", "2"' }),
+      );
+
+      expect(wildcard.status).toBe(200);
+      expect(list.status).toBe(200);
+    });
+
+    it("keeps versions across restarts", async () => {
+      const created = await create({ name: "Saved" });
+      await send(`/api/playlists/${created.id}`, json("PATCH", { name: "Renamed" }, ifMatch(created)));
+
+      app = createApp({ playlistsFile });
+      const response = await send(`/api/playlists/${created.id}`);
+
+      expect((await response.json()).version).toBe(2);
+    });
+  });
+});
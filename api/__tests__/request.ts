@@ -0,0 +1,28 @@
+import { vi } from "vitest";
+import type { Hono } from "hono";
+import { app } from "../app";
+
+/**
+ * Sends a request to the app, skipping the simulated network latency.
+ * Needs fake timers to be enabled.
+ */
+export async function request(
+  path: string,
+  init?: RequestInit,
+  target: Hono = app,
+): Promise<Response> {
+  const pending = target.request(path, init);
+  await vi.runAllTimersAsync();
+  return pending;
+}
+
+/**
+ * Builds request options for sending a JSON body
+ */
+export function json(method: string, body: unknown, headers: HeadersInit = {}): RequestInit {
+  return {
+    method,
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { request as get } from "./request";
+import {
+  SchemaError,
+  array,
+  formatIssues,
+  number,
+  object,
+  optional,
+  parse,
+  playlistSchema,
+  songListSchema,
+  songSchema,
+  string,
+} from "../schemas";
+
+const song = {
+  id: "song-00001",
+  title: "Acoustic Angel",
+  artist: "The Midnight Dreamers",
+  album: "First Light",
+  albumArt: "/api/art/the-midnight-dreamers--first-light.svg",
+  duration: 215,
+};
+
+describe("schemas", () => {
+  it("accepts valid values and strips unknown fields", () => {
+    const result = songSchema.check({ ...song, lyrics: "la la" }, "");
+
+    expect(result).toEqual({ ok: true, value: song, issues: [] });
+  });
+
+  it("reports every problem with its path", () => {
+    const result = songSchema.check({ ...song, title: 42, duration: -1, albumArt: undefined }, "song");
+
+    expect(result.ok).toBe(false);
+    expect(result.issues).toEqual([
+      { path: "song.title", message: "expected a string, got a number" },
+      { path: "song.albumArt", message: "expected a string, got undefined" },
+      { path: "song.duration", message: "expected at least 0, got -1" },
+    ]);
+  });
+
+  it("checks numbers, optionals and nested arrays", () => {
+    const schema = object<{ count?: number; tags: string[] }>({
+      count: optional(number({ integer: true })),
+      tags: array(string()),
+    });
+
+    expect(schema.check({ tags: [] }, "").ok).toBe(true);
+    expect(schema.check({ count: 1.5, tags: [] }, "").issues[0].message).toBe("expected a whole number, got 1.5");
+    expect(schema.check({ tags: ["a", 1] }, "").issues[0].path).toBe("tags[1]");
+    expect(number().check(NaN, "n").issues[0].message).toBe("expected a number, got NaN");
+  });
+
+  it("drops invalid songs from lists, reporting them", () => {
+    const result = songListSchema.check([song, { ...song, id: null }, "junk"], "");
+
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.value).toEqual([song]);
+    expect(result.issues.map((issue) => issue.path)).toEqual(["[1].id", "[2]"]);
+  });
+
+  it("keeps a playlist whose songs are partly invalid", () => {
+    const result = playlistSchema.check({ id: "1", name: "Mix", songs: [song, { ...song, duration: "3:35" }] }, "");
+
+    expect(result.ok && result.value.songs).toEqual([song]);
+  });
+
+  it("throws a descriptive error when the value doesn't fit", () => {
+    const parsing = () => parse(playlistSchema, { id: 1, songs: {} }, "playlist");
+
+    expect(parsing).toThrow(SchemaError);
+    expect(parsing).toThrow(
+      "Invalid playlist: id: expected a string, got a number; name: expected a string, got undefined; songs: expected an array, got an object",
+    );
+  });
+
+  it("summarizes long lists of issues", () => {
+    const issues = Array.from({ length: 5 }, (_, i) => ({ path: `[${i}]`, message: "bad" }));
+
+    expect(formatIssues(issues)).toBe("[0]: bad; [1]: bad; [2]: bad (and 2 more)");
+  });
+});
+
+describe("API responses", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("match the shared schemas", async () => {
+    const songs = songListSchema.check(await (await get("/api/songs")).json(), "");
+    const playlist = playlistSchema.check(await (await get("/api/playlists/1")).json(), "");
+
+    expect(songs.issues).toEqual([]);
+    expect(playlist.issues).toEqual([]);
+  });
+});
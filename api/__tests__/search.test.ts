@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { request } from "./request";
+import { createSearchIndex, searchSongs, tokenize, type SearchPage } from "../search";
+import type { Song } from "../types";
+
+const song = (id: string, title: string, artist: string, album: string): Song => ({
+  id,
+  title,
+  artist,
+  album,
+  albumArt: "",
+  duration: 200,
+});
+
+describe("tokenize", () => {
+  it("splits on punctuation and keeps word offsets", () => {
+    expect(tokenize("Don't Stop-Me, Now")).toEqual([
+      { text: "don", start: 0 },
+      { text: "t", start: 4 },
+      { text: "stop", start: 6 },
+      { text: "me", start: 11 },
+      { text: "now", start: 15 },
+    ]);
+  });
+});
+
+describe("searchSongs", () => {
+  const index = createSearchIndex([
+    song("1", "Midnight City", "M83", "Hurry Up"),
+    song("2", "Rain", "Night Owls", "Midnight Sessions"),
+    song("3", "Night Drive", "Chromatics", "Cherry"),
+    song("4", "Nightcall", "Kavinsky", "OutRun"),
+    song("5", "Tonight", "Phoenix", "Ti Amo"),
+    song("6", "Sunrise", "Norah Jones", "Feels Like Home"),
+  ]);
+
+  const ids = (query: string) => searchSongs(index, query).map((result) => result.song.id);
+
+  it("ranks exact over prefix over substring matches", () => {
+    expect(ids("night")).toEqual(["3", "4", "2", "1", "5"]);
+  });
+
+  it("weights title matches over artist and album matches", () => {
+    const [first, second] = searchSongs(index, "night");
+
+    // Exact title word beats exact artist word
+    expect(first.song.id).toBe("3");
+    expect(second.song.id).toBe("4");
+    expect(first.score).toBeGreaterThan(second.score);
+  });
+
+  it("requires every query word to match", () => {
+    expect(ids("night drive")).toEqual(["3"]);
+    expect(ids("night banana")).toEqual([]);
+  });
+
+  it("matches words across different fields", () => {
+    expect(ids("rain owls")).toEqual(["2"]);
+  });
+
+  it("ignores case and punctuation in the query", () => {
+    expect(ids("  NIGHT-drive! ")).toEqual(["3"]);
+  });
+
+  it("returns match offsets for highlighting", () => {
+    const [result] = searchSongs(index, "mid hur");
+
+    expect(result.song.id).toBe("1");
+    expect(result.matches).toEqual({ title: [[0, 3]], album: [[0, 3]] });
+  });
+
+  it("reports substring matches at their position in the word", () => {
+    const [result] = searchSongs(index, "rise");
+
+    expect(result.matches).toEqual({ title: [[3, 7]] });
+  });
+
+  it("returns nothing for a query without words", () => {
+    expect(searchSongs(index, "?!")).toEqual([]);
+  });
+});
+
+describe("GET /api/search", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns ranked results with match offsets", async () => {
+    const response = await request("/api/search?q=angel");
+    const page: SearchPage = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(page.total).toBeGreaterThan(0);
+    expect(page.results.length).toBeLessThanOrEqual(50);
+    const scores = page.results.map((result) => result.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    for (const { song, matches } of page.results) {
+      for (const field of ["title", "artist", "album"] as const) {
+        for (const [start, end] of matches[field] ?? []) {
+          expect(song[field].slice(start, end).toLowerCase()).toBe("angel");
+        }
+      }
+    }
+  });
+
+  it("pages through results with cursors", async () => {
+    const first: SearchPage = await (await request("/api/search?q=love&limit=5")).json();
+    const second: SearchPage = await (
+      await request(`/api/search?q=love&limit=5&cursor=${first.nextCursor}`)
+    ).json();
+    const both: SearchPage = await (await request("/api/search?q=love&limit=10")).json();
+
+    expect(first.nextCursor).toEqual(expect.any(String));
+    expect([...first.results, ...second.results]).toEqual(both.results);
+  });
+
+  it("rejects a missing query", async () => {
+    const response = await request("/api/search?q=%20");
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects a cursor from another query", async () => {
+    const first: SearchPage = await (await request("/api/search?q=love&limit=5")).json();
+    const response = await request(`/api/search?q=angel&limit=5&cursor=${first.nextCursor}`);
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects an invalid limit", async () => {
+    const response = await request("/api/search?q=love&limit=0");
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { request as get } from "./request";
+import type { Song } from "../types";
+import type { SongPage } from "../pagination";
+
+async function getPage(path: string): Promise<SongPage> {
+  const response = await get(path);
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+describe("GET /api/songs", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns every song as a bare array without paging parameters", async () => {
+    const response = await get("/api/songs");
+    const songs: Song[] = await response.json();
+
+    expect(Array.isArray(songs)).toBe(true);
+    expect(songs).toHaveLength(10000);
+  });
+
+  it("returns the first page sorted by title by default", async () => {
+    const page = await getPage("/api/songs?limit=20");
+
+    expect(page.songs).toHaveLength(20);
+    expect(page.total).toBe(10000);
+    expect(page.nextCursor).toEqual(expect.any(String));
+    const titles = page.songs.map((song) => song.title);
+    expect(titles).toEqual([...titles].sort());
+  });
+
+  it("uses the default page size when only sort is given", async () => {
+    const page = await getPage("/api/songs?sort=artist");
+
+    expect(page.songs).toHaveLength(50);
+  });
+
+  it("walks every song exactly once by following cursors", async () => {
+    const seen: string[] = [];
+    let cursor: string | null = "";
+    do {
+      const page: SongPage = await getPage(
+        `/api/songs?limit=500&sort=duration:desc&cursor=${encodeURIComponent(cursor)}`,
+      );
+      seen.push(...page.songs.map((song) => song.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(seen).toHaveLength(10000);
+    expect(new Set(seen).size).toBe(10000);
+  });
+
+  it.each(["title", "artist", "album", "duration"] as const)(
+    "sorts by %s in both directions",
+    async (field) => {
+      const ascending = await getPage(`/api/songs?limit=100&sort=${field}:asc`);
+      const descending = await getPage(`/api/songs?limit=100&sort=${field}:desc`);
+
+      const values = ascending.songs.map((song) => song[field]);
+      expect(values).toEqual([...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)));
+      const reversed = descending.songs.map((song) => song[field]);
+      expect(reversed).toEqual([...reversed].sort((a, b) => (a < b ? 1 : a > b ? -1 : 0)));
+    },
+  );
+
+  it("keeps the cursor's sort when the sort parameter is left out", async () => {
+    const first = await getPage("/api/songs?limit=10&sort=album:desc");
+    const second = await getPage(`/api/songs?limit=10&cursor=${first.nextCursor}`);
+    const both = await getPage("/api/songs?limit=20&sort=album:desc");
+
+    expect([...first.songs, ...second.songs]).toEqual(both.songs);
+  });
+
+  it("returns a null cursor on the last page", async () => {
+    const page = await getPage("/api/songs?limit=500&sort=title");
+    let cursor = page.nextCursor;
+    let last = page;
+    while (cursor) {
+      last = await getPage(`/api/songs?limit=500&cursor=${cursor}`);
+      cursor = last.nextCursor;
+    }
+
+    expect(last.songs).toHaveLength(500);
+    expect(last.nextCursor).toBeNull();
+  });
+
+  it.each([
+    ["an unknown sort field", "/api/songs?sort=genre"],
+    ["an unknown sort order", "/api/songs?sort=title:sideways"],
+    ["a limit of zero", "/api/songs?limit=0"],
+    ["a limit above the maximum", "/api/songs?limit=501"],
+    ["a fractional limit", "/api/songs?limit=2.5"],
+    ["a malformed cursor", "/api/songs?cursor=not-a-cursor"],
+  ])("rejects %s", async (_, path) => {
+    const response = await get(path);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: expect.any(String) });
+  });
+
+  it("rejects a cursor from a different sort", async () => {
+    const page = await getPage("/api/songs?limit=10&sort=title");
+    const response = await get(`/api/songs?limit=10&sort=artist&cursor=${page.nextCursor}`);
+
+    expect(response.status).toBe(400);
+  });
+
+  describe("conditional requests", () => {
+    it("tags responses so they can be revalidated", async () => {
+      const response = await get("/api/songs");
+
+      expect(response.headers.get("ETag")).toMatch(/^"[\w-]+"$/);
+      expect(response.headers.get("Cache-Control")).toBe("no-cache");
+    });
+
+    it("answers 304 with no body when the client's copy is current", async () => {
+      const etag = (await get("/api/songs")).headers.get("ETag")!;
+
+      const response = await get("/api/songs", { headers: { "If-None-Match": etag } });
+
+      expect(response.status).toBe(304);
+      expect(response.headers.get("ETag")).toBe(etag);
+      expect(await response.text()).toBe("");
+    });
+
+    it("accepts a weak tag or one of several", async () => {
+      const etag = (await get("/api/songs")).headers.get("ETag")!;
+
+      for (const ifNoneMatch of [`W/${etag}`, `"stale", ${etag}`, "*"]) {
+        const response = await get("/api/songs", { headers: { "If-None-Match": ifNoneMatch } });
+        expect(response.status).toBe(304);
+      }
+    });
+
+    it("sends the songs again when the tag is out of date", async () => {
+      const response = await get("/api/songs", { headers: { "If-None-Match": '"stale"' } });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toHaveLength(10000);
+    });
+
+    it("revalidates pages too", async () => {
+      const etag = (await get("/api/songs?limit=10")).headers.get("ETag")!;
+
+      const response = await get("/api/songs?limit=10", { headers: { "If-None-Match": etag } });
+
+      expect(response.status).toBe(304);
+    });
+
+    it("still rejects invalid parameters", async () => {
+      const response = await get("/api/songs?limit=0", { headers: { "If-None-Match": "*" } });
+
+      expect(response.status).toBe(400);
+      expect(response.headers.get("ETag")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { request as get } from "./request";
+import { SAMPLE_RATE, WAV_HEADER_SIZE, getWavSize, parseRange, readWav } from "../audio";
+import type { Song } from "../types";
+
+const song: Song = {
+  id: "song-00001",
+  title: "Acoustic Angel",
+  artist: "The Midnight Dreamers",
+  album: "First Light",
+  albumArt: "",
+  duration: 215,
+};
+
+const text = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+describe("readWav", () => {
+  it("starts with a PCM WAV header matching the song's length", () => {
+    const header = readWav(song, 0, WAV_HEADER_SIZE);
+    const view = new DataView(header.buffer);
+
+    expect(text(header, 0, 4)).toBe("RIFF");
+    expect(text(header, 8, 16)).toBe("WAVEfmt ");
+    expect(view.getUint32(24, true)).toBe(SAMPLE_RATE);
+    expect(view.getUint32(40, true)).toBe(215 * SAMPLE_RATE * 2);
+    expect(getWavSize(song)).toBe(WAV_HEADER_SIZE + 215 * SAMPLE_RATE * 2);
+  });
+
+  it("makes the same bytes however the file is split", () => {
+    const whole = readWav(song, 0, 4000);
+    const pieces = [readWav(song, 0, 43), readWav(song, 43, 1001), readWav(song, 1001, 4000)];
+
+    expect(Buffer.concat(pieces)).toEqual(Buffer.from(whole));
+  });
+
+  it("gives each song its own audio", () => {
+    const other = { ...song, id: "song-00002" };
+
+    expect(readWav(song, 0, 4000)).toEqual(readWav(song, 0, 4000));
+    expect(readWav(other, WAV_HEADER_SIZE, 4000)).not.toEqual(readWav(song, WAV_HEADER_SIZE, 4000));
+  });
+});
+
+describe("parseRange", () => {
+  it("reads single byte ranges", () => {
+    expect(parseRange("bytes=0-99", 1000)).toEqual({ start: 0, end: 99 });
+    expect(parseRange("bytes=500-", 1000)).toEqual({ start: 500, end: 999 });
+    expect(parseRange("bytes=-100", 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRange("bytes=900-5000", 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  it("ignores missing, malformed and multiple ranges", () => {
+    expect(parseRange(undefined, 1000)).toBeNull();
+    expect(parseRange("bytes=50-10", 1000)).toBeNull();
+    expect(parseRange("items=0-10", 1000)).toBeNull();
+    expect(parseRange("bytes=0-10, 20-30", 1000)).toBeNull();
+  });
+
+  it("flags ranges outside the file", () => {
+    expect(parseRange("bytes=1000-", 1000)).toBe("unsatisfiable");
+    expect(parseRange("bytes=-0", 1000)).toBe("unsatisfiable");
+  });
+});
+
+describe("GET /api/songs/:id/stream", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("streams the whole file", async () => {
+    const response = await get("/api/songs/song-00001/stream");
+    const body = new Uint8Array(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("audio/wav");
+    expect(response.headers.get("Accept-Ranges")).toBe("bytes");
+    expect(Number(response.headers.get("Content-Length"))).toBe(getWavSize(song));
+    expect(body.length).toBe(getWavSize(song));
+    expect(body.subarray(0, 4000)).toEqual(readWav(song, 0, 4000));
+  });
+
+  it("serves a byte range with 206", async () => {
+    const size = getWavSize(song);
+    const response = await get("/api/songs/song-00001/stream", {
+      headers: { Range: "bytes=100001-200000" },
+    });
+    const body = new Uint8Array(await response.arrayBuffer());
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get("Content-Range")).toBe(`bytes 100001-200000/${size}`);
+    expect(response.headers.get("Content-Length")).toBe("100000");
+    expect(body).toEqual(readWav(song, 100001, 200001));
+  });
+
+  it("answers a range past the end with 416", async () => {
+    const size = getWavSize(song);
+    const response = await get("/api/songs/song-00001/stream", {
+      headers: { Range: `bytes=${size}-` },
+    });
+
+    expect(response.status).toBe(416);
+    expect(response.headers.get("Content-Range")).toBe(`bytes */${size}`);
+  });
+
+  it("returns 404 for unknown songs", async () => {
+    expect((await get("/api/songs/nope/stream")).status).toBe(404);
+  });
+});
@@ -0,0 +1,341 @@
+import { Hono } from "hono";
+import { cors } from "hono/cors";
+import { readFileSync } from "fs";
+import { createHash } from "crypto";
+import { fileURLToPath } from "url";
+import { dirname, join } from "path";
+import type { Song } from "./types";
+import { formatIssues, parse, playlistSchema, songListSchema, type Schema } from "./schemas";
+import {
+  DEFAULT_LIMIT,
+  DEFAULT_SORT,
+  MAX_LIMIT,
+  SORT_FIELDS,
+  getCursorSort,
+  paginateSongs,
+  parseLimit,
+  parseSort,
+} from "./pagination";
+import { createSearchIndex, paginateSearch } from "./search";
+import { createPlaylistStore, type StoredPlaylist } from "./playlistStore";
+import { createPlaylistRoutes } from "./playlists";
+import { buildCatalog } from "./catalog";
+import { getWavSize, parseRange, streamWav } from "./audio";
+import { MAX_ART_SIZE, MIN_ART_SIZE, createCover, parseArtSize, renderPng, renderSvg } from "./art";
+import { DEFAULT_CHAOS, createChaos, parseChaos, simulateLatency, type ChaosConfig } from "./chaos";
+import { matchesETag } from "./etag";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// Reads and checks a data file, leaving out any records that don't fit
+function loadData<T>(fileName: string, schema: Schema<T>): T {
+  const { value, dropped } = parse(
+    schema,
+    JSON.parse(readFileSync(join(__dirname, "data", fileName), "utf-8")),
+    fileName,
+  );
+  if (dropped.length > 0) {
+    console.warn(`Skipped invalid records in ${fileName}: ${formatIssues(dropped)}`);
+  }
+  return value;
+}
+
+// Load data files
+const playlist = loadData("playlist.json", playlistSchema);
+const allSongs = loadData("songs-10000.json", songListSchema);
+
+// Playlist songs aren't part of the generated library, so both make up the catalogue
+const songsById = new Map<string, Song>(
+  [...allSongs, ...playlist.songs].map((song) => [song.id, song]),
+);
+
+// The library never changes while the server runs, so one tag covers every
+// response from /api/songs
+const songsETag = `"${createHash("sha1").update(JSON.stringify(allSongs)).digest("base64url")}"`;
+
+const searchIndex = createSearchIndex(allSongs);
+const catalog = buildCatalog(allSongs);
+
+// The bundled playlist becomes the first stored playlist
+const seedPlaylists = (): StoredPlaylist[] => {
+  const now = new Date().toISOString();
+  return [
+    {
+      id: playlist.id,
+      name: playlist.name,
+      description: "",
+      songIds: playlist.songs.map((song) => song.id),
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    },
+  ];
+};
+
+const BANNER = `
+╔═════════════════════════════════════════════════╗
+║                                                 ║
+║        ♪ ♫  MUSIC PLAYER CHALLENGE  ♫ ♪         ║
+║                   API v1.0                      ║
+║                                                 ║
+╠═════════════════════════════════════════════════╣
+║                                                 ║
+║   ENDPOINTS                                     ║
+║   ─────────                                     ║
+║                                                 ║
+║   GET /api/playlists      List playlists        ║
+║   GET /api/playlists/:id  Playlist with songs   ║
+║   POST, PATCH, DELETE     Edit playlists        ║
+║     /api/playlists[/:id][/songs]                ║
+║   GET /api/songs          All 10,000 songs      ║
+║       ?limit=&cursor=&sort=  Paginated, sorted  ║
+║   GET /api/songs/:id      Single song by ID     ║
+║   GET /api/songs/:id/stream  Synthesized WAV    ║
+║   GET /api/search?q=      Ranked song search    ║
+║   GET /api/artists[/:id]  Artists and tracks    ║
+║   GET /api/art/:seed.svg  Generated cover art   ║
+║                  (.png?size=)                   ║
+║   GET /api/albums[/:id]   Albums and tracks     ║
+║                                                 ║
+╚═════════════════════════════════════════════════╝
+`;
+
+// Faults to inject into every request, e.g. CHAOS="latency=normal:300,100;error=0.05"
+function chaosFromEnv(): ChaosConfig {
+  const spec = process.env.CHAOS;
+  if (!spec) return DEFAULT_CHAOS;
+  const parsed = parseChaos(spec);
+  if (!parsed) {
+    throw new Error(`Invalid CHAOS spec: ${spec}`);
+  }
+  return { ...DEFAULT_CHAOS, ...parsed };
+}
+
+export interface AppOptions {
+  // Where playlists are persisted
+  playlistsFile?: string;
+  // Latency and faults to inject; read from the CHAOS env var by default
+  chaos?: ChaosConfig;
+}
+
+export function createApp({
+  playlistsFile = join(__dirname, "data", "playlists.json"),
+  chaos = chaosFromEnv(),
+}: AppOptions = {}) {
+  const app = new Hono();
+
+  // Enable CORS for development; clients need the ETag for If-Match, and
+  // Content-Range to seek in streams
+  app.use("/*", cors({ origin: "*", exposeHeaders: ["ETag", "Content-Range", "Accept-Ranges"] }));
+
+  app.use("/api/*", createChaos(chaos));
+
+  app.get("/", async (c) => {
+    return c.text(BANNER);
+  });
+
+  app.route(
+    "/api/playlists",
+    createPlaylistRoutes(createPlaylistStore(playlistsFile, seedPlaylists), songsById),
+  );
+
+  // GET /songs - Returns all 10,000 songs (for Part 2: Virtual Scrolling),
+  // or one page of them when limit, cursor or sort is given. Clients with a
+  // copy can send its ETag as If-None-Match and get a 304 if it's current.
+  app.get("/api/songs", async (c) => {
+    await simulateLatency(c, 300);
+
+    const respond = (body: unknown) => {
+      c.header("ETag", songsETag);
+      // Caches may keep the response but must check it's current before use
+      c.header("Cache-Control", "no-cache");
+      const ifNoneMatch = c.req.header("If-None-Match");
+      if (ifNoneMatch && matchesETag(ifNoneMatch, songsETag, { weak: true })) {
+        return c.body(null, 304);
+      }
+      return c.json(body);
+    };
+
+    const { limit, cursor, sort } = c.req.query();
+
+    // Older clients expect the bare array
+    if (limit === undefined && cursor === undefined && sort === undefined) {
+      return respond(allSongs);
+    }
+
+    let songSort = DEFAULT_SORT;
+    if (sort !== undefined) {
+      const parsed = parseSort(sort);
+      if (!parsed) {
+        return c.json(
+          { error: `Invalid sort. Use one of ${SORT_FIELDS.join(", ")}, optionally with :asc or :desc` },
+          400,
+        );
+      }
+      songSort = parsed;
+    } else if (cursor) {
+      // A cursor remembers the sort it was created with
+      const cursorSort = getCursorSort(cursor);
+      if (!cursorSort) {
+        return c.json({ error: "Invalid cursor" }, 400);
+      }
+      songSort = cursorSort;
+    }
+
+    let pageSize = DEFAULT_LIMIT;
+    if (limit !== undefined) {
+      const parsed = parseLimit(limit);
+      if (parsed === null) {
+        return c.json({ error: `Invalid limit. Use a whole number from 1 to ${MAX_LIMIT}` }, 400);
+      }
+      pageSize = parsed;
+    }
+
+    const page = paginateSongs(allSongs, songSort, pageSize, cursor || undefined);
+    if (!page) {
+      return c.json({ error: "Invalid cursor" }, 400);
+    }
+    return respond(page);
+  });
+
+  // GET /search?q= - Returns songs matching the query, best match first
+  app.get("/api/search", async (c) => {
+    await simulateLatency(c, 300);
+
+    const { q = "", limit, cursor } = c.req.query();
+    const query = q.trim();
+    if (!query) {
+      return c.json({ error: "Missing search query q" }, 400);
+    }
+
+    let pageSize = DEFAULT_LIMIT;
+    if (limit !== undefined) {
+      const parsed = parseLimit(limit);
+      if (parsed === null) {
+        return c.json({ error: `Invalid limit. Use a whole number from 1 to ${MAX_LIMIT}` }, 400);
+      }
+      pageSize = parsed;
+    }
+
+    const page = paginateSearch(searchIndex, query, pageSize, cursor || undefined);
+    if (!page) {
+      return c.json({ error: "Invalid cursor" }, 400);
+    }
+    return c.json(page);
+  });
+
+  // GET /songs/:id - Returns a single song
+  app.get("/api/songs/:id", async (c) => {
+    await simulateLatency(c, 100);
+
+    const id = c.req.param("id");
+    const song = songsById.get(id);
+
+    if (song) {
+      return c.json(song);
+    }
+
+    return c.json({ error: "Song not found" }, 404);
+  });
+
+  // GET /songs/:id/stream - Returns a synthesized WAV of the song, or the
+  // part of it asked for with a Range header
+  app.get("/api/songs/:id/stream", async (c) => {
+    await simulateLatency(c, 100);
+
+    const song = songsById.get(c.req.param("id"));
+    if (!song) {
+      return c.json({ error: "Song not found" }, 404);
+    }
+
+    const size = getWavSize(song);
+    c.header("Content-Type", "audio/wav");
+    c.header("Accept-Ranges", "bytes");
+    // The audio only depends on the song, so it never changes
+    c.header("Cache-Control", "public, max-age=31536000, immutable");
+
+    const range = parseRange(c.req.header("Range"), size);
+    if (range === "unsatisfiable") {
+      c.header("Content-Range", `bytes */${size}`);
+      return c.body(null, 416);
+    }
+    if (!range) {
+      c.header("Content-Length", String(size));
+      return c.body(streamWav(song, 0, size));
+    }
+
+    c.header("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    c.header("Content-Length", String(range.end - range.start + 1));
+    return c.body(streamWav(song, range.start, range.end + 1), 206);
+  });
+
+  // GET /artists - Returns every artist with counts, sorted by name
+  app.get("/api/artists", async (c) => {
+    await simulateLatency(c, 300);
+    return c.json(catalog.artists);
+  });
+
+  // GET /artists/:id - Returns an artist with their albums and songs
+  app.get("/api/artists/:id", async (c) => {
+    await simulateLatency(c, 100);
+
+    const artist = catalog.artistsById.get(c.req.param("id"));
+    if (artist) {
+      return c.json(artist);
+    }
+
+    return c.json({ error: "Artist not found" }, 404);
+  });
+
+  // GET /albums - Returns every album with counts, sorted by title
+  app.get("/api/albums", async (c) => {
+    await simulateLatency(c, 300);
+    return c.json(catalog.albums);
+  });
+
+  // GET /albums/:id - Returns an album with its track list
+  app.get("/api/albums/:id", async (c) => {
+    await simulateLatency(c, 100);
+
+    const album = catalog.albumsById.get(c.req.param("id"));
+    if (album) {
+      return c.json(album);
+    }
+
+    return c.json({ error: "Album not found" }, 404);
+  });
+
+  // GET /art/:seed.svg - Returns cover art generated from the seed, as SVG
+  // or PNG; ?size= sets the PNG's width and height
+  app.get("/api/art/:file", async (c) => {
+    const match = c.req.param("file").match(/^(.{1,200})\.(svg|png)$/);
+    if (!match) {
+      return c.json({ error: "Art must be requested as :seed.svg or :seed.png" }, 404);
+    }
+
+    const [, seed, format] = match;
+    const { size } = c.req.query();
+    const pngSize = format === "png" && size !== undefined ? parseArtSize(size) : undefined;
+    if (pngSize === null) {
+      return c.json(
+        { error: `Invalid size. Use a whole number of pixels from ${MIN_ART_SIZE} to ${MAX_ART_SIZE}` },
+        400,
+      );
+    }
+
+    const cover = createCover(seed);
+    // The art only depends on the seed, so it never changes
+    c.header("Cache-Control", "public, max-age=31536000, immutable");
+
+    if (format === "svg") {
+      c.header("Content-Type", "image/svg+xml");
+      return c.body(renderSvg(cover));
+    }
+    c.header("Content-Type", "image/png");
+    return c.body(new Uint8Array(renderPng(cover, pngSize)));
+  });
+
+  return app;
+}
+
+export const app = createApp();
@@ -0,0 +1,179 @@
+import { deflateSync } from "zlib";
+import { hashString } from "./hash";
+import { createRandom } from "./random";
+import { slugify } from "./catalog";
+
+export const ART_SIZE = 300;
+// Bounds for a PNG requested at another size
+export const MIN_ART_SIZE = 16;
+export const MAX_ART_SIZE = 1024;
+
+type Color = [number, number, number];
+
+interface Circle {
+  // Centre and radius as fractions of the cover's size
+  cx: number;
+  cy: number;
+  r: number;
+  color: Color;
+  opacity: number;
+}
+
+/**
+ * A cover design in size-independent terms, so the SVG and PNG renderers
+ * draw the same picture
+ */
+export interface Cover {
+  // Gradient from the top-left corner to the bottom-right
+  from: Color;
+  to: Color;
+  circles: Circle[];
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): Color {
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return Math.round(255 * (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+/**
+ * Designs a cover from a seed, usually an artist and album name. The same
+ * seed always gives the same cover.
+ */
+export function createCover(seed: string): Cover {
+  const random = createRandom(hashString(seed));
+  const hue = random() * 360;
+  // A neighbouring hue for the gradient, and a contrasting one for the shapes
+  const gradientHue = (hue + 30 + random() * 60) % 360;
+  const accentHue = (hue + 150 + random() * 60) % 360;
+
+  const circles = Array.from({ length: 3 + Math.floor(random() * 3) }, () => ({
+    cx: random(),
+    cy: random(),
+    r: 0.1 + random() * 0.3,
+    color: hslToRgb(random() < 0.5 ? accentHue : gradientHue, 0.7, 0.45 + random() * 0.3),
+    opacity: 0.35 + random() * 0.4,
+  }));
+
+  return {
+    from: hslToRgb(hue, 0.65, 0.35),
+    to: hslToRgb(gradientHue, 0.65, 0.2),
+    circles,
+  };
+}
+
+const toHex = ([r, g, b]: Color) =>
+  `#${[r, g, b].map((channel) => channel.toString(16).padStart(2, "0")).join("")}`;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function renderSvg(cover: Cover, size = ART_SIZE): string {
+  const circles = cover.circles.map(
+    ({ cx, cy, r, color, opacity }) =>
+      `<circle cx="${round(cx * size)}" cy="${round(cy * size)}" r="${round(r * size)}" fill="${toHex(color)}" fill-opacity="${round(opacity)}"/>`,
+  );
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">`,
+    `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">`,
+    `<stop offset="0" stop-color="${toHex(cover.from)}"/><stop offset="1" stop-color="${toHex(cover.to)}"/>`,
+    `</linearGradient></defs>`,
+    `<rect width="${size}" height="${size}" fill="url(#bg)"/>`,
+    ...circles,
+    `</svg>`,
+  ].join("");
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, "ascii");
+  chunk.set(data, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+/**
+ * Rasterizes a cover to a PNG, drawing what renderSvg describes
+ */
+export function renderPng(cover: Cover, size = ART_SIZE): Buffer {
+  // One filter byte, then RGB, per row
+  const rowLength = 1 + size * 3;
+  const pixels = Buffer.alloc(rowLength * size);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      // Sample at the pixel's centre
+      const px = x + 0.5;
+      const py = y + 0.5;
+      // The SVG gradient runs along the diagonal of the bounding box
+      const t = Math.min(1, Math.max(0, (px + py) / (2 * size)));
+      const color = cover.from.map((from, i) => from + (cover.to[i] - from) * t);
+
+      for (const circle of cover.circles) {
+        const distance = Math.hypot(px - circle.cx * size, py - circle.cy * size);
+        // Partial coverage along the edge, for antialiasing
+        const coverage = Math.min(1, Math.max(0, circle.r * size - distance + 0.5));
+        const alpha = coverage * circle.opacity;
+        for (let i = 0; i < 3; i++) {
+          color[i] += (circle.color[i] - color[i]) * alpha;
+        }
+      }
+
+      const offset = y * rowLength + 1 + x * 3;
+      for (let i = 0; i < 3; i++) {
+        pixels[offset + i] = Math.round(color[i]);
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 2; // Truecolour
+  // Compression, filter and interlace methods are all 0
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(pixels)),
+    pngChunk("IEND", new Uint8Array()),
+  ]);
+}
+
+/**
+ * Parses a size parameter for PNG art
+ * @returns A whole number of pixels between MIN_ART_SIZE and MAX_ART_SIZE, or null if invalid
+ */
+export function parseArtSize(value: string): number | null {
+  const size = Number(value);
+  if (!Number.isInteger(size) || size < MIN_ART_SIZE || size > MAX_ART_SIZE) return null;
+  return size;
+}
+
+/**
+ * Builds the art URL for an album, seeded like its id in the catalogue, so
+ * songs on the same album share a cover
+ */
+export function getArtUrl(artist: string, album: string, format: "svg" | "png" = "svg"): string {
+  return `/api/art/${slugify(artist)}--${slugify(album)}.${format}`;
+}
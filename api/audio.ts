@@ -0,0 +1,163 @@
+import type { Song } from "./types";
+import { hashString } from "./hash";
+
+// Mono 16-bit PCM; low enough to keep a four-minute song around 10 MB
+export const SAMPLE_RATE = 22050;
+const BYTES_PER_SAMPLE = 2;
+export const WAV_HEADER_SIZE = 44;
+
+// Each song is a melody over a drone, one note every NOTE_SECONDS
+const NOTE_SECONDS = 0.5;
+const NOTE_ATTACK_SECONDS = 0.02;
+// Major pentatonic, as ratios over the song's root note
+const SCALE = [1, 9 / 8, 5 / 4, 3 / 2, 5 / 3, 2];
+const ROOT_FREQUENCIES = [196, 220, 246.94, 261.63, 293.66, 329.63];
+
+export interface ByteRange {
+  // Inclusive, as in the Range header
+  start: number;
+  end: number;
+}
+
+// Scrambles two integers into one, so every note gets its own random pick
+function mix(seed: number, n: number): number {
+  let x = Math.imul(seed ^ n, 0x9e3779b1);
+  x ^= x >>> 15;
+  x = Math.imul(x, 0x85ebca6b);
+  x ^= x >>> 13;
+  return x >>> 0;
+}
+
+/**
+ * Builds the function that gives a song's audio one sample at a time.
+ * Samples depend only on the song id and their index, so any part of the
+ * file can be made without making what comes before it.
+ */
+function createVoice(songId: string): (index: number) => number {
+  const seed = hashString(songId);
+  const root = ROOT_FREQUENCIES[seed % ROOT_FREQUENCIES.length];
+  const samplesPerNote = Math.round(NOTE_SECONDS * SAMPLE_RATE);
+  const attackSamples = NOTE_ATTACK_SECONDS * SAMPLE_RATE;
+
+  return (index) => {
+    const note = Math.floor(index / samplesPerNote);
+    const frequency = root * SCALE[mix(seed, note) % SCALE.length];
+    const sinceNote = index - note * samplesPerNote;
+    // Quick attack, then decay, so notes don't click into each other
+    const envelope =
+      Math.min(1, sinceNote / attackSamples) * Math.exp((-3 * sinceNote) / samplesPerNote);
+    const t = index / SAMPLE_RATE;
+    const melody = Math.sin(2 * Math.PI * frequency * t) * envelope;
+    const drone = Math.sin(Math.PI * root * t);
+    return 0.35 * melody + 0.1 * drone;
+  };
+}
+
+/**
+ * Size of a song's WAV file in bytes
+ */
+export function getWavSize(song: Song): number {
+  return WAV_HEADER_SIZE + getSampleCount(song) * BYTES_PER_SAMPLE;
+}
+
+function getSampleCount(song: Song): number {
+  return Math.max(0, Math.round(song.duration * SAMPLE_RATE));
+}
+
+function createWavHeader(dataSize: number): Uint8Array {
+  const header = new DataView(new ArrayBuffer(WAV_HEADER_SIZE));
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeText(0, "RIFF");
+  header.setUint32(4, WAV_HEADER_SIZE - 8 + dataSize, true);
+  writeText(8, "WAVE");
+  writeText(12, "fmt ");
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, SAMPLE_RATE, true);
+  header.setUint32(28, SAMPLE_RATE * BYTES_PER_SAMPLE, true); // Byte rate
+  header.setUint16(32, BYTES_PER_SAMPLE, true); // Block align
+  header.setUint16(34, BYTES_PER_SAMPLE * 8, true); // Bits per sample
+  writeText(36, "data");
+  header.setUint32(40, dataSize, true);
+  return new Uint8Array(header.buffer);
+}
+
+/**
+ * Synthesizes bytes [start, end) of a song's WAV file
+ */
+export function readWav(song: Song, start: number, end: number): Uint8Array {
+  const bytes = new Uint8Array(end - start);
+  const dataSize = getSampleCount(song) * BYTES_PER_SAMPLE;
+
+  if (start < WAV_HEADER_SIZE) {
+    const header = createWavHeader(dataSize);
+    bytes.set(header.subarray(start, Math.min(end, WAV_HEADER_SIZE)));
+  }
+
+  if (end > WAV_HEADER_SIZE) {
+    const dataStart = Math.max(start, WAV_HEADER_SIZE) - WAV_HEADER_SIZE;
+    const dataEnd = end - WAV_HEADER_SIZE;
+    // Ranges can start or end halfway through a sample
+    const firstSample = Math.floor(dataStart / BYTES_PER_SAMPLE);
+    const lastSample = Math.ceil(dataEnd / BYTES_PER_SAMPLE);
+    const samples = new DataView(new ArrayBuffer((lastSample - firstSample) * BYTES_PER_SAMPLE));
+    const voice = createVoice(song.id);
+    for (let i = firstSample; i < lastSample; i++) {
+      samples.setInt16((i - firstSample) * BYTES_PER_SAMPLE, Math.round(voice(i) * 0x7fff), true);
+    }
+    const offset = dataStart - firstSample * BYTES_PER_SAMPLE;
+    bytes.set(
+      new Uint8Array(samples.buffer, offset, dataEnd - dataStart),
+      Math.max(start, WAV_HEADER_SIZE) - start,
+    );
+  }
+
+  return bytes;
+}
+
+/**
+ * Streams bytes [start, end) of a song's WAV file, synthesizing a chunk at
+ * a time as the client reads
+ */
+export function streamWav(song: Song, start: number, end: number, chunkSize = 64 * 1024) {
+  let position = start;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunkEnd = Math.min(end, position + chunkSize);
+      controller.enqueue(readWav(song, position, chunkEnd));
+      position = chunkEnd;
+      if (position >= end) controller.close();
+    },
+  });
+}
+
+/**
+ * Reads a Range header for a file of the given size. Only single byte
+ * ranges are supported; anything else is ignored, which per RFC 9110 means
+ * sending the whole file.
+ * @returns The range, null to send the whole file, or "unsatisfiable" when
+ *   the range lies outside the file
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange | null | "unsatisfiable" {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return null;
+  const [, first, last] = match;
+  if (first === "" && last === "") return null;
+
+  if (first === "") {
+    // bytes=-N is the last N bytes
+    const length = Number(last);
+    if (length === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(first);
+  const end = last === "" ? size - 1 : Math.min(Number(last), size - 1);
+  if (last !== "" && Number(last) < start) return null;
+  if (start >= size) return "unsatisfiable";
+  return { start, end };
+}
@@ -0,0 +1,120 @@
+import type { Album, AlbumSummary, Artist, ArtistSummary, Song } from "./types";
+
+export interface Catalog {
+  artists: ArtistSummary[];
+  albums: AlbumSummary[];
+  artistsById: Map<string, Artist>;
+  albumsById: Map<string, Album>;
+}
+
+/**
+ * Turns a name into a URL-friendly id, e.g. "The Midnight Dreamers" becomes
+ * "the-midnight-dreamers"
+ */
+export function slugify(name: string): string {
+  const slug = name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "untitled";
+}
+
+// Gives each name a slug, numbering names that would share one. Names are
+// taken in sorted order so the same catalogue always gets the same ids.
+function assignIds(names: Iterable<string>, prefix = ""): Map<string, string> {
+  const ids = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const name of [...names].sort()) {
+    const base = prefix + slugify(name);
+    let id = base;
+    for (let n = 2; taken.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    taken.add(id);
+    ids.set(name, id);
+  }
+  return ids;
+}
+
+const sumDurations = (songs: Song[]) => songs.reduce((total, song) => total + song.duration, 0);
+
+function byName<T>(key: (item: T) => string) {
+  return (a: T, b: T) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0);
+}
+
+function toAlbumSummary({ songs, ...summary }: Album): AlbumSummary {
+  return summary;
+}
+
+function toArtistSummary({ albums, songs, ...summary }: Artist): ArtistSummary {
+  return summary;
+}
+
+/**
+ * Derives artists and albums from the songs' artist and album names. Albums
+ * are per artist, since different artists can release albums with the same
+ * title; album ids are the artist id plus the album title.
+ * @param songs - The catalogue; tracks keep its order within each album
+ */
+export function buildCatalog(songs: Song[]): Catalog {
+  const songsByArtist = new Map<string, Map<string, Song[]>>();
+  for (const song of songs) {
+    let albums = songsByArtist.get(song.artist);
+    if (!albums) {
+      albums = new Map();
+      songsByArtist.set(song.artist, albums);
+    }
+    const tracks = albums.get(song.album);
+    if (tracks) {
+      tracks.push(song);
+    } else {
+      albums.set(song.album, [song]);
+    }
+  }
+
+  const artistIds = assignIds(songsByArtist.keys());
+  const artistsById = new Map<string, Artist>();
+  const albumsById = new Map<string, Album>();
+
+  for (const [name, albumTracks] of songsByArtist) {
+    const artistId = artistIds.get(name)!;
+    const albumIds = assignIds(albumTracks.keys(), `${artistId}--`);
+
+    const albums: Album[] = [...albumTracks].map(([title, tracks]) => ({
+      id: albumIds.get(title)!,
+      title,
+      artistId,
+      artist: name,
+      albumArt: tracks[0].albumArt,
+      songCount: tracks.length,
+      totalDuration: sumDurations(tracks),
+      songs: tracks,
+    }));
+    albums.sort(byName((album) => album.title));
+    for (const album of albums) {
+      albumsById.set(album.id, album);
+    }
+
+    const artistSongs = albums.flatMap((album) => album.songs);
+    artistsById.set(artistId, {
+      id: artistId,
+      name,
+      albumCount: albums.length,
+      songCount: artistSongs.length,
+      totalDuration: sumDurations(artistSongs),
+      albums: albums.map(toAlbumSummary),
+      songs: artistSongs,
+    });
+  }
+
+  return {
+    artists: [...artistsById.values()].map(toArtistSummary).sort(byName((artist) => artist.name)),
+    albums: [...albumsById.values()]
+      .map(toAlbumSummary)
+      .sort(byName((album) => `${album.title}\u0000${album.artist}`)),
+    artistsById,
+    albumsById,
+  };
+}
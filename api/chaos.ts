@@ -0,0 +1,245 @@
+import type { Context, MiddlewareHandler } from "hono";
+import { createRandom } from "./random";
+import { delay } from "./delay";
+
+export type Latency =
+  | { type: "fixed"; ms: number }
+  | { type: "uniform"; min: number; max: number }
+  | { type: "normal"; mean: number; stddev: number }
+  | { type: "exponential"; mean: number };
+
+/**
+ * Faults to inject into API responses. Rates are probabilities from 0 to 1.
+ */
+export interface ChaosConfig {
+  // Replaces each route's built-in delay when set
+  latency?: Latency;
+  // Chance of answering 500 instead of running the route
+  error: number;
+  // Chance of hanging for timeoutAfter ms, then answering 504
+  timeout: number;
+  timeoutAfter: number;
+  // Chance of cutting a JSON body off halfway
+  truncate: number;
+  // Caps response bodies to this many bytes per second; 0 for no cap
+  throttle: number;
+  // Makes the faults repeatable
+  seed?: number;
+}
+
+export const DEFAULT_CHAOS: ChaosConfig = {
+  error: 0,
+  timeout: 0,
+  timeoutAfter: 30_000,
+  truncate: 0,
+  throttle: 0,
+};
+
+interface ChaosState {
+  config: ChaosConfig;
+  random: () => number;
+}
+
+declare module "hono" {
+  interface ContextVariableMap {
+    chaos: ChaosState | undefined;
+  }
+}
+
+// Throttled bodies are released in slices this often
+const THROTTLE_INTERVAL_MS = 100;
+
+function parseNumbers(text: string, separator: string, count: number): number[] | null {
+  const parts = text.split(separator);
+  if (parts.length !== count) return null;
+  const numbers = parts.map((part) => (part.trim() === "" ? NaN : Number(part)));
+  return numbers.every((n) => Number.isFinite(n) && n >= 0) ? numbers : null;
+}
+
+/**
+ * Reads a latency distribution: "fixed:300", "uniform:100-500",
+ * "normal:300,50" (mean and standard deviation), "exponential:300" (mean)
+ * or "off"
+ */
+export function parseLatency(spec: string): Latency | null {
+  if (spec === "off") return { type: "fixed", ms: 0 };
+  const [type, args = ""] = spec.split(":", 2);
+  switch (type) {
+    case "fixed": {
+      const numbers = parseNumbers(args, ",", 1);
+      return numbers && { type, ms: numbers[0] };
+    }
+    case "uniform": {
+      const numbers = parseNumbers(args, "-", 2);
+      return numbers && numbers[0] <= numbers[1] ? { type, min: numbers[0], max: numbers[1] } : null;
+    }
+    case "normal": {
+      const numbers = parseNumbers(args, ",", 2);
+      return numbers && { type, mean: numbers[0], stddev: numbers[1] };
+    }
+    case "exponential": {
+      const numbers = parseNumbers(args, ",", 1);
+      return numbers && { type, mean: numbers[0] };
+    }
+    default:
+      return null;
+  }
+}
+
+const isRate = (n: number) => Number.isFinite(n) && n >= 0 && n <= 1;
+const isAmount = (n: number) => Number.isInteger(n) && n >= 0;
+
+/**
+ * Reads a chaos spec such as "latency=uniform:100-500;error=0.1;seed=42".
+ * Keys are latency, error, timeout, timeoutAfter, truncate, throttle and seed.
+ * @returns The settings given, or null if any is malformed
+ */
+export function parseChaos(spec: string): Partial<ChaosConfig> | null {
+  const config: Partial<ChaosConfig> = {};
+  for (const entry of spec.split(";")) {
+    if (entry.trim() === "") continue;
+    const separator = entry.indexOf("=");
+    if (separator === -1) return null;
+    const key = entry.slice(0, separator).trim();
+    const value = entry.slice(separator + 1).trim();
+    const number = value === "" ? NaN : Number(value);
+
+    switch (key) {
+      case "latency": {
+        const latency = parseLatency(value);
+        if (!latency) return null;
+        config.latency = latency;
+        break;
+      }
+      case "error":
+      case "timeout":
+      case "truncate":
+        if (!isRate(number)) return null;
+        config[key] = number;
+        break;
+      case "timeoutAfter":
+      case "throttle":
+      case "seed":
+        if (!isAmount(number)) return null;
+        config[key] = number;
+        break;
+      default:
+        return null;
+    }
+  }
+  return config;
+}
+
+/**
+ * Draws a delay in ms from a latency distribution
+ */
+export function sampleLatency(latency: Latency, random: () => number): number {
+  switch (latency.type) {
+    case "fixed":
+      return latency.ms;
+    case "uniform":
+      return latency.min + random() * (latency.max - latency.min);
+    case "normal": {
+      // Box-Muller; 1 - random() keeps the log away from 0
+      const u = 1 - random();
+      const v = random();
+      const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+      return Math.max(0, latency.mean + z * latency.stddev);
+    }
+    case "exponential":
+      return -latency.mean * Math.log(1 - random());
+  }
+}
+
+/**
+ * Waits as long as a request should take: the chaos latency if one is set,
+ * otherwise the route's usual delay
+ */
+export function simulateLatency(c: Context, defaultMs: number): Promise<unknown> {
+  const chaos = c.get("chaos");
+  if (!chaos?.config.latency) return delay(defaultMs);
+  return delay(sampleLatency(chaos.config.latency, chaos.random));
+}
+
+// Re-releases a body at a set rate, a slice every THROTTLE_INTERVAL_MS
+function throttle(body: ReadableStream<Uint8Array>, bytesPerSecond: number) {
+  const reader = body.getReader();
+  const sliceSize = Math.max(1, Math.round((bytesPerSecond * THROTTLE_INTERVAL_MS) / 1000));
+  let pending = new Uint8Array();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (pending.length === 0) {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        pending = value;
+      }
+      await delay(THROTTLE_INTERVAL_MS);
+      controller.enqueue(pending.subarray(0, sliceSize));
+      pending = pending.subarray(sliceSize);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Injects latency and faults into every request it sees. Requests can
+ * adjust the configured faults with a spec in an X-Chaos header or a chaos
+ * query parameter; one with a seed gets its own repeatable faults.
+ */
+export function createChaos(base: ChaosConfig): MiddlewareHandler {
+  const baseRandom = createRandom(base.seed ?? Date.now());
+
+  return async (c, next) => {
+    let config = base;
+    let random = baseRandom;
+
+    const override = c.req.header("X-Chaos") ?? c.req.query("chaos");
+    if (override !== undefined) {
+      const parsed = parseChaos(override);
+      if (!parsed) {
+        return c.json({ error: "Invalid chaos spec" }, 400);
+      }
+      config = { ...base, ...parsed };
+      if (parsed.seed !== undefined) random = createRandom(parsed.seed);
+    }
+
+    // Every request rolls for every fault, so the sequence is repeatable
+    const rolls = { timeout: random(), error: random(), truncate: random() };
+    c.set("chaos", { config, random });
+
+    if (rolls.timeout < config.timeout) {
+      await delay(config.timeoutAfter);
+      return c.json({ error: "Simulated timeout" }, 504);
+    }
+    if (rolls.error < config.error) {
+      await simulateLatency(c, 0);
+      return c.json({ error: "Simulated server error" }, 500);
+    }
+
+    await next();
+
+    const isJson = c.res.headers.get("Content-Type")?.startsWith("application/json");
+    if (isJson && rolls.truncate < config.truncate) {
+      const text = await c.res.text();
+      const headers = new Headers(c.res.headers);
+      headers.delete("Content-Length");
+      c.res = new Response(text.slice(0, Math.floor(text.length / 2)), {
+        status: c.res.status,
+        headers,
+      });
+    }
+
+    if (config.throttle > 0 && c.res.body) {
+      c.res = new Response(throttle(c.res.body, config.throttle), {
+        status: c.res.status,
+        headers: c.res.headers,
+      });
+    }
+  };
+}
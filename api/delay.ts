@@ -0,0 +1,2 @@
+// Simulate network latency
+export const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
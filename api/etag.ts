@@ -0,0 +1,10 @@
+/**
+ * Checks an If-Match or If-None-Match header against an entity tag. The
+ * header may list several tags, or * for any version.
+ * @param weak - Ignore W/ prefixes when comparing, as If-None-Match does
+ */
+export function matchesETag(header: string, etag: string, { weak = false } = {}): boolean {
+  const strip = (tag: string) => (weak ? tag.replace(/^W\//, "") : tag);
+  const tags = header.split(",").map((tag) => strip(tag.trim()));
+  return tags.includes("*") || tags.includes(strip(etag));
+}
@@ -4,6 +4,7 @@
 import { writeFileSync } from 'fs'
 import { join, dirname } from 'path'
 import { fileURLToPath } from 'url'
+import { getArtUrl } from './art'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 
@@ -161,7 +162,7 @@ function generateSongs(count: number): Song[] {
       title,
       artist: artists[songs.length % artists.length],
       album: albums[songs.length % albums.length],
-      albumArt: `https://picsum.photos/seed/s${songs.length}/300/300`,
+      albumArt: getArtUrl(artists[songs.length % artists.length], albums[songs.length % albums.length]),
       duration: 120 + Math.floor(Math.random() * 300), // 2-7 minutes
     }
 
@@ -0,0 +1,178 @@
+import type { Song } from "./types";
+
+export const SORT_FIELDS = ["title", "artist", "album", "duration"] as const;
+export type SortField = (typeof SORT_FIELDS)[number];
+export type SortOrder = "asc" | "desc";
+
+// The fields a song can be ordered by, plus the id tie-breaker
+type SortKeys = Pick<Song, SortField | "id">;
+
+export interface SongSort {
+  field: SortField;
+  order: SortOrder;
+}
+
+export const DEFAULT_SORT: SongSort = { field: "title", order: "asc" };
+export const DEFAULT_LIMIT = 50;
+export const MAX_LIMIT = 500;
+
+export interface SongPage {
+  songs: Song[];
+  // Pass back as `cursor` to get the next page; null on the last page
+  nextCursor: string | null;
+  total: number;
+}
+
+// What a cursor decodes to: the sort it belongs to and the last song seen
+interface CursorPosition {
+  sort: string;
+  key: string | number;
+  id: string;
+}
+
+export const formatSort = (sort: SongSort) => `${sort.field}:${sort.order}`;
+
+/**
+ * Parses a sort parameter such as "artist" or "duration:desc"
+ * @returns The sort, or null if the field or order is unknown
+ */
+export function parseSort(value: string): SongSort | null {
+  const [field, order = "asc"] = value.split(":");
+  if (!SORT_FIELDS.includes(field as SortField)) return null;
+  if (order !== "asc" && order !== "desc") return null;
+  return { field: field as SortField, order };
+}
+
+/**
+ * Parses a limit parameter
+ * @returns A whole number between 1 and MAX_LIMIT, or null if invalid
+ */
+export function parseLimit(value: string): number | null {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) return null;
+  return limit;
+}
+
+// Song id breaks ties so every song has a unique, stable position
+function compareSongs(a: SortKeys, b: SortKeys, sort: SongSort) {
+  const left = a[sort.field];
+  const right = b[sort.field];
+  let result = left < right ? -1 : left > right ? 1 : 0;
+  if (result === 0) {
+    result = a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  }
+  return sort.order === "asc" ? result : -result;
+}
+
+/**
+ * Packs a position into an opaque, URL-safe cursor
+ */
+export function encodeCursor(position: object): string {
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+/**
+ * Unpacks a cursor made by encodeCursor
+ * @returns The position object, or null if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): Record<string, unknown> | null {
+  try {
+    const position: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    return typeof position === "object" && position !== null && !Array.isArray(position)
+      ? (position as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function decodeSongCursor(cursor: string): CursorPosition | null {
+  const position = decodeCursor(cursor);
+  if (
+    !position ||
+    typeof position.sort !== "string" ||
+    typeof position.id !== "string" ||
+    (typeof position.key !== "string" && typeof position.key !== "number")
+  ) {
+    return null;
+  }
+  return { sort: position.sort, key: position.key, id: position.id };
+}
+
+/**
+ * Reads the sort a cursor was created with, so follow-up requests don't
+ * need to repeat the sort parameter
+ * @returns The sort, or null if the cursor is malformed
+ */
+export function getCursorSort(cursor: string): SongSort | null {
+  const position = decodeSongCursor(cursor);
+  return position ? parseSort(position.sort) : null;
+}
+
+// Sorting 10,000 songs on every request is wasteful, so keep each order
+const sortedCache = new WeakMap<Song[], Map<string, Song[]>>();
+
+function getSorted(songs: Song[], sort: SongSort): Song[] {
+  let bySort = sortedCache.get(songs);
+  if (!bySort) {
+    bySort = new Map();
+    sortedCache.set(songs, bySort);
+  }
+  const key = formatSort(sort);
+  let sorted = bySort.get(key);
+  if (!sorted) {
+    sorted = [...songs].sort((a, b) => compareSongs(a, b, sort));
+    bySort.set(key, sorted);
+  }
+  return sorted;
+}
+
+/**
+ * Returns one page of songs in the given order. Cursors record the last
+ * song's sort key rather than an offset, so a page picks up after that
+ * song even if the list changed in between.
+ * @param songs - Every song, in any order
+ * @param sort - The order to page through
+ * @param limit - Maximum songs per page
+ * @param cursor - A nextCursor from a previous page, if any
+ * @returns The page, or null if the cursor is malformed or from another sort
+ */
+export function paginateSongs(
+  songs: Song[],
+  sort: SongSort,
+  limit: number,
+  cursor?: string,
+): SongPage | null {
+  const sorted = getSorted(songs, sort);
+
+  let start = 0;
+  if (cursor) {
+    const position = decodeSongCursor(cursor);
+    if (!position || position.sort !== formatSort(sort)) return null;
+
+    const last = { id: position.id, [sort.field]: position.key } as SortKeys;
+    // Binary search for the first song ordered after the cursor
+    let high = sorted.length;
+    while (start < high) {
+      const middle = (start + high) >>> 1;
+      if (compareSongs(sorted[middle], last, sort) <= 0) {
+        start = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+  }
+
+  const page = sorted.slice(start, start + limit);
+  const lastSong = page[page.length - 1];
+  const hasMore = start + limit < sorted.length;
+
+  return {
+    songs: page,
+    nextCursor:
+      hasMore && lastSong
+        ? encodeCursor({ sort: formatSort(sort), key: lastSong[sort.field], id: lastSong.id })
+        : null,
+    total: sorted.length,
+  };
+}
@@ -0,0 +1,78 @@
+import { existsSync, readFileSync } from "fs";
+import { mkdir, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+
+/**
+ * A playlist as stored on disk. Songs are referenced by id and resolved
+ * against the catalogue when served.
+ */
+export interface StoredPlaylist {
+  id: string;
+  name: string;
+  description: string;
+  songIds: string[];
+  // Bumped on every change, for optimistic concurrency
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface PlaylistFile {
+  playlists: StoredPlaylist[];
+}
+
+export interface PlaylistStore {
+  // Live list of playlists; change it in place, then call save()
+  all(): StoredPlaylist[];
+  find(id: string): StoredPlaylist | undefined;
+  save(): Promise<void>;
+}
+
+/**
+ * Writes to a temporary file and renames it over the target, so readers
+ * (and crashes) never see a half-written file
+ */
+async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await writeFile(tempPath, contents, "utf-8");
+  await rename(tempPath, filePath);
+}
+
+/**
+ * Keeps playlists in memory and persists them to a JSON file
+ * @param filePath - Where playlists are stored; created on first save
+ * @param seed - Playlists to start with when the file doesn't exist yet
+ */
+export function createPlaylistStore(
+  filePath: string,
+  seed: () => StoredPlaylist[],
+): PlaylistStore {
+  let playlists: StoredPlaylist[] | null = null;
+  // Saves run one after another so an older snapshot never lands last
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const all = () => {
+    if (!playlists) {
+      playlists = existsSync(filePath)
+        ? (JSON.parse(readFileSync(filePath, "utf-8")) as PlaylistFile).playlists.map(
+            // Files saved before versioning start at version 1
+            (playlist) => ({ ...playlist, version: playlist.version ?? 1 }),
+          )
+        : seed();
+    }
+    return playlists;
+  };
+
+  return {
+    all,
+    find: (id) => all().find((playlist) => playlist.id === id),
+    save() {
+      const contents = JSON.stringify({ playlists: all() } satisfies PlaylistFile, null, 2);
+      const write = pendingWrite.then(() => writeFileAtomic(filePath, contents));
+      // Keep the chain going even if this write fails
+      pendingWrite = write.catch(() => {});
+      return write;
+    },
+  };
+}
@@ -0,0 +1,300 @@
+import { Hono, type Context } from "hono";
+import { randomUUID } from "crypto";
+import type { Song } from "./types";
+import type { PlaylistStore, StoredPlaylist } from "./playlistStore";
+import { simulateLatency } from "./chaos";
+import { matchesETag } from "./etag";
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+/**
+ * A playlist with its songs resolved, as sent to clients
+ */
+export interface PlaylistResponse {
+  id: string;
+  name: string;
+  description: string;
+  songs: Song[];
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PlaylistSummary {
+  id: string;
+  name: string;
+  description: string;
+  songCount: number;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type Body = Record<string, unknown>;
+
+/**
+ * The playlist's entity tag. It only has to be unique per playlist, so the
+ * version is enough.
+ */
+export const toETag = (playlist: StoredPlaylist) => `"${playlist.version}"`;
+
+// Resolves song ids, skipping any that have left the catalogue
+function toResponse(playlist: StoredPlaylist, songsById: Map<string, Song>): PlaylistResponse {
+  const { songIds, ...rest } = playlist;
+  return {
+    ...rest,
+    songs: songIds.flatMap((id) => {
+      const song = songsById.get(id);
+      return song ? [song] : [];
+    }),
+  };
+}
+
+function toSummary({ songIds, ...rest }: StoredPlaylist): PlaylistSummary {
+  return { ...rest, songCount: songIds.length };
+}
+
+async function readBody(c: Context): Promise<Body | null> {
+  const body: unknown = await c.req.json().catch(() => null);
+  return typeof body === "object" && body !== null && !Array.isArray(body) ? (body as Body) : null;
+}
+
+function validateName(value: unknown): string | null {
+  if (typeof value !== "string" || !value.trim()) return "name must be a non-empty string";
+  if (value.trim().length > MAX_NAME_LENGTH) {
+    return `name must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+  return null;
+}
+
+function validateDescription(value: unknown): string | null {
+  if (typeof value !== "string") return "description must be a string";
+  if (value.length > MAX_DESCRIPTION_LENGTH) {
+    return `description must be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+  return null;
+}
+
+function validateSongIds(value: unknown, songsById: Map<string, Song>): string | null {
+  if (!Array.isArray(value) || !value.every((id) => typeof id === "string")) {
+    return "songIds must be an array of song ids";
+  }
+  const unknownIds = value.filter((id) => !songsById.has(id));
+  if (unknownIds.length > 0) return `Unknown song ids: ${unknownIds.join(", ")}`;
+  if (new Set(value).size !== value.length) return "songIds must not contain duplicates";
+  return null;
+}
+
+/**
+ * Routes for creating, editing and deleting playlists, mounted at
+ * /api/playlists. Edits need an If-Match header with the playlist's ETag;
+ * stale edits get 412 and edits that no longer fit the songs get 409, both
+ * with the current playlist so the client can reload or re-apply.
+ * @param store - Where playlists are kept
+ * @param songsById - The catalogue playlist songs are resolved against
+ */
+export function createPlaylistRoutes(store: PlaylistStore, songsById: Map<string, Song>) {
+  const routes = new Hono();
+
+  const notFound = (c: Context) => c.json({ error: "Playlist not found" }, 404);
+
+  const respond = (c: Context, playlist: StoredPlaylist, status: 200 | 201 = 200) => {
+    c.header("ETag", toETag(playlist));
+    return c.json(toResponse(playlist, songsById), status);
+  };
+
+  // Rejects an edit that can't apply to the playlist as it is now, sending
+  // back the current state so the client can rebase
+  const conflict = (
+    c: Context,
+    playlist: StoredPlaylist,
+    error: string,
+    status: 409 | 412 | 428 = 409,
+  ) => {
+    c.header("ETag", toETag(playlist));
+    return c.json({ error, playlist: toResponse(playlist, songsById) }, status);
+  };
+
+  // Edits must say which version they were made against. Handlers read the
+  // body first, then check and apply the edit with no await in between, so
+  // two edits made against the same version can't both get through.
+  const checkVersion = (c: Context, playlist: StoredPlaylist) => {
+    const ifMatch = c.req.header("If-Match");
+    if (!ifMatch) {
+      return conflict(c, playlist, "If-Match header required", 428);
+    }
+    if (!matchesETag(ifMatch, toETag(playlist))) {
+      return conflict(c, playlist, "Playlist has changed since it was loaded", 412);
+    }
+    return null;
+  };
+
+  // Stamps the edit and persists it, then responds with the playlist
+  const saveAndRespond = async (c: Context, playlist: StoredPlaylist, status: 200 | 201 = 200) => {
+    playlist.version += 1;
+    playlist.updatedAt = new Date().toISOString();
+    await store.save();
+    return respond(c, playlist, status);
+  };
+
+  // GET /playlists - Lists every playlist without its songs
+  routes.get("/", async (c) => {
+    await simulateLatency(c, 300);
+    return c.json(store.all().map(toSummary));
+  });
+
+  // GET /playlists/:id - Returns a playlist with its songs
+  routes.get("/:id", async (c) => {
+    await simulateLatency(c, 300);
+
+    const playlist = store.find(c.req.param("id"));
+    if (!playlist) return notFound(c);
+    return respond(c, playlist);
+  });
+
+  // POST /playlists - Creates a playlist, optionally with songs
+  routes.post("/", async (c) => {
+    await simulateLatency(c, 300);
+
+    const body = await readBody(c);
+    if (!body) return c.json({ error: "Expected a JSON object" }, 400);
+    const { name, description = "", songIds = [] } = body;
+    const error =
+      validateName(name) ?? validateDescription(description) ?? validateSongIds(songIds, songsById);
+    if (error) return c.json({ error }, 400);
+
+    const now = new Date().toISOString();
+    const playlist: StoredPlaylist = {
+      id: randomUUID(),
+      name: (name as string).trim(),
+      description: description as string,
+      songIds: songIds as string[],
+      // saveAndRespond bumps this to 1
+      version: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    store.all().push(playlist);
+    return saveAndRespond(c, playlist, 201);
+  });
+
+  // PATCH /playlists/:id - Renames a playlist or changes its description
+  routes.patch("/:id", async (c) => {
+    await simulateLatency(c, 300);
+
+    const body = await readBody(c);
+    if (!body) return c.json({ error: "Expected a JSON object" }, 400);
+    const { name, description } = body;
+    if (name === undefined && description === undefined) {
+      return c.json({ error: "Nothing to update; send name and/or description" }, 400);
+    }
+    const error =
+      (name !== undefined ? validateName(name) : null) ??
+      (description !== undefined ? validateDescription(description) : null);
+    if (error) return c.json({ error }, 400);
+
+    const playlist = store.find(c.req.param("id"));
+    if (!playlist) return notFound(c);
+    const stale = checkVersion(c, playlist);
+    if (stale) return stale;
+
+    if (name !== undefined) playlist.name = (name as string).trim();
+    if (description !== undefined) playlist.description = description as string;
+    return saveAndRespond(c, playlist);
+  });
+
+  // DELETE /playlists/:id - Deletes a playlist
+  routes.delete("/:id", async (c) => {
+    await simulateLatency(c, 300);
+
+    const playlists = store.all();
+    const index = playlists.findIndex((playlist) => playlist.id === c.req.param("id"));
+    if (index === -1) return notFound(c);
+    const stale = checkVersion(c, playlists[index]);
+    if (stale) return stale;
+
+    playlists.splice(index, 1);
+    await store.save();
+    return c.body(null, 204);
+  });
+
+  // POST /playlists/:id/songs - Adds songs, at the end or at `position`
+  routes.post("/:id/songs", async (c) => {
+    await simulateLatency(c, 300);
+
+    const body = await readBody(c);
+    if (!body) return c.json({ error: "Expected a JSON object" }, 400);
+    const error = validateSongIds(body.songIds, songsById);
+    if (error) return c.json({ error }, 400);
+
+    const playlist = store.find(c.req.param("id"));
+    if (!playlist) return notFound(c);
+    const stale = checkVersion(c, playlist);
+    if (stale) return stale;
+
+    const { songIds, position = playlist.songIds.length } = body;
+    if (
+      typeof position !== "number" ||
+      !Number.isInteger(position) ||
+      position < 0 ||
+      position > playlist.songIds.length
+    ) {
+      return c.json({ error: `position must be a whole number from 0 to ${playlist.songIds.length}` }, 400);
+    }
+    const ids = songIds as string[];
+    const existing = ids.filter((id) => playlist.songIds.includes(id));
+    if (existing.length > 0) {
+      return conflict(c, playlist, `Already in playlist: ${existing.join(", ")}`);
+    }
+
+    playlist.songIds.splice(position, 0, ...ids);
+    return saveAndRespond(c, playlist);
+  });
+
+  // PUT /playlists/:id/songs - Reorders songs; songIds must list every song once
+  routes.put("/:id/songs", async (c) => {
+    await simulateLatency(c, 300);
+
+    const body = await readBody(c);
+    if (!body) return c.json({ error: "Expected a JSON object" }, 400);
+    const { songIds } = body;
+    if (!Array.isArray(songIds) || !songIds.every((id) => typeof id === "string")) {
+      return c.json({ error: "songIds must be an array of song ids" }, 400);
+    }
+
+    const playlist = store.find(c.req.param("id"));
+    if (!playlist) return notFound(c);
+    const stale = checkVersion(c, playlist);
+    if (stale) return stale;
+    const current = new Set(playlist.songIds);
+    if (
+      songIds.length !== current.size ||
+      new Set(songIds).size !== songIds.length ||
+      !songIds.every((id) => current.has(id))
+    ) {
+      return conflict(c, playlist, "songIds must contain each of the playlist's songs exactly once");
+    }
+
+    playlist.songIds = songIds as string[];
+    return saveAndRespond(c, playlist);
+  });
+
+  // DELETE /playlists/:id/songs/:songId - Removes a song
+  routes.delete("/:id/songs/:songId", async (c) => {
+    await simulateLatency(c, 300);
+
+    const playlist = store.find(c.req.param("id"));
+    if (!playlist) return notFound(c);
+    const stale = checkVersion(c, playlist);
+    if (stale) return stale;
+
+    const index = playlist.songIds.indexOf(c.req.param("songId"));
+    if (index === -1) return conflict(c, playlist, "Song not in playlist");
+
+    playlist.songIds.splice(index, 1);
+    return saveAndRespond(c, playlist);
+  });
+
+  return routes;
+}
@@ -0,0 +1,14 @@
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32), for
+ * generated content and faults that come out the same every run
+ * @returns A function giving numbers in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Runtime checks for the shapes the API sends. Shared with the frontend
+ * (see solution/src/types/schemas.ts), so both sides agree on what a valid
+ * song or playlist is. No dependencies, so it runs in the browser too.
+ */
+import type { Playlist, Song } from "./types";
+
+export interface Issue {
+  // Where the problem is, e.g. "songs[3].duration"
+  path: string;
+  message: string;
+}
+
+export type Result<T> =
+  // issues lists records that were dropped from lists on the way
+  | { ok: true; value: T; issues: Issue[] }
+  | { ok: false; issues: Issue[] };
+
+export interface Schema<T> {
+  check(value: unknown, path: string): Result<T>;
+}
+
+export class SchemaError extends Error {
+  readonly issues: Issue[];
+
+  constructor(what: string, issues: Issue[]) {
+    super(`${what}: ${formatIssues(issues)}`);
+    this.name = "SchemaError";
+    this.issues = issues;
+  }
+}
+
+const MAX_REPORTED_ISSUES = 3;
+
+/**
+ * Summarizes issues in one line, e.g. "songs[3].duration: expected a
+ * number, got a string (and 2 more)"
+ */
+export function formatIssues(issues: Issue[]): string {
+  const shown = issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map(({ path, message }) => (path ? `${path}: ${message}` : message));
+  const more = issues.length - shown.length;
+  return shown.join("; ") + (more > 0 ? ` (and ${more} more)` : "");
+}
+
+function describe(value: unknown): string {
+  if (value === null || value === undefined) return String(value);
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "object") return "an object";
+  if (typeof value === "number" && Number.isNaN(value)) return "NaN";
+  return `a ${typeof value}`;
+}
+
+const fail = (path: string, message: string): Result<never> => ({
+  ok: false,
+  issues: [{ path, message }],
+});
+
+const pass = <T>(value: T, issues: Issue[] = []): Result<T> => ({ ok: true, value, issues });
+
+export function string(): Schema<string> {
+  return {
+    check: (value, path) =>
+      typeof value === "string" ? pass(value) : fail(path, `expected a string, got ${describe(value)}`),
+  };
+}
+
+export function number({ min, integer = false }: { min?: number; integer?: boolean } = {}): Schema<number> {
+  return {
+    check(value, path) {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return fail(path, `expected a number, got ${describe(value)}`);
+      }
+      if (integer && !Number.isInteger(value)) return fail(path, `expected a whole number, got ${value}`);
+      if (min !== undefined && value < min) return fail(path, `expected at least ${min}, got ${value}`);
+      return pass(value);
+    },
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    check: (value, path) => (value === undefined ? pass(undefined) : schema.check(value, path)),
+  };
+}
+
+/**
+ * @param dropInvalid - Leave out items that fail, reporting them as issues,
+ *   instead of failing the whole array
+ */
+export function array<T>(item: Schema<T>, { dropInvalid = false } = {}): Schema<T[]> {
+  return {
+    check(value, path) {
+      if (!Array.isArray(value)) return fail(path, `expected an array, got ${describe(value)}`);
+      const items: T[] = [];
+      const issues: Issue[] = [];
+      let failed = false;
+      value.forEach((element, index) => {
+        const result = item.check(element, `${path}[${index}]`);
+        issues.push(...result.issues);
+        if (result.ok) {
+          items.push(result.value);
+        } else if (!dropInvalid) {
+          failed = true;
+        }
+      });
+      return failed ? { ok: false, issues } : pass(items, issues);
+    },
+  };
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+/**
+ * Checks each listed property. The result only has the listed properties,
+ * so extra fields from newer servers don't leak through.
+ */
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return {
+    check(value, path) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return fail(path, `expected an object, got ${describe(value)}`);
+      }
+      const result: Record<string, unknown> = {};
+      const issues: Issue[] = [];
+      let failed = false;
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        const field = shape[key].check((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+        issues.push(...field.issues);
+        if (!field.ok) {
+          failed = true;
+        } else if (field.value !== undefined) {
+          result[key] = field.value;
+        }
+      }
+      return failed ? { ok: false, issues } : pass(result as T, issues);
+    },
+  };
+}
+
+/**
+ * Checks a value against a schema
+ * @param what - Names the value in the error message, e.g. "songs-10000.json"
+ * @returns The checked value and any records dropped along the way
+ * @throws SchemaError if the value doesn't fit
+ */
+export function parse<T>(schema: Schema<T>, value: unknown, what: string): { value: T; dropped: Issue[] } {
+  const result = schema.check(value, "");
+  if (!result.ok) throw new SchemaError(`Invalid ${what}`, result.issues);
+  return { value: result.value, dropped: result.issues };
+}
+
+export const songSchema: Schema<Song> = object<Song>({
+  id: string(),
+  title: string(),
+  artist: string(),
+  album: string(),
+  albumArt: string(),
+  duration: number({ min: 0 }),
+});
+
+// A bad song is dropped rather than losing the whole list
+export const songListSchema = array(songSchema, { dropInvalid: true });
+
+export const playlistSchema: Schema<Playlist> = object<Playlist>({
+  id: string(),
+  name: string(),
+  description: optional(string()),
+  songs: songListSchema,
+  version: optional(number({ min: 0, integer: true })),
+});
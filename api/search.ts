@@ -0,0 +1,185 @@
+import type { Song } from "./types";
+import { decodeCursor, encodeCursor } from "./pagination";
+
+export const SEARCH_FIELDS = ["title", "artist", "album"] as const;
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+// A match in the title counts for more than one in the artist or album
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  artist: 2,
+  album: 1,
+};
+
+// How well a query token matched a word: exact > prefix > substring
+const MATCH_SCORES = {
+  exact: 3,
+  prefix: 2,
+  substring: 1,
+};
+
+// [start, end) character offsets into the field, for highlighting
+export type MatchRange = [number, number];
+
+export type SearchMatches = Partial<Record<SearchField, MatchRange[]>>;
+
+export interface SearchResult {
+  song: Song;
+  score: number;
+  matches: SearchMatches;
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  // Pass back as `cursor` to get the next page; null on the last page
+  nextCursor: string | null;
+  total: number;
+}
+
+interface Token {
+  text: string;
+  start: number;
+}
+
+interface IndexedSong {
+  song: Song;
+  tokens: Record<SearchField, Token[]>;
+}
+
+export type SearchIndex = IndexedSong[];
+
+/**
+ * Splits text into lowercase words, keeping where each word starts
+ */
+export function tokenize(text: string): Token[] {
+  return [...text.matchAll(/[\p{L}\p{N}]+/gu)].map((match) => ({
+    text: match[0].toLowerCase(),
+    start: match.index,
+  }));
+}
+
+/**
+ * Tokenizes every song up front so searches only compare words
+ */
+export function createSearchIndex(songs: Song[]): SearchIndex {
+  return songs.map((song) => ({
+    song,
+    tokens: {
+      title: tokenize(song.title),
+      artist: tokenize(song.artist),
+      album: tokenize(song.album),
+    },
+  }));
+}
+
+function scoreToken(word: string, query: string): number {
+  if (word === query) return MATCH_SCORES.exact;
+  if (word.startsWith(query)) return MATCH_SCORES.prefix;
+  if (word.includes(query)) return MATCH_SCORES.substring;
+  return 0;
+}
+
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+  return merged;
+}
+
+// Scores one song; every query token has to match somewhere or it is left out
+function scoreSong(entry: IndexedSong, queryTokens: string[]): SearchResult | null {
+  let score = 0;
+  const ranges: Record<SearchField, MatchRange[]> = { title: [], artist: [], album: [] };
+
+  for (const query of queryTokens) {
+    let best = 0;
+    for (const field of SEARCH_FIELDS) {
+      for (const word of entry.tokens[field]) {
+        const tokenScore = scoreToken(word.text, query);
+        if (tokenScore === 0) continue;
+        best = Math.max(best, tokenScore * FIELD_WEIGHTS[field]);
+        const start = word.start + word.text.indexOf(query);
+        ranges[field].push([start, start + query.length]);
+      }
+    }
+    if (best === 0) return null;
+    score += best;
+  }
+
+  const matches: SearchMatches = {};
+  for (const field of SEARCH_FIELDS) {
+    if (ranges[field].length > 0) {
+      matches[field] = mergeRanges(ranges[field]);
+    }
+  }
+  return { song: entry.song, score, matches };
+}
+
+/**
+ * Ranks songs against a free-text query. Each query word adds the score of
+ * its best match across title, artist and album, so songs matching more
+ * words, more exactly, in more important fields rank higher.
+ * @param index - Songs prepared by createSearchIndex
+ * @param query - The raw query text
+ * @returns Matching songs, best first, ties broken by title
+ */
+export function searchSongs(index: SearchIndex, query: string): SearchResult[] {
+  const queryTokens = [...new Set(tokenize(query).map((token) => token.text))];
+  if (queryTokens.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  for (const entry of index) {
+    const result = scoreSong(entry, queryTokens);
+    if (result) results.push(result);
+  }
+
+  return results.sort(
+    (a, b) =>
+      b.score - a.score ||
+      (a.song.title < b.song.title ? -1 : a.song.title > b.song.title ? 1 : 0) ||
+      (a.song.id < b.song.id ? -1 : 1),
+  );
+}
+
+/**
+ * Returns one page of ranked results. Rankings depend on the query, so
+ * cursors record the query and an offset into its results.
+ * @returns The page, or null if the cursor is malformed or from another query
+ */
+export function paginateSearch(
+  index: SearchIndex,
+  query: string,
+  limit: number,
+  cursor?: string,
+): SearchPage | null {
+  let offset = 0;
+  if (cursor) {
+    const position = decodeCursor(cursor);
+    if (
+      !position ||
+      position.q !== query ||
+      typeof position.offset !== "number" ||
+      !Number.isInteger(position.offset) ||
+      position.offset < 0
+    ) {
+      return null;
+    }
+    offset = position.offset;
+  }
+
+  const results = searchSongs(index, query);
+  const next = offset + limit;
+
+  return {
+    results: results.slice(offset, next),
+    nextCursor: next < results.length ? encodeCursor({ q: query, offset: next }) : null,
+    total: results.length,
+  };
+}
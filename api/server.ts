@@ -1,87 +1,21 @@
 import { serve } from "@hono/node-server";
-import { Hono } from "hono";
-import { cors } from "hono/cors";
-import { readFileSync } from "fs";
-import { fileURLToPath } from "url";
-import { dirname, join } from "path";
-
-const __dirname = dirname(fileURLToPath(import.meta.url));
-
-// Load data files
-const playlist = JSON.parse(
-  readFileSync(join(__dirname, "data", "playlist.json"), "utf-8"),
-);
-const allSongs = JSON.parse(
-  readFileSync(join(__dirname, "data", "songs-10000.json"), "utf-8"),
-);
-
-const app = new Hono();
-
-// Enable CORS for development
-app.use("/*", cors());
-
-// Simulate network latency (300ms)
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-app.get("/", async (c) => {
-  return c.text(`
-╔═════════════════════════════════════════════════╗
-║                                                 ║
-║        ♪ ♫  MUSIC PLAYER CHALLENGE  ♫ ♪         ║
-║                   API v1.0                      ║
-║                                                 ║
-╠═════════════════════════════════════════════════╣
-║                                                 ║
-║   ENDPOINTS                                     ║
-║   ─────────                                     ║
-║                                                 ║
-║   GET /api/playlists/1    Fetch playlist #1     ║
-║   GET /api/songs          All 10,000 songs      ║
-║   GET /api/songs/:id      Single song by ID     ║
-║                                                 ║
-╚═════════════════════════════════════════════════╝
-`);
-});
-
-// GET /playlists/:id - Returns a playlist with its songs
-app.get("/api/playlists/:id", async (c) => {
-  await delay(300);
-
-  const id = c.req.param("id");
-
-  if (id === "1") {
-    return c.json(playlist);
-  }
-
-  return c.json({ error: "Playlist not found" }, 404);
-});
-
-// GET /songs - Returns all 10,000 songs (for Part 2: Virtual Scrolling)
-app.get("/api/songs", async (c) => {
-  await delay(300);
-  return c.json(allSongs);
-});
-
-// GET /songs/:id - Returns a single song
-app.get("/api/songs/:id", async (c) => {
-  await delay(100);
-
-  const id = c.req.param("id");
-  const song = allSongs.find((s: { id: string }) => s.id === id);
-
-  if (song) {
-    return c.json(song);
-  }
-
-  return c.json({ error: "Song not found" }, 404);
-});
+import { app } from "./app";
 
 const port = 3001;
 console.log(`🎵 Music Player API running at http://localhost:${port}`);
 console.log(`\nEndpoints:`);
-console.log(`  GET /api/playlists/1  - Playlist with 20 songs`);
+console.log(`  GET /api/playlists    - All playlists`);
+console.log(`  GET /api/playlists/:id - Playlist with its songs`);
+console.log(`  POST /api/playlists, PATCH|DELETE /api/playlists/:id - Edit playlists`);
+console.log(`  POST|PUT /api/playlists/:id/songs, DELETE /api/playlists/:id/songs/:songId - Edit songs`);
 console.log(`  GET /api/songs        - All 10,000 songs (sorted A-Z)`);
+console.log(`      ?limit=&cursor=&sort=title|artist|album|duration[:asc|:desc] - Paginated`);
 console.log(`  GET /api/songs/:id    - Single song by ID`);
+console.log(`  GET /api/songs/:id/stream - Synthesized WAV audio, with Range support`);
+console.log(`  GET /api/search?q=    - Ranked search over title, artist and album`);
+console.log(`  GET /api/artists[/:id] - Artists with their albums and songs`);
+console.log(`  GET /api/albums[/:id]  - Albums with their track lists`);
+console.log(`  GET /api/art/:seed.svg|png[?size=] - Cover art generated from the seed`);
 
 serve({
   fetch: app.fetch,
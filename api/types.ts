@@ -0,0 +1,47 @@
+export interface Song {
+  id: string;
+  title: string;
+  artist: string;
+  album: string;
+  albumArt: string;
+  duration: number;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  description?: string;
+  songs: Song[];
+  // Set on playlists served from the playlist store
+  version?: number;
+}
+
+export interface AlbumSummary {
+  id: string;
+  title: string;
+  artistId: string;
+  artist: string;
+  // Artwork of the first track
+  albumArt: string;
+  songCount: number;
+  // Seconds
+  totalDuration: number;
+}
+
+export interface Album extends AlbumSummary {
+  songs: Song[];
+}
+
+export interface ArtistSummary {
+  id: string;
+  name: string;
+  albumCount: number;
+  songCount: number;
+  // Seconds
+  totalDuration: number;
+}
+
+export interface Artist extends ArtistSummary {
+  albums: AlbumSummary[];
+  songs: Song[];
+}
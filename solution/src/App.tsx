@@ -1,16 +1,61 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { PlayerProvider, usePlayer } from './context/PlayerContext'
 import { Playlist } from './components/Playlist'
 import { SongLibrary } from './components/SongLibrary'
 import { NowPlaying } from './components/NowPlaying'
 import { Queue } from './components/Queue'
 import { PlayerControls } from './components/PlayerControls'
+import { UndoToast } from './components/UndoToast'
+import { useUndoShortcuts } from './hooks/useUndoShortcuts'
 import type { Song } from './types'
 
 type Tab = 'playlist' | 'library'
 
+// How long the "Queue replaced" toast stays up
+const UNDO_TOAST_DURATION_MS = 5000
+
 function PlayerPanel() {
-  const { currentSong, queue, isShuffled, playSong, toggleShuffle } = usePlayer()
+  const {
+    currentSong,
+    queue,
+    isShuffled,
+    shuffleStrategy,
+    shuffleSeed,
+    repeatMode,
+    playSong,
+    removeFromQueue,
+    moveInQueue,
+    clearQueue,
+    next,
+    previous,
+    toggleShuffle,
+    shuffleWithSeed,
+    setShuffleStrategy,
+    cycleRepeatMode,
+    isPlaying,
+    togglePlay,
+    seek,
+    crossfadeDuration,
+    setCrossfadeDuration,
+    canUndo,
+    undo,
+    redo,
+    queueReplacements,
+  } = usePlayer()
+  // Replacement count the toast was last dismissed at
+  const [dismissedReplacements, setDismissedReplacements] = useState(0)
+  const showUndoToast = canUndo && queueReplacements > dismissedReplacements
+
+  useUndoShortcuts({ onUndo: undo, onRedo: redo })
+
+  useEffect(() => {
+    if (queueReplacements === 0) return
+    const timer = setTimeout(
+      () => setDismissedReplacements(queueReplacements),
+      UNDO_TOAST_DURATION_MS
+    )
+    return () => clearTimeout(timer)
+  }, [queueReplacements])
 
   const handlePlayFromQueue = (song: Song) => {
     playSong(song, queue)
@@ -22,13 +67,41 @@ function PlayerPanel() {
       <PlayerControls
         isShuffled={isShuffled}
         onToggleShuffle={toggleShuffle}
+        shuffleStrategy={shuffleStrategy}
+        shuffleSeed={shuffleSeed}
+        onShuffleWithSeed={shuffleWithSeed}
+        onShuffleStrategyChange={setShuffleStrategy}
+        repeatMode={repeatMode}
+        onCycleRepeatMode={cycleRepeatMode}
         hasCurrentSong={!!currentSong}
+        canGoPrevious={!!currentSong}
+        canGoNext={queue.length > 0 || repeatMode === 'all'}
+        onPrevious={previous}
+        onNext={next}
+        isPlaying={isPlaying}
+        onTogglePlay={togglePlay}
+        onSeek={seek}
+        crossfadeDuration={crossfadeDuration}
+        onCrossfadeDurationChange={setCrossfadeDuration}
       />
+      {showUndoToast && (
+        <UndoToast
+          message="Queue replaced"
+          onUndo={() => {
+            undo()
+            setDismissedReplacements(queueReplacements)
+          }}
+          onDismiss={() => setDismissedReplacements(queueReplacements)}
+        />
+      )}
       <div className="flex-1 overflow-hidden mt-4">
         <Queue
           queue={queue}
           currentSong={currentSong}
           onPlaySong={handlePlayFromQueue}
+          onRemove={removeFromQueue}
+          onMove={moveInQueue}
+          onClear={clearQueue}
         />
       </div>
     </div>
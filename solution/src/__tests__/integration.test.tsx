@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import App from '../App'
+import { songLibrary } from '../api/endpoints'
 import type { Playlist, Song } from '../types'
 
 // Mock fetch
@@ -72,8 +73,9 @@ describe('Integration Tests', () => {
     duration: 180 + i * 5,
   }))
 
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.clearAllMocks()
+    await songLibrary.clear()
     // Setup default mocks for both endpoints
     ;(global.fetch as any).mockImplementation((url: string) => {
       if (url.includes('/api/playlists/1')) {
@@ -85,6 +87,7 @@ describe('Integration Tests', () => {
       if (url.includes('/api/songs')) {
         return Promise.resolve({
           ok: true,
+          headers: new Headers(),
           json: async () => mockAllSongs,
         })
       }
@@ -241,6 +244,7 @@ describe('Integration Tests', () => {
         if (url.includes('/api/songs')) {
           return Promise.resolve({
             ok: true,
+            headers: new Headers(),
             json: async () => largeSongList,
           })
         }
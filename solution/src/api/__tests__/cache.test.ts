@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { IDBFactory } from 'fake-indexeddb'
+import { createCachedResource, createIndexedDbStore, type CacheStore } from '../cache'
+import type { Revalidation } from '../client'
+import { isAbortError } from '../errors'
+import type { Issue } from '../../types/schemas'
+
+type Request = (etag: string | null, signal: AbortSignal) => Promise<Revalidation<string[]>>
+
+const modified = (data: string[], etag: string, dropped: Issue[] = []): Revalidation<string[]> => ({
+  notModified: false,
+  data,
+  etag,
+  dropped,
+})
+
+// A request that waits for the test to answer it
+function deferredRequest() {
+  let answer: (result: Revalidation<string[]>) => void = () => {}
+  const request = vi.fn<Request>(
+    (_etag, signal) =>
+      new Promise((resolve, reject) => {
+        answer = resolve
+        signal.addEventListener('abort', () => reject(signal.reason))
+      })
+  )
+  return { request, answer: (result: Revalidation<string[]>) => answer(result) }
+}
+
+describe('createIndexedDbStore', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps entries between store instances', async () => {
+    await createIndexedDbStore('test').set('songs', { data: ['a'], etag: '"v1"' })
+
+    await expect(createIndexedDbStore('test').get('songs')).resolves.toEqual({
+      data: ['a'],
+      etag: '"v1"',
+    })
+  })
+
+  it('deletes entries', async () => {
+    const store = createIndexedDbStore('test')
+    await store.set('songs', { data: ['a'], etag: null })
+    await store.delete('songs')
+
+    await expect(store.get('songs')).resolves.toBeUndefined()
+  })
+})
+
+describe('createCachedResource', () => {
+  let store: CacheStore
+
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory())
+    store = createIndexedDbStore()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('fetches and persists the resource when nothing is cached', async () => {
+    const request = vi.fn<Request>().mockResolvedValue(modified(['a', 'b'], '"v1"'))
+    const resource = createCachedResource({ key: 'songs', request, store })
+
+    await expect(resource.revalidate()).resolves.toEqual(['a', 'b'])
+
+    expect(request).toHaveBeenCalledWith(null, expect.any(AbortSignal))
+    expect(resource.peek()).toEqual(['a', 'b'])
+    await vi.waitFor(async () =>
+      expect(await store.get('songs')).toEqual({ data: ['a', 'b'], etag: '"v1"', dropped: [] })
+    )
+  })
+
+  it('reads a copy stored by an earlier visit and revalidates it by tag', async () => {
+    await store.set('songs', { data: ['a'], etag: '"v1"' })
+    const request = vi.fn<Request>().mockResolvedValue({ notModified: true })
+    const resource = createCachedResource({ key: 'songs', request, store })
+
+    expect(resource.peek()).toBeUndefined()
+    await expect(resource.read()).resolves.toEqual(['a'])
+    await expect(resource.revalidate()).resolves.toEqual(['a'])
+    expect(request).toHaveBeenCalledWith('"v1"', expect.any(AbortSignal))
+  })
+
+  it('replaces the cached copy when the server has a newer one', async () => {
+    await store.set('songs', { data: ['a'], etag: '"v1"' })
+    const request = vi.fn<Request>().mockResolvedValue(modified(['b'], '"v2"'))
+    const resource = createCachedResource({ key: 'songs', request, store })
+
+    await expect(resource.revalidate()).resolves.toEqual(['b'])
+    await vi.waitFor(async () => expect((await store.get('songs'))?.etag).toBe('"v2"'))
+  })
+
+  it('keeps the records the server sent invalid with the copy', async () => {
+    const dropped = [{ path: '[1]', message: 'expected a string, got a number' }]
+    const request = vi.fn<Request>().mockResolvedValue(modified(['a'], '"v1"', dropped))
+    const resource = createCachedResource({ key: 'songs', request, store })
+    await resource.revalidate()
+    await vi.waitFor(async () => expect(await store.get('songs')).toBeDefined())
+
+    const nextVisit = createCachedResource({ key: 'songs', request, store })
+
+    expect(resource.dropped()).toEqual(dropped)
+    expect(nextVisit.dropped()).toEqual([])
+    await nextVisit.read()
+    expect(nextVisit.dropped()).toEqual(dropped)
+  })
+
+  it('shares one request between concurrent callers', async () => {
+    const { request, answer } = deferredRequest()
+    const resource = createCachedResource({ key: 'songs', request, store })
+
+    const first = resource.revalidate()
+    const second = resource.revalidate()
+    await vi.waitFor(() => expect(request).toHaveBeenCalled())
+    answer(modified(['a'], '"v1"'))
+
+    await expect(Promise.all([first, second])).resolves.toEqual([['a'], ['a']])
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps the shared request going while any caller still wants it', async () => {
+    const { request, answer } = deferredRequest()
+    const resource = createCachedResource({ key: 'songs', request, store })
+    const controller = new AbortController()
+
+    const abandoned = resource.revalidate(controller.signal).catch((error: unknown) => error)
+    const kept = resource.revalidate()
+    await vi.waitFor(() => expect(request).toHaveBeenCalled())
+    controller.abort()
+
+    expect(isAbortError(await abandoned)).toBe(true)
+    expect(request.mock.calls[0][1].aborted).toBe(false)
+    answer(modified(['a'], '"v1"'))
+    await expect(kept).resolves.toEqual(['a'])
+  })
+
+  it('aborts the request once every caller has given up', async () => {
+    const { request } = deferredRequest()
+    const resource = createCachedResource({ key: 'songs', request, store })
+    const controller = new AbortController()
+
+    const result = resource.revalidate(controller.signal).catch((error: unknown) => error)
+    await vi.waitFor(() => expect(request).toHaveBeenCalled())
+    controller.abort()
+
+    expect(isAbortError(await result)).toBe(true)
+    expect(request.mock.calls[0][1].aborted).toBe(true)
+  })
+
+  it('carries on in memory when the store fails', async () => {
+    const broken: CacheStore = {
+      get: () => Promise.reject(new Error('Quota exceeded')),
+      set: () => Promise.reject(new Error('Quota exceeded')),
+      delete: () => Promise.resolve(),
+    }
+    const request = vi.fn<Request>().mockResolvedValue(modified(['a'], '"v1"'))
+    const resource = createCachedResource({ key: 'songs', request, store: broken })
+
+    await expect(resource.revalidate()).resolves.toEqual(['a'])
+    expect(resource.peek()).toEqual(['a'])
+    expect(request).toHaveBeenCalledWith(null, expect.any(AbortSignal))
+  })
+
+  it('forgets the cached copy when cleared', async () => {
+    const request = vi.fn<Request>().mockResolvedValue(modified(['a'], '"v1"'))
+    const resource = createCachedResource({ key: 'songs', request, store })
+    await resource.revalidate()
+    await vi.waitFor(async () => expect(await store.get('songs')).toBeDefined())
+
+    await resource.clear()
+
+    expect(resource.peek()).toBeUndefined()
+    await expect(resource.read()).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { requestCheckedJson, requestJson, revalidateJson } from '../client'
+import { HttpError, NetworkError, ParseError, ValidationError, isAbortError } from '../errors'
+import { songListSchema } from '../../types/schemas'
+
+const respond = (status: number, body?: unknown, headers: HeadersInit = {}) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    json: async () => {
+      if (body === undefined) throw new SyntaxError('Unexpected end of JSON input')
+      return body
+    },
+  }) as Response
+
+// Settles a promise that is expected to fail, without an unhandled rejection
+const settle = <T>(promise: Promise<T>) =>
+  promise.then(
+    (value) => ({ value, error: undefined }),
+    (error: unknown) => ({ value: undefined, error })
+  )
+
+describe('requestJson', () => {
+  const fetchMock = vi.fn<typeof fetch>()
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('returns the parsed body', async () => {
+    fetchMock.mockResolvedValueOnce(respond(200, { id: '1' }))
+
+    await expect(requestJson('/api/songs/1')).resolves.toEqual({ id: '1' })
+    expect(fetchMock).toHaveBeenCalledWith('/api/songs/1', expect.objectContaining({ method: 'GET' }))
+  })
+
+  it('sends bodies as JSON', async () => {
+    fetchMock.mockResolvedValueOnce(respond(200, {}))
+
+    await requestJson('/api/playlists/1', {
+      method: 'PATCH',
+      headers: { 'If-Match': '"1"' },
+      body: { name: 'New' },
+    })
+
+    expect(fetchMock).toHaveBeenCalledWith('/api/playlists/1', {
+      method: 'PATCH',
+      signal: undefined,
+      headers: { 'Content-Type': 'application/json', 'If-Match': '"1"' },
+      body: '{"name":"New"}',
+    })
+  })
+
+  it('returns undefined for 204 No Content', async () => {
+    fetchMock.mockResolvedValueOnce(respond(204))
+
+    await expect(requestJson('/api/playlists/1', { method: 'DELETE' })).resolves.toBeUndefined()
+  })
+
+  it('retries GETs with exponential backoff', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(503, { error: 'Busy' }))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(respond(200, ['song']))
+
+    const result = settle(requestJson('/api/songs', { retryDelay: 100 }))
+
+    await vi.advanceTimersByTimeAsync(99)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    // The second wait is twice as long
+    await vi.advanceTimersByTimeAsync(199)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+
+    expect(await result).toEqual({ value: ['song'], error: undefined })
+  })
+
+  it('throws the last error once the retries run out', async () => {
+    fetchMock.mockResolvedValue(respond(500, { error: 'Simulated server error' }))
+
+    const result = settle(requestJson('/api/songs', { retries: 3 }))
+    await vi.runAllTimersAsync()
+    const { error } = await result
+
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+    expect(error).toBeInstanceOf(HttpError)
+    expect(error).toMatchObject({ status: 500, message: 'Simulated server error' })
+  })
+
+  it('does not retry client errors', async () => {
+    fetchMock.mockResolvedValue(respond(404, { error: 'Song not found' }))
+
+    const { error } = await settle(requestJson('/api/songs/x'))
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(error).toBeInstanceOf(HttpError)
+    expect((error as HttpError).body).toEqual({ error: 'Song not found' })
+  })
+
+  it('does not retry anything but GETs', async () => {
+    fetchMock.mockResolvedValue(respond(503))
+
+    const { error } = await settle(requestJson('/api/playlists/1', { method: 'PATCH', body: {} }))
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(error).toBeInstanceOf(HttpError)
+  })
+
+  it('wraps failures in typed errors', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+    const network = await settle(requestJson('/api/songs', { retries: 0 }))
+
+    fetchMock.mockResolvedValueOnce(respond(200))
+    const parse = await settle(requestJson('/api/songs'))
+
+    expect(network.error).toBeInstanceOf(NetworkError)
+    expect((network.error as NetworkError).cause).toBeInstanceOf(TypeError)
+    expect(parse.error).toBeInstanceOf(ParseError)
+  })
+
+  it('checks the body against a schema', async () => {
+    fetchMock.mockResolvedValueOnce(respond(200, [{ id: 1 }]))
+    const invalid = await settle(requestJson('/api/songs', { schema: songListSchema }))
+
+    fetchMock.mockResolvedValueOnce(respond(200, { id: 1 }))
+    const wrongShape = await settle(requestJson('/api/songs', { schema: songListSchema }))
+
+    // Bad records are dropped from lists, not fatal
+    expect(invalid.value).toEqual([])
+    expect(wrongShape.error).toBeInstanceOf(ValidationError)
+    expect(wrongShape.error).toBeInstanceOf(ParseError)
+    expect((wrongShape.error as ValidationError).issues).toEqual([
+      { path: '', message: 'expected an array, got an object' },
+    ])
+    // Not worth retrying
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('returns the records the schema dropped with the body', async () => {
+    const song = { id: '1', title: 'A', artist: 'B', album: 'C', albumArt: 'a.jpg', duration: 60 }
+    fetchMock.mockResolvedValueOnce(respond(200, [song, { ...song, duration: '1:00' }]))
+
+    await expect(requestCheckedJson('/api/songs', { schema: songListSchema })).resolves.toEqual({
+      data: [song],
+      dropped: [{ path: '[1].duration', message: expect.stringContaining('expected a number') }],
+    })
+  })
+
+  it('stops when aborted mid-request', async () => {
+    fetchMock.mockImplementation(
+      (_url, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(init.signal!.reason))
+        })
+    )
+    const controller = new AbortController()
+
+    const result = settle(requestJson('/api/songs', { signal: controller.signal }))
+    controller.abort()
+    const { error } = await result
+
+    expect(isAbortError(error)).toBe(true)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops when aborted between retries', async () => {
+    fetchMock.mockResolvedValue(respond(503))
+    const controller = new AbortController()
+
+    const result = settle(requestJson('/api/songs', { signal: controller.signal }))
+    await vi.advanceTimersByTimeAsync(0)
+    controller.abort()
+    await vi.runAllTimersAsync()
+    const { error } = await result
+
+    expect(isAbortError(error)).toBe(true)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('revalidateJson', () => {
+  const fetchMock = vi.fn<typeof fetch>()
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('sends the cached tag and reports a 304 as not modified', async () => {
+    fetchMock.mockResolvedValueOnce(respond(304))
+
+    await expect(revalidateJson('/api/songs', '"v1"')).resolves.toEqual({ notModified: true })
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/songs',
+      expect.objectContaining({ headers: { 'If-None-Match': '"v1"' } })
+    )
+  })
+
+  it('returns the new body and its tag', async () => {
+    fetchMock.mockResolvedValueOnce(respond(200, [{ id: '1' }], { ETag: '"v2"' }))
+
+    await expect(revalidateJson('/api/songs', '"v1"')).resolves.toEqual({
+      notModified: false,
+      data: [{ id: '1' }],
+      etag: '"v2"',
+      dropped: [],
+    })
+  })
+
+  it('fetches unconditionally without a tag', async () => {
+    fetchMock.mockResolvedValueOnce(respond(200, []))
+
+    await expect(revalidateJson('/api/songs', null)).resolves.toEqual({
+      notModified: false,
+      data: [],
+      etag: null,
+      dropped: [],
+    })
+    expect(fetchMock.mock.calls[0][1]?.headers).toBeUndefined()
+  })
+})
@@ -0,0 +1,187 @@
+import type { Revalidation } from './client'
+import type { Issue } from '../types/schemas'
+
+export interface CacheEntry<T> {
+  data: T
+  // The server's tag for this version, sent back to check it's current
+  etag: string | null
+  // Invalid records left out of data; missing from entries stored before
+  // these were kept
+  dropped?: Issue[]
+}
+
+/**
+ * Somewhere to keep responses between visits
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+const DB_VERSION = 1
+const STORE_NAME = 'responses'
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Keeps entries in an IndexedDB database. The database is opened on first
+ * use, so creating a store is free.
+ */
+export function createIndexedDbStore(name = 'music-player-cache'): CacheStore {
+  let db: Promise<IDBDatabase> | null = null
+
+  const open = () => {
+    db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION)
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    return db
+  }
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const store = (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+    return settle(action(store))
+  }
+
+  return {
+    get: (key) => run('readonly', (store) => store.get(key)),
+    set: async (key, entry) => {
+      await run('readwrite', (store) => store.put(entry, key))
+    },
+    delete: async (key) => {
+      await run('readwrite', (store) => store.delete(key))
+    },
+  }
+}
+
+// Private browsing in some browsers, and test environments, have no IndexedDB
+const defaultStore = (): CacheStore | undefined =>
+  typeof indexedDB === 'undefined' ? undefined : createIndexedDbStore()
+
+interface CachedResourceOptions<T> {
+  key: string
+  // Fetches the resource unless the server still has the version tagged etag
+  request: (etag: string | null, signal: AbortSignal) => Promise<Revalidation<T>>
+  // Where to persist it; kept in memory only without one
+  store?: CacheStore
+}
+
+export interface CachedResource<T> {
+  // The copy in memory, if one has been loaded this session
+  peek: () => T | undefined
+  // The cached copy, from memory or the store
+  read: () => Promise<T | undefined>
+  // Invalid records left out of the copy in memory
+  dropped: () => Issue[]
+  // Checks with the server and returns the current version. Concurrent
+  // calls share one request, which is only aborted once every caller has
+  // given up on it.
+  revalidate: (signal?: AbortSignal) => Promise<T>
+  clear: () => Promise<void>
+}
+
+interface InFlight<T> {
+  promise: Promise<T>
+  controller: AbortController
+  waiting: number
+}
+
+/**
+ * Caches one API resource for stale-while-revalidate: show the cached copy
+ * straight away, then ask the server whether it's still current. A store
+ * that fails counts as holding nothing, since the server has the data
+ * anyway.
+ */
+export function createCachedResource<T>({
+  key,
+  request,
+  store = defaultStore(),
+}: CachedResourceOptions<T>): CachedResource<T> {
+  let entry: CacheEntry<T> | undefined
+  let loading: Promise<void> | null = null
+  let inFlight: InFlight<T> | null = null
+
+  // Fills entry from the store, once
+  const load = () => {
+    loading ??= (async () => {
+      try {
+        entry ??= await store?.get<T>(key)
+      } catch {
+        // Read as a miss
+      }
+    })()
+    return loading
+  }
+
+  const fetchCurrent = async (signal: AbortSignal) => {
+    await load()
+    const cached = entry
+    const result = await request(cached?.etag ?? null, signal)
+    if (result.notModified) {
+      if (!cached) throw new Error(`Server sent 304 for ${key} without a cached copy`)
+      return cached.data
+    }
+    entry = { data: result.data, etag: result.etag, dropped: result.dropped }
+    // The next load fetches it again
+    store?.set(key, entry).catch(() => {})
+    return entry.data
+  }
+
+  // Waits for the shared request, or until this caller's signal fires
+  const join = (current: InFlight<T>, signal?: AbortSignal) =>
+    new Promise<T>((resolve, reject) => {
+      current.waiting++
+      const onAbort = () => {
+        reject(signal!.reason)
+        current.waiting--
+        if (current.waiting === 0) {
+          current.controller.abort(signal!.reason)
+          if (inFlight === current) inFlight = null
+        }
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      current.promise.then(resolve, reject).finally(() => {
+        signal?.removeEventListener('abort', onAbort)
+        if (!signal?.aborted) current.waiting--
+      })
+    })
+
+  return {
+    peek: () => entry?.data,
+    dropped: () => entry?.dropped ?? [],
+    read: async () => {
+      await load()
+      return entry?.data
+    },
+    revalidate(signal) {
+      if (signal?.aborted) return Promise.reject(signal.reason)
+      if (!inFlight) {
+        const controller = new AbortController()
+        const current: InFlight<T> = {
+          promise: fetchCurrent(controller.signal).finally(() => {
+            if (inFlight === current) inFlight = null
+          }),
+          controller,
+          waiting: 0,
+        }
+        inFlight = current
+      }
+      return join(inFlight, signal)
+    },
+    async clear() {
+      inFlight?.controller.abort()
+      inFlight = null
+      entry = undefined
+      loading = null
+      await store?.delete(key)
+    },
+  }
+}
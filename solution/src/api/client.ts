@@ -0,0 +1,194 @@
+import { HttpError, NetworkError, ParseError, ValidationError, isAbortError } from './errors'
+import { formatIssues, type Issue, type Schema } from '../types/schemas'
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  headers?: Record<string, string>
+  // Sent as JSON
+  body?: unknown
+  signal?: AbortSignal
+  // Extra attempts after a failure; only GETs are retried, since repeating
+  // anything else could apply it twice
+  retries?: number
+  // Wait before the first retry in ms; doubles for each one after
+  retryDelay?: number
+}
+
+export interface JsonRequestOptions<T> extends RequestOptions {
+  // Checks the response body; without one it is trusted as is
+  schema?: Schema<T>
+}
+
+export const DEFAULT_RETRIES = 2
+export const DEFAULT_RETRY_DELAY = 300
+
+// Worth another try: the server may be overloaded or restarting
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+async function readErrorBody(response: Response): Promise<unknown> {
+  try {
+    return await response.json()
+  } catch {
+    return undefined
+  }
+}
+
+function buildInit({ method = 'GET', headers, body, signal }: RequestOptions): RequestInit {
+  const init: RequestInit = { method, signal }
+  if (body !== undefined) {
+    init.headers = { 'Content-Type': 'application/json', ...headers }
+    init.body = JSON.stringify(body)
+  } else if (headers) {
+    init.headers = headers
+  }
+  return init
+}
+
+// A checked body, with the invalid records the schema left out of its lists
+export interface CheckedJson<T> {
+  data: T
+  dropped: Issue[]
+}
+
+// The body, with the response it came from for its status and headers
+interface Fetched<T> extends CheckedJson<T> {
+  response: Response
+}
+
+function validate<T>(url: string, body: unknown, schema: Schema<T>): CheckedJson<T> {
+  const result = schema.check(body, '')
+  if (!result.ok) {
+    throw new ValidationError(
+      `Invalid response from ${url}: ${formatIssues(result.issues)}`,
+      result.issues
+    )
+  }
+  return { data: result.value, dropped: result.issues }
+}
+
+// One attempt: throws NetworkError, HttpError or ParseError
+async function attempt<T>(url: string, init: RequestInit, schema?: Schema<T>): Promise<Fetched<T>> {
+  let response: Response
+  try {
+    response = await fetch(url, init)
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    throw new NetworkError(`Could not reach ${url}`, error)
+  }
+
+  // Only sent for conditional requests, so the caller still has the body
+  if (response.status === 304) return { response, data: undefined as T, dropped: [] }
+
+  if (!response.ok) {
+    const body = await readErrorBody(response)
+    const message =
+      body && typeof body === 'object' && 'error' in body && typeof body.error === 'string'
+        ? body.error
+        : `Request to ${url} failed: ${response.status}`
+    throw new HttpError(response.status, message, body)
+  }
+
+  if (response.status === 204) return { response, data: undefined as T, dropped: [] }
+  let body: unknown
+  try {
+    body = await response.json()
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    throw new ParseError(`Invalid response from ${url}`, error)
+  }
+  if (!schema) return { response, data: body as T, dropped: [] }
+  return { response, ...validate(url, body, schema) }
+}
+
+/**
+ * Fetches JSON from the API. Failed GETs are retried with exponential
+ * backoff when the failure might be temporary: network errors, timeouts,
+ * rate limits and 5xx statuses.
+ * @param url - The API path
+ * @param options - Method, body, abort signal, retry settings and a schema
+ *   to check the body against
+ * @returns The parsed body, or undefined for 204 No Content
+ * @throws NetworkError, HttpError, ParseError or ValidationError; or the
+ *   abort reason if the signal fires
+ */
+export async function requestJson<T>(url: string, options: JsonRequestOptions<T> = {}): Promise<T> {
+  return (await send(url, options)).data
+}
+
+/**
+ * Like requestJson, but also returns the invalid records the schema left
+ * out, for callers that tell the user some are missing
+ */
+export async function requestCheckedJson<T>(
+  url: string,
+  options: JsonRequestOptions<T> = {}
+): Promise<CheckedJson<T>> {
+  const { data, dropped } = await send(url, options)
+  return { data, dropped }
+}
+
+// The retry loop behind requestJson and revalidateJson
+async function send<T>(url: string, options: JsonRequestOptions<T>): Promise<Fetched<T>> {
+  const {
+    method = 'GET',
+    signal,
+    retries = method === 'GET' ? DEFAULT_RETRIES : 0,
+    retryDelay = DEFAULT_RETRY_DELAY,
+  } = options
+  const init = buildInit(options)
+
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt(url, init, options.schema)
+    } catch (error) {
+      const retryable =
+        error instanceof NetworkError ||
+        (error instanceof HttpError && isRetryableStatus(error.status))
+      if (!retryable || method !== 'GET' || retry >= retries) throw error
+    }
+    await wait(retryDelay * 2 ** retry, signal)
+  }
+}
+
+// What a conditional GET found
+export type Revalidation<T> =
+  | { notModified: true }
+  | { notModified: false; data: T; etag: string | null; dropped: Issue[] }
+
+/**
+ * Fetches JSON unless the server still has the version with the given
+ * entity tag, for refreshing a cached copy. Retries like requestJson.
+ * @param etag - The cached copy's tag, or null to fetch unconditionally
+ * @returns notModified if the copy is current, otherwise the new body, its
+ *   tag and the invalid records the schema dropped from it
+ */
+export async function revalidateJson<T>(
+  url: string,
+  etag: string | null,
+  options: JsonRequestOptions<T> = {}
+): Promise<Revalidation<T>> {
+  const headers = etag ? { ...options.headers, 'If-None-Match': etag } : options.headers
+  const { response, data, dropped } = await send(url, { ...options, headers })
+  if (response.status === 304) return { notModified: true }
+  return { notModified: false, data, etag: response.headers.get('ETag'), dropped }
+}
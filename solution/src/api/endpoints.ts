@@ -0,0 +1,86 @@
+import type { Playlist, Song } from '../types'
+import {
+  requestCheckedJson,
+  requestJson,
+  revalidateJson,
+  type CheckedJson,
+  type RequestOptions,
+  type Revalidation,
+} from './client'
+import { createCachedResource } from './cache'
+import { playlistSchema, songListSchema } from '../types/schemas'
+
+// Only abort and retry settings; endpoints choose the method and body
+export type CallOptions = Pick<RequestOptions, 'signal' | 'retries' | 'retryDelay'>
+
+export type PlaylistEdit =
+  | { type: 'rename'; name: string }
+  | { type: 'removeSong'; songId: string }
+  | { type: 'reorder'; songIds: string[] }
+
+const playlistPath = (id: string) => `/api/playlists/${encodeURIComponent(id)}`
+
+// data is the playlist, less any songs the server sent malformed
+export function getPlaylist(id: string, options?: CallOptions): Promise<CheckedJson<Playlist>> {
+  return requestCheckedJson(playlistPath(id), { ...options, schema: playlistSchema })
+}
+
+/**
+ * Fetches the library unless the server still has the version tagged etag
+ */
+export function getSongsIfChanged(
+  etag: string | null,
+  options?: CallOptions
+): Promise<Revalidation<Song[]>> {
+  return revalidateJson('/api/songs', etag, { ...options, schema: songListSchema })
+}
+
+// The whole library is large and rarely changes, so it's kept between visits
+export const songLibrary = createCachedResource<Song[]>({
+  key: 'songs',
+  request: (etag, signal) => getSongsIfChanged(etag, { signal }),
+})
+
+/**
+ * Saves an edit made to the given version of a playlist. The server turns
+ * it down with a 412 HttpError if the playlist has changed since, or a 409
+ * if the edit no longer applies; either way the error body's `playlist` is
+ * the current version.
+ */
+export function savePlaylistEdit(
+  playlist: Playlist,
+  edit: PlaylistEdit,
+  options?: CallOptions
+): Promise<Playlist> {
+  const path = playlistPath(playlist.id)
+  const headers: Record<string, string> = {}
+  if (playlist.version !== undefined) {
+    headers['If-Match'] = `"${playlist.version}"`
+  }
+
+  switch (edit.type) {
+    case 'rename':
+      return requestJson(path, {
+        ...options,
+        method: 'PATCH',
+        headers,
+        body: { name: edit.name },
+        schema: playlistSchema,
+      })
+    case 'removeSong':
+      return requestJson(`${path}/songs/${encodeURIComponent(edit.songId)}`, {
+        ...options,
+        method: 'DELETE',
+        headers,
+        schema: playlistSchema,
+      })
+    case 'reorder':
+      return requestJson(`${path}/songs`, {
+        ...options,
+        method: 'PUT',
+        headers,
+        body: { songIds: edit.songIds },
+        schema: playlistSchema,
+      })
+  }
+}
@@ -0,0 +1,77 @@
+import type { Issue } from '../types/schemas'
+
+/**
+ * Base class for everything the API client throws, apart from aborts
+ */
+export class ApiError extends Error {
+  // The underlying error, if any
+  readonly cause: unknown
+
+  constructor(message: string, cause?: unknown) {
+    super(message)
+    this.name = 'ApiError'
+    this.cause = cause
+  }
+}
+
+/**
+ * The request never got a response: offline, DNS failure, CORS, etc.
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string, cause?: unknown) {
+    super(message, cause)
+    this.name = 'NetworkError'
+  }
+}
+
+/**
+ * The server answered with a non-2xx status
+ */
+export class HttpError extends ApiError {
+  readonly status: number
+  // The parsed JSON error body, if there was one
+  readonly body: unknown
+
+  constructor(status: number, message: string, body?: unknown) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+    this.body = body
+  }
+}
+
+/**
+ * The server answered 2xx, but the body wasn't the JSON we expected
+ */
+export class ParseError extends ApiError {
+  constructor(message: string, cause?: unknown) {
+    super(message, cause)
+    this.name = 'ParseError'
+  }
+}
+
+/**
+ * The body was JSON, but not the shape we expected
+ */
+export class ValidationError extends ParseError {
+  readonly issues: Issue[]
+
+  constructor(message: string, issues: Issue[]) {
+    super(message)
+    this.name = 'ValidationError'
+    this.issues = issues
+  }
+}
+
+/**
+ * Whether an error came from aborting the request, which callers usually
+ * want to ignore rather than report
+ */
+export function isAbortError(error: unknown): boolean {
+  // Checked by name, since DOMException can come from another realm
+  return typeof error === 'object' && error !== null && 'name' in error && error.name === 'AbortError'
+}
+
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'An error occurred'
+}
@@ -0,0 +1,18 @@
+import { formatIssues, type Issue } from '../types/schemas'
+
+interface DroppedSongsNoticeProps {
+  // The schema's reasons for leaving songs out
+  dropped: Issue[]
+}
+
+/**
+ * Says that songs the server sent malformed aren't listed, and why
+ */
+export function DroppedSongsNotice({ dropped }: DroppedSongsNoticeProps) {
+  if (dropped.length === 0) return null
+  return (
+    <p role="status" className="text-sm text-yellow-400">
+      Some songs are missing because their details were invalid ({formatIssues(dropped)})
+    </p>
+  )
+}
@@ -1,5 +1,4 @@
 import type { Song } from '../types'
-import { formatDuration } from '../utils/formatDuration'
 
 interface NowPlayingProps {
   song: Song | null
@@ -38,7 +37,6 @@ export function NowPlaying({ song }: NowPlayingProps) {
       <h2 className="text-xl font-bold truncate max-w-full">{song.title}</h2>
       <p className="text-gray-400 truncate max-w-full">{song.artist}</p>
       <p className="text-sm text-gray-500 truncate max-w-full">{song.album}</p>
-      <p className="text-sm text-gray-500 mt-2">{formatDuration(song.duration)}</p>
     </div>
   )
 }
@@ -1,41 +1,219 @@
+import type { RepeatMode, ShuffleStrategy } from '../types'
+import { MAX_CROSSFADE_SECONDS } from '../utils/crossfade'
+import { SeekBar } from './SeekBar'
+import { ShuffleSeed } from './ShuffleSeed'
+
 interface PlayerControlsProps {
   isShuffled: boolean
   onToggleShuffle: () => void
+  shuffleStrategy: ShuffleStrategy
+  shuffleSeed: number | null
+  onShuffleWithSeed: (seed: number) => void
+  onShuffleStrategyChange: (strategy: ShuffleStrategy) => void
+  repeatMode: RepeatMode
+  onCycleRepeatMode: () => void
   hasCurrentSong: boolean
+  canGoPrevious: boolean
+  canGoNext: boolean
+  onPrevious: () => void
+  onNext: () => void
+  isPlaying: boolean
+  onTogglePlay: () => void
+  onSeek: (time: number) => void
+  crossfadeDuration: number
+  onCrossfadeDurationChange: (seconds: number) => void
+}
+
+// Crossfade lengths offered in seconds; 0 means switch without fading
+const CROSSFADE_OPTIONS = [0, 2, 5, 8, MAX_CROSSFADE_SECONDS]
+
+const REPEAT_LABELS: Record<RepeatMode, string> = {
+  off: 'Repeat: off',
+  all: 'Repeat: all',
+  one: 'Repeat: one',
 }
 
 export function PlayerControls({
   isShuffled,
   onToggleShuffle,
+  shuffleStrategy,
+  shuffleSeed,
+  onShuffleWithSeed,
+  onShuffleStrategyChange,
+  repeatMode,
+  onCycleRepeatMode,
   hasCurrentSong,
+  canGoPrevious,
+  canGoNext,
+  onPrevious,
+  onNext,
+  isPlaying,
+  onTogglePlay,
+  onSeek,
+  crossfadeDuration,
+  onCrossfadeDurationChange,
 }: PlayerControlsProps) {
   return (
-    <div className="flex items-center justify-center gap-4 py-4">
-      <button
-        onClick={onToggleShuffle}
-        disabled={!hasCurrentSong}
-        className={`p-3 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500
-          ${isShuffled ? 'bg-blue-600 text-white' : 'hover:bg-gray-700 text-gray-400'}
-          ${!hasCurrentSong ? 'opacity-50 cursor-not-allowed' : ''}`}
-        aria-label={isShuffled ? 'Disable shuffle' : 'Enable shuffle'}
-        aria-pressed={isShuffled}
-        title="Shuffle"
-      >
-        <svg
-          xmlns="http://www.w3.org/2000/svg"
-          className="h-6 w-6"
-          fill="none"
-          viewBox="0 0 24 24"
-          stroke="currentColor"
+    <div className="flex flex-col gap-2 py-4">
+      <SeekBar disabled={!hasCurrentSong} onSeek={onSeek} />
+
+      <div className="flex items-center justify-center gap-4">
+        <button
+          onClick={() => onShuffleStrategyChange(shuffleStrategy === 'smart' ? 'random' : 'smart')}
+          className={`px-2 py-1 text-xs font-medium rounded transition-colors
+            focus:outline-none focus:ring-2 focus:ring-blue-500
+            ${shuffleStrategy === 'smart' ? 'bg-blue-600 text-white' : 'hover:bg-gray-700 text-gray-400'}`}
+          aria-label="Smart shuffle"
+          aria-pressed={shuffleStrategy === 'smart'}
+          title="Smart shuffle: spread out artists and albums"
+        >
+          Smart
+        </button>
+
+        <button
+          onClick={onToggleShuffle}
+          disabled={!hasCurrentSong}
+          className={`p-3 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500
+            ${isShuffled ? 'bg-blue-600 text-white' : 'hover:bg-gray-700 text-gray-400'}
+            ${!hasCurrentSong ? 'opacity-50 cursor-not-allowed' : ''}`}
+          aria-label={isShuffled ? 'Disable shuffle' : 'Enable shuffle'}
+          aria-pressed={isShuffled}
+          // Show the seed so a shuffled order can be reproduced
+          title={isShuffled && shuffleSeed !== null ? `Shuffle (seed ${shuffleSeed})` : 'Shuffle'}
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-6 w-6"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+            />
+          </svg>
+        </button>
+
+        <button
+          onClick={onPrevious}
+          disabled={!canGoPrevious}
+          className={`p-3 rounded-full text-gray-300 transition-colors hover:bg-gray-700
+            focus:outline-none focus:ring-2 focus:ring-blue-500
+            ${!canGoPrevious ? 'opacity-50 cursor-not-allowed' : ''}`}
+          aria-label="Previous"
+          title="Previous"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-6 w-6"
+            fill="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path d="M6 5h2v14H6zM20 5v14L9 12z" />
+          </svg>
+        </button>
+
+        <button
+          onClick={onTogglePlay}
+          disabled={!hasCurrentSong}
+          className={`p-3 rounded-full bg-white text-gray-900 transition-colors hover:bg-gray-200
+            focus:outline-none focus:ring-2 focus:ring-blue-500
+            ${!hasCurrentSong ? 'opacity-50 cursor-not-allowed' : ''}`}
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+          title={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? (
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-6 w-6"
+              fill="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+            </svg>
+          ) : (
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-6 w-6"
+              fill="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path d="M8 5v14l11-7z" />
+            </svg>
+          )}
+        </button>
+
+        <button
+          onClick={onNext}
+          disabled={!canGoNext}
+          className={`p-3 rounded-full text-gray-300 transition-colors hover:bg-gray-700
+            focus:outline-none focus:ring-2 focus:ring-blue-500
+            ${!canGoNext ? 'opacity-50 cursor-not-allowed' : ''}`}
+          aria-label="Next"
+          title="Next"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-6 w-6"
+            fill="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path d="M16 5h2v14h-2zM4 5v14l11-7z" />
+          </svg>
+        </button>
+
+        <button
+          onClick={onCycleRepeatMode}
+          className={`relative p-3 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500
+            ${repeatMode !== 'off' ? 'bg-blue-600 text-white' : 'hover:bg-gray-700 text-gray-400'}`}
+          aria-label={REPEAT_LABELS[repeatMode]}
+          title={REPEAT_LABELS[repeatMode]}
         >
-          <path
-            strokeLinecap="round"
-            strokeLinejoin="round"
-            strokeWidth={2}
-            d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
-          />
-        </svg>
-      </button>
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-6 w-6"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M17 2l4 4-4 4M3 11V9a3 3 0 013-3h15M7 22l-4-4 4-4m14-1v2a3 3 0 01-3 3H3"
+            />
+          </svg>
+          {repeatMode === 'one' && (
+            <span className="absolute top-1 right-1 text-[10px] font-bold leading-none">1</span>
+          )}
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <ShuffleSeed
+          seed={isShuffled ? shuffleSeed : null}
+          disabled={!hasCurrentSong}
+          onApply={onShuffleWithSeed}
+        />
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          Crossfade
+          <select
+            value={crossfadeDuration}
+            onChange={(e) => onCrossfadeDurationChange(Number(e.target.value))}
+            className="px-2 py-1 rounded bg-gray-800 border border-gray-700 text-gray-200
+              focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {CROSSFADE_OPTIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds === 0 ? 'Off' : `${seconds}s`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
     </div>
   )
 }
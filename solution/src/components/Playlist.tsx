@@ -3,10 +3,25 @@ import { usePlayer } from '../context/PlayerContext'
 import { LoadingSpinner } from './LoadingSpinner'
 import { ErrorMessage } from './ErrorMessage'
 import { SongRow } from './SongRow'
+import { PlaylistConflictBanner } from './PlaylistConflictBanner'
+import { DroppedSongsNotice } from './DroppedSongsNotice'
 
 export function Playlist() {
-  const { playlist, songs, isLoading, error, refetch } = usePlaylist()
-  const { currentSong, playSong, playNext } = usePlayer()
+  const {
+    playlist,
+    songs,
+    isLoading,
+    error,
+    dropped,
+    refetch,
+    isSaving,
+    saveError,
+    conflict,
+    removeSong,
+    reloadPlaylist,
+    reapplyChange,
+  } = usePlaylist()
+  const { currentSong, playSong, playNext, addToQueue } = usePlayer()
 
   if (isLoading) {
     return <LoadingSpinner message="Loading playlist..." />
@@ -29,15 +44,29 @@ export function Playlist() {
       <div className="mb-4">
         <h2 className="text-xl font-bold">{playlist.name}</h2>
         <p className="text-sm text-gray-400">{songs.length} songs</p>
+        <DroppedSongsNotice dropped={dropped} />
+        {saveError && <p className="text-sm text-red-400">{saveError}</p>}
       </div>
+      {conflict && (
+        <PlaylistConflictBanner
+          conflict={conflict}
+          onReload={reloadPlaylist}
+          onReapply={reapplyChange}
+        />
+      )}
       <div className="space-y-1 overflow-y-auto flex-1">
         {songs.map((song) => (
           <SongRow
             key={song.id}
             song={song}
             isCurrentSong={currentSong?.id === song.id}
-            onPlay={(s) => playSong(s, songs)}
+            onPlay={(s) => playSong(s, songs, { type: 'playlist', id: playlist.id })}
             onPlayNext={playNext}
+            onAddToQueue={addToQueue}
+            // Only playlists from this API are versioned, and so editable
+            onRemove={
+              playlist.version !== undefined && !isSaving ? (s) => removeSong(s.id) : undefined
+            }
             showPlayNext={true}
           />
         ))}
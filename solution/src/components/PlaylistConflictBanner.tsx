@@ -0,0 +1,40 @@
+import type { PlaylistConflict } from '../hooks/usePlaylist'
+
+interface PlaylistConflictBannerProps {
+  conflict: PlaylistConflict
+  onReload: () => void
+  onReapply: () => void
+}
+
+export function PlaylistConflictBanner({ conflict, onReload, onReapply }: PlaylistConflictBannerProps) {
+  return (
+    <div
+      role="alert"
+      className="flex items-center justify-between gap-4 px-4 py-2 mb-4 rounded-lg bg-yellow-900/40 border border-yellow-700"
+    >
+      <p className="text-sm text-yellow-100">
+        {conflict.canReapply
+          ? 'This playlist was changed somewhere else before your edit was saved.'
+          : 'Your edit no longer applies to the latest version of this playlist.'}
+      </p>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        {conflict.canReapply && (
+          <button
+            onClick={onReapply}
+            className="px-3 py-1 text-sm font-medium rounded text-blue-400 hover:bg-gray-700
+              focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            Apply my change again
+          </button>
+        )}
+        <button
+          onClick={onReload}
+          className="px-3 py-1 text-sm font-medium rounded text-gray-200 hover:bg-gray-700
+            focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          Load latest
+        </button>
+      </div>
+    </div>
+  )
+}
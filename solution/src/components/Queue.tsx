@@ -1,3 +1,4 @@
+import { useEffect, useState } from 'react'
 import type { Song } from '../types'
 import { SongRow } from './SongRow'
 import { useVirtualScroll } from '../hooks/useVirtualScroll'
@@ -8,9 +9,24 @@ interface QueueProps {
   queue: Song[]
   currentSong: Song | null
   onPlaySong: (song: Song) => void
+  onRemove: (index: number) => void
+  onMove: (fromIndex: number, toIndex: number) => void
+  onClear: () => void
 }
 
-export function Queue({ queue, currentSong, onPlaySong }: QueueProps) {
+export function Queue({
+  queue,
+  currentSong,
+  onPlaySong,
+  onRemove,
+  onMove,
+  onClear,
+}: QueueProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+  // Index to refocus after a keyboard move re-renders the list
+  const [pendingFocusIndex, setPendingFocusIndex] = useState<number | null>(null)
+
   const {
     startIndex,
     endIndex,
@@ -18,12 +34,30 @@ export function Queue({ queue, currentSong, onPlaySong }: QueueProps) {
     totalHeight,
     onScroll,
     scrollContainerRef,
+    scrollToIndex,
   } = useVirtualScroll({
     itemHeight: ITEM_HEIGHT,
     totalItems: queue.length,
     bufferCount: 5,
   })
 
+  // Keep keyboard focus on the song that was just moved, once the moved
+  // queue has rendered and its row is inside the virtualized window
+  useEffect(() => {
+    if (pendingFocusIndex === null) return
+
+    const row = scrollContainerRef.current?.querySelector<HTMLElement>(
+      `[data-queue-index="${pendingFocusIndex}"] [role="button"]`
+    )
+    if (row) {
+      row.focus()
+      setPendingFocusIndex(null)
+    } else {
+      // Row is outside the virtualized window - bring it into view first
+      scrollToIndex(pendingFocusIndex)
+    }
+  }, [pendingFocusIndex, queue, startIndex, endIndex, scrollContainerRef, scrollToIndex])
+
   if (queue.length === 0) {
     return (
       <div className="py-8 text-center text-gray-400">
@@ -33,14 +67,45 @@ export function Queue({ queue, currentSong, onPlaySong }: QueueProps) {
     )
   }
 
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return
+
+    e.preventDefault()
+    const targetIndex = e.key === 'ArrowUp' ? index - 1 : index + 1
+    if (targetIndex < 0 || targetIndex >= queue.length) return
+
+    setPendingFocusIndex(targetIndex)
+    onMove(index, targetIndex)
+  }
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onMove(dragIndex, index)
+    }
+    setDragIndex(null)
+    setDropIndex(null)
+  }
+
   const visibleSongs = queue.slice(startIndex, endIndex + 1)
 
   return (
     <div className="flex flex-col h-full min-h-0">
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-semibold">Up Next</h3>
-        <span className="text-sm text-gray-400">{queue.length.toLocaleString()} songs</span>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-400">{queue.length.toLocaleString()} songs</span>
+          <button
+            onClick={onClear}
+            className="px-3 py-1 text-sm rounded bg-gray-700 text-gray-300 hover:bg-gray-600
+              focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            Clear
+          </button>
+        </div>
       </div>
+      <p className="sr-only" id="queue-reorder-help">
+        Press Alt plus Up or Down arrow to move a song in the queue
+      </p>
       <div
         ref={scrollContainerRef}
         onScroll={onScroll}
@@ -48,16 +113,71 @@ export function Queue({ queue, currentSong, onPlaySong }: QueueProps) {
       >
         <div style={{ height: totalHeight, position: 'relative' }}>
           <div style={{ transform: `translateY(${offsetY}px)` }}>
-            {visibleSongs.map((song) => (
-              <div key={song.id} style={{ height: ITEM_HEIGHT }}>
-                <SongRow
-                  song={song}
-                  isCurrentSong={currentSong?.id === song.id}
-                  onPlay={() => onPlaySong(song)}
-                  showPlayNext={false}
-                />
-              </div>
-            ))}
+            {visibleSongs.map((song, i) => {
+              const index = startIndex + i
+              return (
+                <div
+                  key={`${index}-${song.id}`}
+                  data-queue-index={index}
+                  style={{ height: ITEM_HEIGHT }}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move'
+                    e.dataTransfer.setData('text/plain', String(index))
+                    setDragIndex(index)
+                  }}
+                  onDragOver={(e) => {
+                    e.preventDefault()
+                    e.dataTransfer.dropEffect = 'move'
+                    setDropIndex(index)
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault()
+                    handleDrop(index)
+                  }}
+                  onDragEnd={() => {
+                    setDragIndex(null)
+                    setDropIndex(null)
+                  }}
+                  onKeyDown={(e) => handleKeyDown(e, index)}
+                  aria-describedby="queue-reorder-help"
+                  className={`flex items-center gap-1
+                    ${dragIndex === index ? 'opacity-50' : ''}
+                    ${dropIndex === index && dragIndex !== index ? 'border-t-2 border-blue-500' : ''}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <SongRow
+                      song={song}
+                      isCurrentSong={currentSong?.id === song.id}
+                      onPlay={() => onPlaySong(song)}
+                      showPlayNext={false}
+                    />
+                  </div>
+                  <button
+                    onClick={() => onRemove(index)}
+                    className="p-2 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white
+                      focus:outline-none focus:ring-2 focus:ring-blue-500 flex-shrink-0"
+                    aria-label={`Remove ${song.title} from queue`}
+                    title="Remove from Queue"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      className="h-5 w-5"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M6 18L18 6M6 6l12 12"
+                      />
+                    </svg>
+                  </button>
+                </div>
+              )
+            })}
           </div>
         </div>
       </div>
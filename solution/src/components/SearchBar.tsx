@@ -1,51 +1,68 @@
+import { useId, useState } from 'react'
+import type { QueryError, Suggestion } from '../utils/searchQuery'
+
 interface SearchBarProps {
   value: string
   onChange: (value: string) => void
   placeholder?: string
+  // Shown under the input when the query can't be read
+  error?: QueryError | null
+  // Offered in a list under the input; picking one replaces the query
+  suggestions?: Suggestion[]
 }
 
 export function SearchBar({
   value,
   onChange,
   placeholder = 'Search songs...',
+  error = null,
+  suggestions = [],
 }: SearchBarProps) {
+  const id = useId()
+  const listId = `${id}-suggestions`
+  const errorId = `${id}-error`
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const [isDismissed, setIsDismissed] = useState(false)
+  const isOpen = suggestions.length > 0 && !isDismissed
+
+  const change = (query: string) => {
+    setActiveIndex(-1)
+    setIsDismissed(false)
+    onChange(query)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setActiveIndex((index) => (index + 1) % suggestions.length)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1))
+        break
+      case 'Enter':
+      case 'Tab':
+        // Only take a suggestion that was picked, so Tab still moves focus on
+        if (activeIndex >= 0) {
+          e.preventDefault()
+          change(suggestions[activeIndex].query)
+        }
+        break
+      case 'Escape':
+        setIsDismissed(true)
+        break
+    }
+  }
+
   return (
     <div className="relative mb-4">
-      <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
-        <svg
-          xmlns="http://www.w3.org/2000/svg"
-          className="h-5 w-5 text-gray-400"
-          fill="none"
-          viewBox="0 0 24 24"
-          stroke="currentColor"
-        >
-          <path
-            strokeLinecap="round"
-            strokeLinejoin="round"
-            strokeWidth={2}
-            d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-          />
-        </svg>
-      </div>
-      <input
-        type="text"
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        className="w-full pl-10 pr-4 py-2 bg-gray-800 border border-gray-700 rounded-lg
-          text-white placeholder-gray-400
-          focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-        placeholder={placeholder}
-        aria-label="Search songs"
-      />
-      {value && (
-        <button
-          onClick={() => onChange('')}
-          className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-400 hover:text-white"
-          aria-label="Clear search"
-        >
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
           <svg
             xmlns="http://www.w3.org/2000/svg"
-            className="h-5 w-5"
+            className="h-5 w-5 text-gray-400"
             fill="none"
             viewBox="0 0 24 24"
             stroke="currentColor"
@@ -54,10 +71,83 @@ export function SearchBar({
               strokeLinecap="round"
               strokeLinejoin="round"
               strokeWidth={2}
-              d="M6 18L18 6M6 6l12 12"
+              d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
             />
           </svg>
-        </button>
+        </div>
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => change(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsDismissed(false)}
+          onBlur={() => setIsDismissed(true)}
+          className={`w-full pl-10 pr-4 py-2 bg-gray-800 border rounded-lg
+            text-white placeholder-gray-400
+            focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent
+            ${error ? 'border-red-500' : 'border-gray-700'}`}
+          placeholder={placeholder}
+          aria-label="Search songs"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={isOpen}
+          aria-controls={listId}
+          aria-activedescendant={isOpen && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+          aria-invalid={error ? true : undefined}
+          aria-describedby={error ? errorId : undefined}
+        />
+        {value && (
+          <button
+            onClick={() => change('')}
+            className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-400 hover:text-white"
+            aria-label="Clear search"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        )}
+      </div>
+      {isOpen && (
+        <ul
+          id={listId}
+          role="listbox"
+          aria-label="Search suggestions"
+          className="absolute z-10 mt-1 w-full max-h-64 overflow-y-auto rounded-lg border border-gray-700 bg-gray-800 py-1 shadow-lg"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.query}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => change(suggestion.query)}
+              className={`px-3 py-1.5 text-sm cursor-pointer truncate ${
+                index === activeIndex ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {suggestion.label}
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && (
+        <p id={errorId} role="alert" className="mt-1 text-sm text-red-400">
+          {error.message}
+        </p>
       )}
     </div>
   )
@@ -0,0 +1,58 @@
+import { usePlaybackProgress } from '../context/PlayerContext'
+import { formatDuration } from '../utils/formatDuration'
+
+interface SeekBarProps {
+  disabled: boolean
+  onSeek: (time: number) => void
+}
+
+/**
+ * Elapsed time, buffered ranges and a slider to seek with. Reads progress
+ * from the player itself, so each tick re-renders only this bar.
+ */
+export function SeekBar({ disabled, onSeek }: SeekBarProps) {
+  const { currentTime, duration, buffered } = usePlaybackProgress()
+  const toPercent = (time: number) => (duration > 0 ? (time / duration) * 100 : 0)
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="w-10 text-right text-xs text-gray-400 tabular-nums">
+        {formatDuration(Math.floor(currentTime))}
+      </span>
+      <div className="relative flex-1 h-4 flex items-center">
+        {/* Track with buffered ranges and elapsed progress */}
+        <div className="absolute inset-x-0 h-1 rounded-full bg-gray-700 overflow-hidden">
+          {buffered.map((range) => (
+            <div
+              key={`${range.start}-${range.end}`}
+              className="absolute inset-y-0 bg-gray-500"
+              style={{
+                left: `${toPercent(range.start)}%`,
+                width: `${toPercent(range.end - range.start)}%`,
+              }}
+            />
+          ))}
+          <div
+            className="absolute inset-y-0 left-0 bg-blue-500"
+            style={{ width: `${toPercent(currentTime)}%` }}
+          />
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={1}
+          value={Math.min(currentTime, duration)}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          disabled={disabled}
+          className="relative w-full h-4 opacity-0 cursor-pointer disabled:cursor-not-allowed"
+          aria-label="Seek"
+          aria-valuetext={`${formatDuration(Math.floor(currentTime))} of ${formatDuration(Math.floor(duration))}`}
+        />
+      </div>
+      <span className="w-10 text-xs text-gray-400 tabular-nums">
+        {formatDuration(Math.floor(duration))}
+      </span>
+    </div>
+  )
+}
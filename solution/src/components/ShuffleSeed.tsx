@@ -0,0 +1,109 @@
+import { useId, useState } from 'react'
+
+interface ShuffleSeedProps {
+  // The seed the queue is shuffled with, or null when it isn't shuffled
+  seed: number | null
+  disabled: boolean
+  // Shuffles the queue with a seed someone shared
+  onApply: (seed: number) => void
+}
+
+// Seeds are unsigned 32-bit integers
+const MAX_SEED = 4294967295
+
+function parseSeed(text: string): number | null {
+  if (!/^\d+$/.test(text.trim())) return null
+  const seed = Number(text.trim())
+  return seed <= MAX_SEED ? seed : null
+}
+
+/**
+ * Shows the current shuffle seed so it can be copied and shared, and takes
+ * one to shuffle the queue into the same order
+ */
+export function ShuffleSeed({ seed, disabled, onApply }: ShuffleSeedProps) {
+  const inputId = useId()
+  const errorId = `${inputId}-error`
+  const [draft, setDraft] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  // Which seed the copy status is about, so it clears when the seed changes
+  const [copied, setCopied] = useState<{ seed: number; ok: boolean } | null>(null)
+  const copyStatus = copied && copied.seed === seed ? copied : null
+
+  const copy = async (current: number) => {
+    try {
+      await navigator.clipboard.writeText(String(current))
+      setCopied({ seed: current, ok: true })
+    } catch {
+      setCopied({ seed: current, ok: false })
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const parsed = parseSeed(draft)
+    if (parsed === null) {
+      setError(`Seeds are whole numbers from 0 to ${MAX_SEED}`)
+      return
+    }
+    setError(null)
+    setDraft('')
+    onApply(parsed)
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+      {seed !== null && (
+        <>
+          <span>
+            Seed <code className="text-gray-200 tabular-nums">{seed}</code>
+          </span>
+          <button
+            type="button"
+            onClick={() => void copy(seed)}
+            className="px-2 py-1 rounded hover:bg-gray-700 text-gray-300
+              focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            Copy seed
+          </button>
+          {copyStatus && (
+            <span role="status">
+              {copyStatus.ok ? 'Copied' : 'Could not copy; select the seed instead'}
+            </span>
+          )}
+        </>
+      )}
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <label htmlFor={inputId} className="sr-only">
+          Shuffle seed
+        </label>
+        <input
+          id={inputId}
+          type="text"
+          inputMode="numeric"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Enter a seed"
+          disabled={disabled}
+          aria-invalid={error ? true : undefined}
+          aria-describedby={error ? errorId : undefined}
+          className="w-28 px-2 py-1 rounded bg-gray-800 border border-gray-700 text-gray-200
+            focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !draft.trim()}
+          className="px-2 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600
+            focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Shuffle with seed
+        </button>
+      </form>
+      {error && (
+        <p id={errorId} role="alert" className="w-full text-red-400">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -8,9 +8,12 @@ import { ErrorMessage } from './ErrorMessage'
 import { SearchBar } from './SearchBar'
 import { SongRow } from './SongRow'
 import { AlphabeticalJump } from './AlphabeticalJump'
-import type { Song } from '../types'
+import { DroppedSongsNotice } from './DroppedSongsNotice'
+import type { QueueSource, Song } from '../types'
 
 const ITEM_HEIGHT = 64
+// Until measured
+const HEADER_HEIGHT = 45
 
 type GroupBy = 'none' | 'artist' | 'album'
 
@@ -19,9 +22,10 @@ type ListItem =
   | { type: 'song'; song: Song }
 
 export function SongLibrary() {
-  const { songs, isLoading, error, refetch } = useSongLibrary()
-  const { searchQuery, setSearchQuery, filteredSongs } = useSearch(songs)
-  const { currentSong, playSong, playNext } = usePlayer()
+  const { songs, isLoading, isRefreshing, error, refreshError, dropped, refetch } = useSongLibrary()
+  const { searchQuery, setSearchQuery, filteredSongs, matches, queryError, suggestions } =
+    useSearch(songs)
+  const { currentSong, playSong, playNext, addToQueue } = usePlayer()
   const [groupBy, setGroupBy] = useState<GroupBy>('none')
 
   // Build grouped list items (headers + songs)
@@ -61,6 +65,29 @@ export function SongLibrary() {
     [listItems]
   )
 
+  // Unsearched and ungrouped, the list is the library as it comes
+  const listSource: QueueSource | undefined =
+    filteredSongs === songs && groupBy === 'none' ? { type: 'library' } : undefined
+
+  const estimateSize = useCallback(
+    (index: number) => (listItems[index].type === 'header' ? HEADER_HEIGHT : ITEM_HEIGHT),
+    [listItems]
+  )
+
+  const getItemKey = useCallback(
+    (index: number) => {
+      const item = listItems[index]
+      return item.type === 'header' ? `header-${item.label}` : item.song.id
+    },
+    [listItems]
+  )
+
+  // Group headers stay pinned while their songs scroll past
+  const headerIndices = useMemo(
+    () => listItems.flatMap((item, index) => (item.type === 'header' ? [index] : [])),
+    [listItems]
+  )
+
   const {
     startIndex,
     endIndex,
@@ -69,10 +96,16 @@ export function SongLibrary() {
     onScroll,
     scrollContainerRef,
     scrollToIndex,
+    measureElement,
+    stickyIndex,
+    stickyOffset,
   } = useVirtualScroll({
     itemHeight: ITEM_HEIGHT,
     totalItems: listItems.length,
     bufferCount: 5,
+    estimateSize,
+    getItemKey,
+    stickyIndices: headerIndices,
   })
 
   // Build letter index map and available letters (only when not grouped)
@@ -123,19 +156,41 @@ export function SongLibrary() {
   }
 
   const visibleItems = listItems.slice(startIndex, endIndex + 1)
+  const stickyItem = stickyIndex === null ? null : listItems[stickyIndex]
+
+  const renderHeader = (label: string) => (
+    <div className="flex items-center px-4 py-2 bg-gray-800 border-b border-gray-700">
+      <h3 className="text-lg font-semibold text-white truncate">{label}</h3>
+    </div>
+  )
 
   return (
     <div className="flex flex-col h-full">
       <div className="flex-shrink-0 mb-4">
         <h2 className="text-xl font-bold mb-2">Song Library</h2>
+        <DroppedSongsNotice dropped={dropped} />
         <p className="text-sm text-gray-400 mb-4">
           {filteredSongs.length.toLocaleString()} songs
           {searchQuery && ` matching "${searchQuery}"`}
+          {isRefreshing && <span className="ml-2 text-gray-500">(checking for updates...)</span>}
         </p>
+        {refreshError && (
+          <p role="alert" className="text-sm text-yellow-400 mb-4">
+            Showing the saved library; could not check for updates: {refreshError}{' '}
+            <button
+              onClick={refetch}
+              className="underline hover:text-yellow-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Try again
+            </button>
+          </p>
+        )}
         <SearchBar
           value={searchQuery}
           onChange={setSearchQuery}
-          placeholder="Search by title or artist..."
+          placeholder='Search, or try artist:"name" duration:>300 -live'
+          error={queryError}
+          suggestions={suggestions}
         />
         <div className="flex items-center gap-4 mb-4">
           <span className="text-sm text-gray-400">Group by:</span>
@@ -168,30 +223,36 @@ export function SongLibrary() {
             onScroll={onScroll}
             className="flex-1 overflow-y-auto"
           >
+            {stickyItem?.type === 'header' && (
+              // Takes no space, so the list doesn't move under it; a copy of
+              // the header in the list is already announced
+              <div className="sticky top-0 z-10 h-0" aria-hidden="true">
+                <div style={{ transform: `translateY(${stickyOffset}px)` }}>
+                  {renderHeader(stickyItem.label)}
+                </div>
+              </div>
+            )}
             <div style={{ height: totalHeight, position: 'relative' }}>
               <div style={{ transform: `translateY(${offsetY}px)` }}>
-                {visibleItems.map((item) => {
+                {visibleItems.map((item, i) => {
+                  const index = startIndex + i
                   if (item.type === 'header') {
                     return (
-                      <div
-                        key={`header-${item.label}`}
-                        style={{ height: ITEM_HEIGHT }}
-                        className="flex items-center px-4 bg-gray-800 border-b border-gray-700"
-                      >
-                        <h3 className="text-lg font-semibold text-white truncate">
-                          {item.label}
-                        </h3>
+                      <div key={`header-${item.label}`} ref={measureElement} data-index={index}>
+                        {renderHeader(item.label)}
                       </div>
                     )
                   }
                   return (
-                    <div key={item.song.id} style={{ height: ITEM_HEIGHT }}>
+                    <div key={item.song.id} ref={measureElement} data-index={index}>
                       <SongRow
                         song={item.song}
                         isCurrentSong={currentSong?.id === item.song.id}
-                        onPlay={(s) => playSong(s, songsInList)}
+                        onPlay={(s) => playSong(s, songsInList, listSource)}
                         onPlayNext={playNext}
+                        onAddToQueue={addToQueue}
                         showPlayNext={true}
+                        matches={matches.get(item.song.id)}
                       />
                     </div>
                   )
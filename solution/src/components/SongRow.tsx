@@ -1,13 +1,34 @@
 import { memo } from 'react'
 import type { Song } from '../types'
 import { formatDuration } from '../utils/formatDuration'
+import type { MatchRange, SearchMatches } from '../utils/fuzzySearch'
 
 interface SongRowProps {
   song: Song
   isCurrentSong?: boolean
   onPlay: (song: Song) => void
   onPlayNext?: (song: Song) => void
+  onAddToQueue?: (song: Song) => void
+  onRemove?: (song: Song) => void
   showPlayNext?: boolean
+  // Parts of the title, artist and album to highlight as search matches
+  matches?: SearchMatches
+}
+
+function Highlighted({ text, ranges = [] }: { text: string; ranges?: MatchRange[] }) {
+  const parts: React.ReactNode[] = []
+  let position = 0
+  for (const [start, end] of ranges) {
+    if (start > position) parts.push(text.slice(position, start))
+    parts.push(
+      <mark key={start} className="bg-transparent text-green-400">
+        {text.slice(start, end)}
+      </mark>
+    )
+    position = end
+  }
+  if (position < text.length) parts.push(text.slice(position))
+  return <>{parts}</>
 }
 
 export const SongRow = memo(function SongRow({
@@ -15,7 +36,10 @@ export const SongRow = memo(function SongRow({
   isCurrentSong = false,
   onPlay,
   onPlayNext,
+  onAddToQueue,
+  onRemove,
   showPlayNext = true,
+  matches,
 }: SongRowProps) {
   return (
     <div
@@ -41,8 +65,19 @@ export const SongRow = memo(function SongRow({
         loading="lazy"
       />
       <div className="flex-1 min-w-0">
-        <p className="font-medium truncate">{song.title}</p>
-        <p className="text-sm text-gray-400 truncate">{song.artist}</p>
+        <p className="font-medium truncate">
+          <Highlighted text={song.title} ranges={matches?.title} />
+        </p>
+        <p className="text-sm text-gray-400 truncate">
+          <Highlighted text={song.artist} ranges={matches?.artist} />
+          {/* The album isn't usually shown, but explains a match on it */}
+          {matches?.album && (
+            <>
+              {' · '}
+              <Highlighted text={song.album} ranges={matches.album} />
+            </>
+          )}
+        </p>
       </div>
       <span className="text-sm text-gray-400 flex-shrink-0">
         {formatDuration(song.duration)}
@@ -73,6 +108,58 @@ export const SongRow = memo(function SongRow({
           </svg>
         </button>
       )}
+      {onAddToQueue && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            onAddToQueue(song)
+          }}
+          className="p-2 rounded-full hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 flex-shrink-0"
+          aria-label={`Add ${song.title} to end of queue`}
+          title="Add to Queue"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-5 w-5"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M4 6h12M4 12h12M4 18h7m6-3v6m-3-3h6"
+            />
+          </svg>
+        </button>
+      )}
+      {onRemove && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            onRemove(song)
+          }}
+          className="p-2 rounded-full hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 flex-shrink-0"
+          aria-label={`Remove ${song.title} from playlist`}
+          title="Remove from Playlist"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-5 w-5"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      )}
     </div>
   )
 })
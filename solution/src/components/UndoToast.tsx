@@ -0,0 +1,45 @@
+interface UndoToastProps {
+  message: string
+  onUndo: () => void
+  onDismiss: () => void
+}
+
+export function UndoToast({ message, onUndo, onDismiss }: UndoToastProps) {
+  return (
+    <div
+      role="status"
+      className="flex items-center justify-between gap-4 px-4 py-2 mt-2 rounded-lg bg-gray-800 border border-gray-700 shadow-lg"
+    >
+      <p className="text-sm text-gray-200">{message}</p>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onUndo}
+          className="px-3 py-1 text-sm font-medium rounded text-blue-400 hover:bg-gray-700
+            focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          Undo
+        </button>
+        <button
+          onClick={onDismiss}
+          className="p-1 rounded text-gray-400 hover:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Dismiss"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-4 w-4"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { useState } from 'react'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { Queue } from '../Queue'
+import type { Song } from '../../types'
+
+describe('Queue', () => {
+  const songs: Song[] = ['A', 'B', 'C'].map((letter, i) => ({
+    id: String(i + 1),
+    title: `Song ${letter}`,
+    artist: `Artist ${letter}`,
+    album: `Album ${letter}`,
+    albumArt: `art-${letter.toLowerCase()}.jpg`,
+    duration: 180 + i * 20,
+  }))
+
+  beforeEach(() => {
+    // jsdom has no layout, so the list is never resized
+    vi.stubGlobal(
+      'ResizeObserver',
+      class {
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+      }
+    )
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  // Applies moves the way the player does, so the list re-renders
+  function MovableQueue() {
+    const [queue, setQueue] = useState(songs)
+    const move = (fromIndex: number, toIndex: number) => {
+      const next = [...queue]
+      next.splice(toIndex, 0, ...next.splice(fromIndex, 1))
+      setQueue(next)
+    }
+    return (
+      <Queue
+        queue={queue}
+        currentSong={null}
+        onPlaySong={vi.fn()}
+        onRemove={vi.fn()}
+        onMove={move}
+        onClear={vi.fn()}
+      />
+    )
+  }
+
+  it('keeps focus on a song moved with the keyboard', async () => {
+    const user = userEvent.setup()
+    render(<MovableQueue />)
+
+    screen.getByRole('button', { name: 'Play Song A by Artist A' }).focus()
+    await user.keyboard('{Alt>}{ArrowDown}{/Alt}')
+
+    const rows = screen.getAllByRole('button', { name: /^Play / })
+    expect(rows.map((row) => row.getAttribute('aria-label'))).toEqual([
+      'Play Song B by Artist B',
+      'Play Song A by Artist A',
+      'Play Song C by Artist C',
+    ])
+    expect(rows[1]).toHaveFocus()
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { SearchBar } from '../SearchBar'
+
+describe('SearchBar', () => {
+  const suggestions = [
+    { label: 'artist:', query: 'artist:' },
+    { label: 'album:', query: 'album:' },
+  ]
+
+  it('lets Tab move focus on when no suggestion is picked', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(<SearchBar value="a" onChange={onChange} suggestions={suggestions} />)
+
+    await user.click(screen.getByLabelText('Search songs'))
+    await user.tab()
+
+    expect(screen.getByRole('button', { name: 'Clear search' })).toHaveFocus()
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('takes the picked suggestion on Tab or Enter', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(<SearchBar value="a" onChange={onChange} suggestions={suggestions} />)
+
+    await user.click(screen.getByLabelText('Search songs'))
+    await user.keyboard('{ArrowDown}{ArrowDown}{Tab}')
+    await user.keyboard('{ArrowDown}{Enter}')
+
+    expect(onChange.mock.calls).toEqual([['album:'], ['artist:']])
+    expect(screen.getByLabelText('Search songs')).toHaveFocus()
+  })
+})
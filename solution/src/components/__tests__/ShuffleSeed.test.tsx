@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ShuffleSeed } from '../ShuffleSeed'
+
+describe('ShuffleSeed', () => {
+  it('shows the seed and copies it', async () => {
+    // setup() swaps in a clipboard the test can read back
+    const user = userEvent.setup()
+    render(<ShuffleSeed seed={123456} disabled={false} onApply={vi.fn()} />)
+
+    expect(screen.getByText('123456')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: 'Copy seed' }))
+
+    expect(await navigator.clipboard.readText()).toBe('123456')
+    expect(screen.getByRole('status')).toHaveTextContent('Copied')
+  })
+
+  it('says so when the seed could not be copied', async () => {
+    const user = userEvent.setup()
+    vi.spyOn(navigator.clipboard, 'writeText').mockRejectedValue(new Error('Denied'))
+    render(<ShuffleSeed seed={1} disabled={false} onApply={vi.fn()} />)
+
+    await user.click(screen.getByRole('button', { name: 'Copy seed' }))
+
+    expect(screen.getByRole('status')).toHaveTextContent('Could not copy')
+  })
+
+  it('hides the seed when the queue is not shuffled', () => {
+    render(<ShuffleSeed seed={null} disabled={false} onApply={vi.fn()} />)
+
+    expect(screen.queryByRole('button', { name: 'Copy seed' })).not.toBeInTheDocument()
+  })
+
+  it('shuffles with a seed that was entered', async () => {
+    const user = userEvent.setup()
+    const onApply = vi.fn()
+    render(<ShuffleSeed seed={null} disabled={false} onApply={onApply} />)
+
+    await user.type(screen.getByLabelText('Shuffle seed'), ' 42{Enter}')
+
+    expect(onApply).toHaveBeenCalledWith(42)
+    expect(screen.getByLabelText('Shuffle seed')).toHaveValue('')
+  })
+
+  it('rejects a seed that is not a 32-bit whole number', async () => {
+    const user = userEvent.setup()
+    const onApply = vi.fn()
+    render(<ShuffleSeed seed={null} disabled={false} onApply={onApply} />)
+
+    await user.type(screen.getByLabelText('Shuffle seed'), '4294967296')
+    await user.click(screen.getByRole('button', { name: 'Shuffle with seed' }))
+
+    expect(onApply).not.toHaveBeenCalled()
+    expect(screen.getByRole('alert')).toHaveTextContent('whole numbers from 0 to 4294967295')
+    expect(screen.getByLabelText('Shuffle seed')).toHaveAttribute('aria-invalid', 'true')
+  })
+
+  it('takes no seed while there is nothing to shuffle', () => {
+    render(<ShuffleSeed seed={null} disabled={true} onApply={vi.fn()} />)
+
+    expect(screen.getByLabelText('Shuffle seed')).toBeDisabled()
+  })
+})
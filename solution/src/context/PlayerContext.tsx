@@ -1,28 +1,243 @@
-import { createContext, useContext, type ReactNode } from 'react'
+import {
+  createContext,
+  useContext,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type Dispatch,
+  type ReactNode,
+} from 'react'
 import { useQueue } from '../hooks/useQueue'
-import type { Song } from '../types'
+import { usePlayback, type BufferedRange } from '../hooks/usePlayback'
+import { usePlayerPersistence } from '../hooks/usePlayerPersistence'
+import { useMediaSession } from '../hooks/useMediaSession'
+import type { UndoablePlayerAction } from './undoablePlayerReducer'
+import { loadCrossfadeDuration, saveCrossfadeDuration } from '../utils/playerSettings'
+import { getStreamUrl } from '../utils/streamUrl'
+import type { QueueSource, RepeatMode, ShuffleStrategy, Song } from '../types'
 
 interface PlayerContextValue {
   currentSong: Song | null
   queue: Song[]
+  history: Song[]
   isShuffled: boolean
-  playSong: (song: Song, sourceSongs: Song[]) => void
+  shuffleStrategy: ShuffleStrategy
+  shuffleSeed: number | null
+  repeatMode: RepeatMode
+  dispatch: Dispatch<UndoablePlayerAction>
+  canUndo: boolean
+  canRedo: boolean
+  queueReplacements: number
+  // source names sourceSongs when it's the library or a playlist, so a
+  // saved session needn't list them
+  playSong: (song: Song, sourceSongs: Song[], source?: QueueSource) => void
   playNext: (song: Song) => void
+  addToQueue: (song: Song) => void
+  removeFromQueue: (index: number) => void
+  moveInQueue: (fromIndex: number, toIndex: number) => void
+  clearQueue: () => void
+  next: () => void
+  previous: () => void
+  trackEnded: () => void
   toggleShuffle: () => void
+  shuffleWithSeed: (seed: number) => void
+  setShuffleStrategy: (strategy: ShuffleStrategy) => void
+  cycleRepeatMode: () => void
+  undo: () => void
+  redo: () => void
+  isPlaying: boolean
+  play: () => void
+  pause: () => void
+  togglePlay: () => void
+  seek: (time: number) => void
+  crossfadeDuration: number
+  setCrossfadeDuration: (seconds: number) => void
 }
 
+// Changes several times a second while playing, so it has its own context
+// and only the components that show it re-render
+interface PlaybackProgressValue {
+  currentTime: number
+  duration: number
+  buffered: BufferedRange[]
+}
+
+// Pressing previous past this point (or with no history) restarts the
+// current song instead of going back
+const RESTART_THRESHOLD_SECONDS = 3
+
 const PlayerContext = createContext<PlayerContextValue | null>(null)
+const PlaybackProgressContext = createContext<PlaybackProgressValue | null>(null)
 
 interface PlayerProviderProps {
   children: ReactNode
+  // Where a song's audio is loaded from; without it nothing is loaded
+  getSource?: (song: Song) => string
 }
 
-export function PlayerProvider({ children }: PlayerProviderProps) {
+export function PlayerProvider({ children, getSource = getStreamUrl }: PlayerProviderProps) {
   const queueState = useQueue()
+  const [crossfadeDuration, setCrossfadeDuration] = useState(loadCrossfadeDuration)
+  const playbackState = usePlayback({
+    song: queueState.currentSong,
+    nextSong: queueState.queue[0] ?? null,
+    onEnded: queueState.trackEnded,
+    getSource,
+    loop: queueState.repeatMode === 'one',
+    crossfadeDuration,
+  })
+
+  useEffect(() => {
+    saveCrossfadeDuration(crossfadeDuration)
+  }, [crossfadeDuration])
+
+  usePlayerPersistence({
+    queueState,
+    restoreQueue: queueState.restoreQueue,
+    currentTime: playbackState.currentTime,
+    cue: playbackState.cue,
+  })
+
+  const {
+    currentSong,
+    queue,
+    history,
+    isShuffled,
+    shuffleStrategy,
+    shuffleSeed,
+    repeatMode,
+    dispatch,
+    canUndo,
+    canRedo,
+    queueReplacements,
+    playSong,
+    playNext,
+    addToQueue,
+    removeFromQueue,
+    moveInQueue,
+    clearQueue,
+    next,
+    previous: previousInQueue,
+    trackEnded,
+    toggleShuffle,
+    shuffleWithSeed,
+    setShuffleStrategy,
+    cycleRepeatMode,
+    undo,
+    redo,
+  } = queueState
+  const { isPlaying, currentTime, duration, buffered, play, pause, togglePlay, seek } =
+    playbackState
+
+  // Read when previous is pressed, so previous needn't change on every tick
+  const currentTimeRef = useRef(currentTime)
+  useEffect(() => {
+    currentTimeRef.current = currentTime
+  }, [currentTime])
+
+  const previous = useCallback(() => {
+    if (currentTimeRef.current > RESTART_THRESHOLD_SECONDS || history.length === 0) {
+      seek(0)
+    } else {
+      previousInQueue()
+    }
+  }, [history.length, seek, previousInQueue])
+
+  useMediaSession({
+    song: currentSong,
+    isPlaying,
+    currentTime,
+    duration,
+    play,
+    pause,
+    next,
+    previous,
+    seek,
+  })
+
+  const player = useMemo(
+    () => ({
+      currentSong,
+      queue,
+      history,
+      isShuffled,
+      shuffleStrategy,
+      shuffleSeed,
+      repeatMode,
+      dispatch,
+      canUndo,
+      canRedo,
+      queueReplacements,
+      playSong,
+      playNext,
+      addToQueue,
+      removeFromQueue,
+      moveInQueue,
+      clearQueue,
+      next,
+      previous,
+      trackEnded,
+      toggleShuffle,
+      shuffleWithSeed,
+      setShuffleStrategy,
+      cycleRepeatMode,
+      undo,
+      redo,
+      isPlaying,
+      play,
+      pause,
+      togglePlay,
+      seek,
+      crossfadeDuration,
+      setCrossfadeDuration,
+    }),
+    [
+      currentSong,
+      queue,
+      history,
+      isShuffled,
+      shuffleStrategy,
+      shuffleSeed,
+      repeatMode,
+      dispatch,
+      canUndo,
+      canRedo,
+      queueReplacements,
+      playSong,
+      playNext,
+      addToQueue,
+      removeFromQueue,
+      moveInQueue,
+      clearQueue,
+      next,
+      previous,
+      trackEnded,
+      toggleShuffle,
+      shuffleWithSeed,
+      setShuffleStrategy,
+      cycleRepeatMode,
+      undo,
+      redo,
+      isPlaying,
+      play,
+      pause,
+      togglePlay,
+      seek,
+      crossfadeDuration,
+    ]
+  )
+  const progress = useMemo(
+    () => ({ currentTime, duration, buffered }),
+    [currentTime, duration, buffered]
+  )
 
   return (
-    <PlayerContext.Provider value={queueState}>
-      {children}
+    <PlayerContext.Provider value={player}>
+      <PlaybackProgressContext.Provider value={progress}>
+        {children}
+      </PlaybackProgressContext.Provider>
     </PlayerContext.Provider>
   )
 }
@@ -34,3 +249,11 @@ export function usePlayer(): PlayerContextValue {
   }
   return context
 }
+
+export function usePlaybackProgress(): PlaybackProgressValue {
+  const context = useContext(PlaybackProgressContext)
+  if (!context) {
+    throw new Error('usePlaybackProgress must be used within a PlayerProvider')
+  }
+  return context
+}
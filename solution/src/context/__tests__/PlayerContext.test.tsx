@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { renderHook, act, cleanup } from '@testing-library/react'
+import type { ReactNode } from 'react'
+import { PlayerProvider, usePlaybackProgress, usePlayer } from '../PlayerContext'
+import type { Song } from '../../types'
+
+describe('PlayerContext media session', () => {
+  const songs: Song[] = ['A', 'B', 'C'].map((letter, i) => ({
+    id: String(i + 1),
+    title: `Song ${letter}`,
+    artist: `Artist ${letter}`,
+    album: `Album ${letter}`,
+    albumArt: `/api/art/artist-${letter.toLowerCase()}--album-${letter.toLowerCase()}.svg`,
+    duration: 180 + i * 20,
+  }))
+
+  // Stand-in for the browser's MediaMetadata, which jsdom lacks
+  class MockMediaMetadata {
+    title: string
+    artist: string
+    album: string
+    artwork: MediaImage[]
+
+    constructor(init: MediaMetadataInit) {
+      this.title = init.title ?? ''
+      this.artist = init.artist ?? ''
+      this.album = init.album ?? ''
+      this.artwork = init.artwork ?? []
+    }
+  }
+
+  let handlers: Map<MediaSessionAction, MediaSessionActionHandler>
+  let mediaSession: {
+    metadata: MockMediaMetadata | null
+    playbackState: MediaSessionPlaybackState
+    setActionHandler: ReturnType<typeof vi.fn>
+    setPositionState: ReturnType<typeof vi.fn>
+  }
+
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <PlayerProvider getSource={(song) => `/audio/${song.id}.wav`}>{children}</PlayerProvider>
+  )
+
+  beforeEach(() => {
+    localStorage.clear()
+    handlers = new Map()
+    mediaSession = {
+      metadata: null,
+      playbackState: 'none',
+      setActionHandler: vi.fn((action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+        if (handler) {
+          handlers.set(action, handler)
+        } else {
+          handlers.delete(action)
+        }
+      }),
+      setPositionState: vi.fn(),
+    }
+    Object.defineProperty(navigator, 'mediaSession', { configurable: true, value: mediaSession })
+    vi.stubGlobal('MediaMetadata', MockMediaMetadata)
+
+    // jsdom does not implement media playback
+    vi.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(function (
+      this: HTMLMediaElement
+    ) {
+      Object.defineProperty(this, 'paused', { configurable: true, value: false })
+      this.dispatchEvent(new Event('play'))
+      return Promise.resolve()
+    })
+    vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(function (
+      this: HTMLMediaElement
+    ) {
+      Object.defineProperty(this, 'paused', { configurable: true, value: true })
+      this.dispatchEvent(new Event('pause'))
+    })
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+    Reflect.deleteProperty(navigator, 'mediaSession')
+  })
+
+  it('registers transport handlers', () => {
+    renderHook(() => usePlayer(), { wrapper })
+
+    expect([...handlers.keys()]).toEqual(
+      expect.arrayContaining(['play', 'pause', 'nexttrack', 'previoustrack', 'seekto'])
+    )
+  })
+
+  it('publishes metadata for the current song', () => {
+    const { result } = renderHook(() => usePlayer(), { wrapper })
+
+    act(() => {
+      result.current.playSong(songs[0], songs)
+    })
+
+    expect(mediaSession.metadata).toEqual({
+      title: 'Song A',
+      artist: 'Artist A',
+      album: 'Album A',
+      artwork: [96, 256, 512].map((size) => ({
+        src: `/api/art/artist-a--album-a.png?size=${size}`,
+        sizes: `${size}x${size}`,
+        type: 'image/png',
+      })),
+    })
+    expect(mediaSession.playbackState).toBe('playing')
+
+    act(() => {
+      result.current.next()
+    })
+
+    expect(mediaSession.metadata?.title).toBe('Song B')
+  })
+
+  it('routes OS controls into the player', () => {
+    const { result } = renderHook(() => ({ ...usePlayer(), ...usePlaybackProgress() }), {
+      wrapper,
+    })
+
+    act(() => {
+      result.current.playSong(songs[0], songs)
+    })
+
+    act(() => {
+      handlers.get('nexttrack')!({ action: 'nexttrack' })
+    })
+    expect(result.current.currentSong).toEqual(songs[1])
+
+    act(() => {
+      handlers.get('pause')!({ action: 'pause' })
+    })
+    expect(result.current.isPlaying).toBe(false)
+    expect(mediaSession.playbackState).toBe('paused')
+
+    act(() => {
+      handlers.get('play')!({ action: 'play' })
+    })
+    expect(result.current.isPlaying).toBe(true)
+
+    act(() => {
+      handlers.get('seekto')!({ action: 'seekto', seekTime: 42 })
+    })
+    expect(result.current.currentTime).toBe(42)
+
+    // Past the restart threshold, previous restarts the song
+    act(() => {
+      handlers.get('previoustrack')!({ action: 'previoustrack' })
+    })
+    expect(result.current.currentSong).toEqual(songs[1])
+    expect(result.current.currentTime).toBe(0)
+
+    act(() => {
+      handlers.get('previoustrack')!({ action: 'previoustrack' })
+    })
+    expect(result.current.currentSong).toEqual(songs[0])
+  })
+
+  it('keeps the player value when only playback progress changes', () => {
+    const { result } = renderHook(
+      () => ({ player: usePlayer(), progress: usePlaybackProgress() }),
+      { wrapper }
+    )
+    act(() => {
+      result.current.player.playSong(songs[0], songs)
+    })
+    const player = result.current.player
+
+    act(() => {
+      player.seek(42)
+    })
+
+    expect(result.current.progress.currentTime).toBe(42)
+    expect(result.current.player).toBe(player)
+  })
+
+  it('clears the handlers on unmount', () => {
+    const { unmount } = renderHook(() => usePlayer(), { wrapper })
+
+    unmount()
+
+    expect(handlers.size).toBe(0)
+  })
+})
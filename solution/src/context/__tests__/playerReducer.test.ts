@@ -0,0 +1,291 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { playerReducer, initialPlayerState, type PlayerState } from '../playerReducer'
+import { shuffle } from '../../utils/shuffle'
+import type { Song } from '../../types'
+
+// Mock the shuffle function
+vi.mock('../../utils/shuffle', () => ({
+  shuffle: vi.fn((array) => [...array].reverse()), // Simple mock: just reverse for predictability
+}))
+
+describe('playerReducer', () => {
+  const [A, B, C, D, E]: Song[] = ['A', 'B', 'C', 'D', 'E'].map((letter, i) => ({
+    id: String(i + 1),
+    title: `Song ${letter}`,
+    artist: `Artist ${letter}`,
+    album: `Album ${letter}`,
+    albumArt: `art-${letter.toLowerCase()}.jpg`,
+    duration: 180 + i * 20,
+  }))
+  const songs = [A, B, C, D, E]
+
+  const playing = (song: Song, overrides: Partial<PlayerState> = {}): PlayerState =>
+    ({
+      ...playerReducer(initialPlayerState, { type: 'PLAY_FROM_SOURCE', song, sourceSongs: songs }),
+      ...overrides,
+    })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('PLAY_FROM_SOURCE', () => {
+    it('plays the song and queues the songs after it', () => {
+      const state = playing(C)
+
+      expect(state.currentSong).toEqual(C)
+      expect(state.queue).toEqual([D, E])
+      expect(state.originalQueue).toEqual([D, E])
+      expect(state.sourceSongs).toEqual(songs)
+      expect(state.source).toBeNull()
+    })
+
+    it('names the source it was given until another list is played', () => {
+      const fromPlaylist = playerReducer(initialPlayerState, {
+        type: 'PLAY_FROM_SOURCE',
+        song: A,
+        sourceSongs: songs,
+        source: { type: 'playlist', id: '1' },
+      })
+      const fromQueue = playerReducer(fromPlaylist, {
+        type: 'PLAY_FROM_SOURCE',
+        song: C,
+        sourceSongs: [C, D],
+      })
+
+      expect(fromPlaylist.source).toEqual({ type: 'playlist', id: '1' })
+      expect(fromQueue.source).toBeNull()
+    })
+
+    it('resets shuffle and records the previous song in history', () => {
+      const shuffled = playerReducer(playing(A), { type: 'TOGGLE_SHUFFLE', seed: 1 })
+      const state = playerReducer(shuffled, {
+        type: 'PLAY_FROM_SOURCE',
+        song: D,
+        sourceSongs: songs,
+      })
+
+      expect(state.isShuffled).toBe(false)
+      expect(state.history).toEqual([A])
+      expect(state.queue).toEqual([E])
+    })
+
+    it('does not mutate the previous state', () => {
+      const before = playing(A)
+      const snapshot = structuredClone(before)
+
+      playerReducer(before, { type: 'PLAY_FROM_SOURCE', song: C, sourceSongs: songs })
+
+      expect(before).toEqual(snapshot)
+    })
+  })
+
+  describe('PLAY_NEXT and ADD_TO_QUEUE', () => {
+    it('inserts at the front of both orders', () => {
+      const state = playerReducer(playing(C), { type: 'PLAY_NEXT', song: B })
+
+      expect(state.queue).toEqual([B, D, E])
+      expect(state.originalQueue).toEqual([B, D, E])
+    })
+
+    it('appends to the end of both orders', () => {
+      const state = playerReducer(playing(C), { type: 'ADD_TO_QUEUE', song: A })
+
+      expect(state.queue).toEqual([D, E, A])
+      expect(state.originalQueue).toEqual([D, E, A])
+    })
+
+    it('keeps a play-next song when un-shuffling', () => {
+      let state = playerReducer(playing(A), { type: 'TOGGLE_SHUFFLE', seed: 1 })
+      state = playerReducer(state, { type: 'PLAY_NEXT', song: E })
+      state = playerReducer(state, { type: 'TOGGLE_SHUFFLE', seed: 1 })
+
+      expect(state.queue).toEqual([E, B, C, D, E])
+    })
+  })
+
+  describe('REMOVE_FROM_QUEUE, MOVE_IN_QUEUE and CLEAR_QUEUE', () => {
+    it('removes from both orders', () => {
+      const state = playerReducer(playing(A), { type: 'REMOVE_FROM_QUEUE', index: 1 })
+
+      expect(state.queue).toEqual([B, D, E])
+      expect(state.originalQueue).toEqual([B, D, E])
+    })
+
+    it('returns the same state for an invalid index', () => {
+      const before = playing(A)
+
+      expect(playerReducer(before, { type: 'REMOVE_FROM_QUEUE', index: 10 })).toBe(before)
+      expect(playerReducer(before, { type: 'MOVE_IN_QUEUE', fromIndex: 0, toIndex: 10 })).toBe(
+        before
+      )
+    })
+
+    it('mirrors moves into the original order only when unshuffled', () => {
+      const moved = playerReducer(playing(A), { type: 'MOVE_IN_QUEUE', fromIndex: 3, toIndex: 0 })
+      expect(moved.queue).toEqual([E, B, C, D])
+      expect(moved.originalQueue).toEqual([E, B, C, D])
+
+      const shuffled = playerReducer(playing(A), { type: 'TOGGLE_SHUFFLE', seed: 1 })
+      const movedWhileShuffled = playerReducer(shuffled, {
+        type: 'MOVE_IN_QUEUE',
+        fromIndex: 0,
+        toIndex: 3,
+      })
+      expect(movedWhileShuffled.queue).toEqual([D, C, B, E])
+      expect(movedWhileShuffled.originalQueue).toEqual([B, C, D, E])
+    })
+
+    it('clears both orders but keeps the current song', () => {
+      const state = playerReducer(playing(A), { type: 'CLEAR_QUEUE' })
+
+      expect(state.currentSong).toEqual(A)
+      expect(state.queue).toEqual([])
+      expect(state.originalQueue).toEqual([])
+    })
+  })
+
+  describe('NEXT and PREVIOUS', () => {
+    it('advances and records history', () => {
+      const state = playerReducer(playing(C), { type: 'NEXT' })
+
+      expect(state.currentSong).toEqual(D)
+      expect(state.queue).toEqual([E])
+      expect(state.history).toEqual([C])
+    })
+
+    it('returns the same state at the end of the queue with repeat off', () => {
+      const before = playing(E)
+
+      expect(playerReducer(before, { type: 'NEXT' })).toBe(before)
+    })
+
+    it('goes back and requeues the current song', () => {
+      let state = playerReducer(playing(C), { type: 'NEXT' })
+      state = playerReducer(state, { type: 'PREVIOUS' })
+
+      expect(state.currentSong).toEqual(C)
+      expect(state.queue).toEqual([D, E])
+      expect(state.originalQueue).toEqual([D, E])
+      expect(state.history).toEqual([])
+    })
+
+    it('returns the same state with no history', () => {
+      const before = playing(C)
+
+      expect(playerReducer(before, { type: 'PREVIOUS' })).toBe(before)
+    })
+  })
+
+  describe('TRACK_ENDED and repeat modes', () => {
+    it('cycles repeat mode off -> all -> one -> off', () => {
+      let state = initialPlayerState
+      const modes = []
+      for (let i = 0; i < 3; i++) {
+        state = playerReducer(state, { type: 'CYCLE_REPEAT_MODE' })
+        modes.push(state.repeatMode)
+      }
+
+      expect(modes).toEqual(['all', 'one', 'off'])
+    })
+
+    it('advances like NEXT when repeat is off', () => {
+      const state = playerReducer(playing(C), { type: 'TRACK_ENDED' })
+
+      expect(state.currentSong).toEqual(D)
+    })
+
+    it('keeps the current song under repeat-one', () => {
+      const before = playing(C, { repeatMode: 'one' })
+
+      expect(playerReducer(before, { type: 'TRACK_ENDED' })).toBe(before)
+    })
+
+    it('recycles the source list under repeat-all', () => {
+      const state = playerReducer(playing(E, { repeatMode: 'all' }), { type: 'TRACK_ENDED' })
+
+      expect(state.currentSong).toEqual(A)
+      expect(state.queue).toEqual([B, C, D, E])
+      expect(state.history).toEqual([E])
+    })
+
+    it('reshuffles the source list under repeat-all with shuffle on', () => {
+      const state = playerReducer(playing(E, { repeatMode: 'all', isShuffled: true }), {
+        type: 'TRACK_ENDED',
+      })
+
+      expect(shuffle).toHaveBeenCalledWith(songs, expect.any(Function))
+      expect(state.currentSong).toEqual(E)
+      expect(state.queue).toEqual([D, C, B, A])
+      expect(state.originalQueue).toEqual([A, B, C, D])
+    })
+  })
+
+  describe('TOGGLE_SHUFFLE', () => {
+    it('shuffles the queue and restores the original order', () => {
+      const shuffled = playerReducer(playing(A), { type: 'TOGGLE_SHUFFLE', seed: 1 })
+
+      expect(shuffled.isShuffled).toBe(true)
+      expect(shuffled.queue).toEqual([E, D, C, B])
+      expect(shuffled.currentSong).toEqual(A)
+
+      const restored = playerReducer(shuffled, { type: 'TOGGLE_SHUFFLE', seed: 1 })
+
+      expect(restored.isShuffled).toBe(false)
+      expect(restored.queue).toEqual([B, C, D, E])
+    })
+
+    it('records the seed the queue was shuffled with', () => {
+      const shuffled = playerReducer(playing(A), { type: 'TOGGLE_SHUFFLE', seed: 42 })
+
+      expect(shuffled.shuffleSeed).toBe(42)
+      expect(playerReducer(shuffled, { type: 'TOGGLE_SHUFFLE', seed: 7 }).shuffleSeed).toBeNull()
+    })
+  })
+
+  describe('SHUFFLE_WITH_SEED', () => {
+    it('reshuffles from the original order', () => {
+      const shuffled = playerReducer(playing(A), { type: 'TOGGLE_SHUFFLE', seed: 1 })
+      const reshuffled = playerReducer(shuffled, { type: 'SHUFFLE_WITH_SEED', seed: 99 })
+
+      expect(shuffle).toHaveBeenLastCalledWith([B, C, D, E], expect.any(Function))
+      expect(reshuffled.isShuffled).toBe(true)
+      expect(reshuffled.shuffleSeed).toBe(99)
+      expect(reshuffled.originalQueue).toEqual([B, C, D, E])
+    })
+  })
+
+  describe('SET_SHUFFLE_STRATEGY', () => {
+    it('switches strategy without shuffling when shuffle is off', () => {
+      const state = playerReducer(playing(A), { type: 'SET_SHUFFLE_STRATEGY', strategy: 'smart' })
+
+      expect(state.shuffleStrategy).toBe('smart')
+      expect(state.queue).toEqual([B, C, D, E])
+      expect(shuffle).not.toHaveBeenCalled()
+    })
+
+    it('reshuffles with the same seed when shuffle is on', () => {
+      const shuffled = playerReducer(playing(A), { type: 'TOGGLE_SHUFFLE', seed: 5 })
+      const smart = playerReducer(shuffled, { type: 'SET_SHUFFLE_STRATEGY', strategy: 'smart' })
+
+      expect(smart.shuffleStrategy).toBe('smart')
+      expect(smart.shuffleSeed).toBe(5)
+      expect(smart.queue).toHaveLength(4)
+      expect(smart.queue).toEqual(expect.arrayContaining([B, C, D, E]))
+    })
+
+    it('returns the same state when the strategy is unchanged', () => {
+      const state = playing(A)
+
+      expect(playerReducer(state, { type: 'SET_SHUFFLE_STRATEGY', strategy: 'random' })).toBe(state)
+    })
+  })
+
+  describe('RESTORE', () => {
+    it('replaces the whole state', () => {
+      const restored = playing(B, { repeatMode: 'one' })
+
+      expect(playerReducer(playing(A), { type: 'RESTORE', state: restored })).toBe(restored)
+    })
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  undoablePlayerReducer,
+  initialUndoablePlayerState,
+  type UndoablePlayerAction,
+  type UndoablePlayerState,
+} from '../undoablePlayerReducer'
+import type { Song } from '../../types'
+
+// Mock the shuffle function
+vi.mock('../../utils/shuffle', () => ({
+  shuffle: vi.fn((array) => [...array].reverse()), // Simple mock: just reverse for predictability
+}))
+
+describe('undoablePlayerReducer', () => {
+  const [A, B, C, D]: Song[] = ['A', 'B', 'C', 'D'].map((letter, i) => ({
+    id: String(i + 1),
+    title: `Song ${letter}`,
+    artist: `Artist ${letter}`,
+    album: `Album ${letter}`,
+    albumArt: `art-${letter.toLowerCase()}.jpg`,
+    duration: 180 + i * 20,
+  }))
+  const songs = [A, B, C, D]
+
+  const run = (...actions: UndoablePlayerAction[]): UndoablePlayerState =>
+    actions.reduce(undoablePlayerReducer, initialUndoablePlayerState)
+
+  it('undoes and redoes playing from a source', () => {
+    const played = run(
+      { type: 'PLAY_FROM_SOURCE', song: A, sourceSongs: songs },
+      { type: 'PLAY_FROM_SOURCE', song: C, sourceSongs: songs }
+    )
+    expect(played.present.currentSong).toEqual(C)
+
+    const undone = undoablePlayerReducer(played, { type: 'UNDO' })
+    expect(undone.present.currentSong).toEqual(A)
+    expect(undone.present.queue).toEqual([B, C, D])
+
+    const redone = undoablePlayerReducer(undone, { type: 'REDO' })
+    expect(redone.present).toEqual(played.present)
+  })
+
+  it('undoes queue edits and shuffle', () => {
+    const start = run({ type: 'PLAY_FROM_SOURCE', song: A, sourceSongs: songs })
+    const actions: UndoablePlayerAction[] = [
+      { type: 'PLAY_NEXT', song: D },
+      { type: 'ADD_TO_QUEUE', song: A },
+      { type: 'REMOVE_FROM_QUEUE', index: 1 },
+      { type: 'MOVE_IN_QUEUE', fromIndex: 0, toIndex: 1 },
+      { type: 'TOGGLE_SHUFFLE', seed: 1 },
+      { type: 'CLEAR_QUEUE' },
+    ]
+
+    for (const action of actions) {
+      const edited = undoablePlayerReducer(start, action)
+      expect(edited.present).not.toEqual(start.present)
+      expect(undoablePlayerReducer(edited, { type: 'UNDO' }).present).toEqual(start.present)
+    }
+  })
+
+  it('clears the redo stack after a new edit', () => {
+    const undone = run(
+      { type: 'PLAY_FROM_SOURCE', song: A, sourceSongs: songs },
+      { type: 'CLEAR_QUEUE' },
+      { type: 'UNDO' }
+    )
+    expect(undone.future).toHaveLength(1)
+
+    const edited = undoablePlayerReducer(undone, { type: 'PLAY_NEXT', song: D })
+    expect(edited.future).toEqual([])
+  })
+
+  it('ignores undo and redo with nothing to apply', () => {
+    expect(undoablePlayerReducer(initialUndoablePlayerState, { type: 'UNDO' })).toBe(
+      initialUndoablePlayerState
+    )
+    expect(undoablePlayerReducer(initialUndoablePlayerState, { type: 'REDO' })).toBe(
+      initialUndoablePlayerState
+    )
+  })
+
+  it('starts a fresh history when playback moves on', () => {
+    const advanced = run(
+      { type: 'PLAY_FROM_SOURCE', song: A, sourceSongs: songs },
+      { type: 'PLAY_NEXT', song: D },
+      { type: 'NEXT' }
+    )
+
+    expect(advanced.present.currentSong).toEqual(D)
+    expect(advanced.past).toEqual([])
+  })
+
+  it('does not record no-op edits', () => {
+    const start = run({ type: 'PLAY_FROM_SOURCE', song: A, sourceSongs: songs })
+    const state = undoablePlayerReducer(start, { type: 'REMOVE_FROM_QUEUE', index: 99 })
+
+    expect(state).toBe(start)
+  })
+
+  it('keeps repeat mode when undoing', () => {
+    const state = run(
+      { type: 'PLAY_FROM_SOURCE', song: A, sourceSongs: songs },
+      { type: 'CLEAR_QUEUE' },
+      { type: 'CYCLE_REPEAT_MODE' },
+      { type: 'UNDO' }
+    )
+
+    expect(state.present.repeatMode).toBe('all')
+    expect(state.present.queue).toEqual([B, C, D])
+  })
+
+  it('counts only plays that replace an existing session', () => {
+    const first = run({ type: 'PLAY_FROM_SOURCE', song: A, sourceSongs: songs })
+    expect(first.queueReplacements).toBe(0)
+
+    const second = undoablePlayerReducer(first, {
+      type: 'PLAY_FROM_SOURCE',
+      song: B,
+      sourceSongs: songs,
+    })
+    expect(second.queueReplacements).toBe(1)
+  })
+
+  it('limits how many steps are kept', () => {
+    let state = run({ type: 'PLAY_FROM_SOURCE', song: A, sourceSongs: songs })
+    for (let i = 0; i < 60; i++) {
+      state = undoablePlayerReducer(state, { type: 'ADD_TO_QUEUE', song: B })
+    }
+
+    expect(state.past).toHaveLength(50)
+  })
+})
@@ -0,0 +1,248 @@
+import type { QueueSource, RepeatMode, ShuffleStrategy, Song } from '../types'
+import { shuffle } from '../utils/shuffle'
+import { smartShuffle } from '../utils/smartShuffle'
+import { createSeed, createSeededRandom } from '../utils/random'
+
+export interface PlayerState {
+  currentSong: Song | null
+  queue: Song[]
+  // Preserved queue order for un-shuffle
+  originalQueue: Song[]
+  // Previously played songs, most recent last
+  history: Song[]
+  // The list playback was started from, recycled under repeat-all
+  sourceSongs: Song[]
+  // Names sourceSongs, or null for a list made on the spot, like search
+  // results or the queue
+  source: QueueSource | null
+  isShuffled: boolean
+  shuffleStrategy: ShuffleStrategy
+  // Seed behind the current shuffled order, so it can be reproduced
+  shuffleSeed: number | null
+  repeatMode: RepeatMode
+}
+
+export type PlayerAction =
+  | { type: 'PLAY_FROM_SOURCE'; song: Song; sourceSongs: Song[]; source?: QueueSource }
+  | { type: 'PLAY_NEXT'; song: Song }
+  | { type: 'ADD_TO_QUEUE'; song: Song }
+  | { type: 'REMOVE_FROM_QUEUE'; index: number }
+  | { type: 'MOVE_IN_QUEUE'; fromIndex: number; toIndex: number }
+  | { type: 'CLEAR_QUEUE' }
+  | { type: 'NEXT' }
+  | { type: 'PREVIOUS' }
+  | { type: 'TRACK_ENDED' }
+  | { type: 'TOGGLE_SHUFFLE'; seed: number }
+  | { type: 'SHUFFLE_WITH_SEED'; seed: number }
+  | { type: 'SET_SHUFFLE_STRATEGY'; strategy: ShuffleStrategy }
+  | { type: 'CYCLE_REPEAT_MODE' }
+  | { type: 'RESTORE'; state: PlayerState }
+
+export const initialPlayerState: PlayerState = {
+  currentSong: null,
+  queue: [],
+  originalQueue: [],
+  history: [],
+  sourceSongs: [],
+  source: null,
+  isShuffled: false,
+  shuffleStrategy: 'random',
+  shuffleSeed: null,
+  repeatMode: 'off',
+}
+
+const NEXT_REPEAT_MODE: Record<RepeatMode, RepeatMode> = {
+  off: 'all',
+  all: 'one',
+  one: 'off',
+}
+
+// Removes the first occurrence of a song so duplicates elsewhere survive
+function removeFirstById(songs: Song[], id: string): Song[] {
+  const index = songs.findIndex((s) => s.id === id)
+  return index === -1 ? songs : [...songs.slice(0, index), ...songs.slice(index + 1)]
+}
+
+function shuffleSongs(songs: Song[], strategy: ShuffleStrategy, seed: number): Song[] {
+  const random = createSeededRandom(seed)
+  return strategy === 'smart' ? smartShuffle(songs, random) : shuffle(songs, random)
+}
+
+// Shuffles the original order, so the same seed always gives the same result
+function applyShuffle(state: PlayerState, seed: number): PlayerState {
+  return {
+    ...state,
+    isShuffled: true,
+    shuffleSeed: seed,
+    queue: shuffleSongs(state.originalQueue, state.shuffleStrategy, seed),
+  }
+}
+
+// Moves the current song (if any) onto the history stack
+function pushHistory(state: PlayerState): Song[] {
+  return state.currentSong ? [...state.history, state.currentSong] : state.history
+}
+
+function advance(state: PlayerState): PlayerState {
+  if (state.queue.length > 0) {
+    const [upNext, ...rest] = state.queue
+    return {
+      ...state,
+      currentSong: upNext,
+      queue: rest,
+      // Drop the same song from the original order so un-shuffling doesn't replay it
+      originalQueue: removeFirstById(state.originalQueue, upNext.id),
+      history: pushHistory(state),
+    }
+  }
+
+  if (state.repeatMode !== 'all') return state
+
+  // Queue ran dry under repeat-all - start the source list over,
+  // reshuffling each cycle when shuffle is on
+  const cycle =
+    state.sourceSongs.length > 0
+      ? state.sourceSongs
+      : state.currentSong
+        ? [state.currentSong]
+        : []
+  if (cycle.length === 0) return state
+
+  // Derive each cycle's seed from the last so repeats stay reproducible
+  const seed = state.isShuffled ? createSeed(createSeededRandom(state.shuffleSeed ?? 0)) : null
+  const [first, ...rest] = seed !== null ? shuffleSongs(cycle, state.shuffleStrategy, seed) : cycle
+  return {
+    ...state,
+    shuffleSeed: seed,
+    currentSong: first,
+    queue: rest,
+    originalQueue: cycle.filter((s) => s.id !== first.id),
+    history: pushHistory(state),
+  }
+}
+
+/**
+ * Pure state machine for the player queue. Every transition is an event so
+ * the logic can be tested without React; randomness comes in as shuffle seeds.
+ */
+export function playerReducer(state: PlayerState, action: PlayerAction): PlayerState {
+  switch (action.type) {
+    case 'PLAY_FROM_SOURCE': {
+      const { song, sourceSongs } = action
+      const clickedIndex = sourceSongs.findIndex((s) => s.id === song.id)
+      // Populate the queue with songs after the clicked one
+      const queue = sourceSongs.slice(clickedIndex + 1)
+      return {
+        ...state,
+        currentSong: song,
+        queue,
+        originalQueue: queue,
+        history: pushHistory(state),
+        sourceSongs,
+        source: action.source ?? null,
+        // Starting from a source resets shuffle
+        isShuffled: false,
+        shuffleSeed: null,
+      }
+    }
+
+    case 'PLAY_NEXT':
+      return {
+        ...state,
+        queue: [action.song, ...state.queue],
+        originalQueue: [action.song, ...state.originalQueue],
+      }
+
+    case 'ADD_TO_QUEUE':
+      return {
+        ...state,
+        queue: [...state.queue, action.song],
+        originalQueue: [...state.originalQueue, action.song],
+      }
+
+    case 'REMOVE_FROM_QUEUE': {
+      const song = state.queue[action.index]
+      if (!song) return state
+      const queue = [...state.queue.slice(0, action.index), ...state.queue.slice(action.index + 1)]
+      return {
+        ...state,
+        queue,
+        // Keep the un-shuffled order in sync so the song doesn't come back
+        originalQueue: state.isShuffled ? removeFirstById(state.originalQueue, song.id) : queue,
+      }
+    }
+
+    case 'MOVE_IN_QUEUE': {
+      const { fromIndex, toIndex } = action
+      const { length } = state.queue
+      if (
+        fromIndex === toIndex ||
+        fromIndex < 0 ||
+        fromIndex >= length ||
+        toIndex < 0 ||
+        toIndex >= length
+      ) {
+        return state
+      }
+
+      const reordered = [...state.queue]
+      const [moved] = reordered.splice(fromIndex, 1)
+      reordered.splice(toIndex, 0, moved)
+      return {
+        ...state,
+        queue: reordered,
+        // Unshuffled, the visible order is the original order; while
+        // shuffled, moves only affect the shuffled order
+        originalQueue: state.isShuffled ? state.originalQueue : reordered,
+      }
+    }
+
+    case 'CLEAR_QUEUE':
+      return { ...state, queue: [], originalQueue: [] }
+
+    case 'NEXT':
+      return advance(state)
+
+    case 'PREVIOUS': {
+      if (state.history.length === 0) return state
+      const lastPlayed = state.history[state.history.length - 1]
+      const { currentSong } = state
+      return {
+        ...state,
+        currentSong: lastPlayed,
+        history: state.history.slice(0, -1),
+        // Put the current song back at the front of both orders so it plays
+        // next whether or not shuffle is on
+        queue: currentSong ? [currentSong, ...state.queue] : state.queue,
+        originalQueue: currentSong ? [currentSong, ...state.originalQueue] : state.originalQueue,
+      }
+    }
+
+    case 'TRACK_ENDED':
+      // Repeat-one keeps the same song; playback loops it
+      return state.repeatMode === 'one' ? state : advance(state)
+
+    case 'TOGGLE_SHUFFLE':
+      return state.isShuffled
+        ? { ...state, isShuffled: false, shuffleSeed: null, queue: state.originalQueue }
+        : applyShuffle(state, action.seed)
+
+    case 'SHUFFLE_WITH_SEED':
+      return applyShuffle(state, action.seed)
+
+    case 'SET_SHUFFLE_STRATEGY': {
+      if (action.strategy === state.shuffleStrategy) return state
+      const updated = { ...state, shuffleStrategy: action.strategy }
+      // Reshuffle with the same seed so the queue reflects the new strategy
+      return state.isShuffled && state.shuffleSeed !== null
+        ? applyShuffle(updated, state.shuffleSeed)
+        : updated
+    }
+
+    case 'CYCLE_REPEAT_MODE':
+      return { ...state, repeatMode: NEXT_REPEAT_MODE[state.repeatMode] }
+
+    case 'RESTORE':
+      return action.state
+  }
+}
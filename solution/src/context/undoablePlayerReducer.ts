@@ -0,0 +1,99 @@
+import { playerReducer, initialPlayerState, type PlayerAction, type PlayerState } from './playerReducer'
+
+export interface UndoablePlayerState {
+  past: PlayerState[]
+  present: PlayerState
+  future: PlayerState[]
+  // Bumped whenever playing from a source replaces an existing session,
+  // so the UI can offer to undo it
+  queueReplacements: number
+}
+
+export type UndoablePlayerAction = PlayerAction | { type: 'UNDO' } | { type: 'REDO' }
+
+// Queue edits the user may want to take back
+const UNDOABLE_ACTIONS = new Set<PlayerAction['type']>([
+  'PLAY_FROM_SOURCE',
+  'PLAY_NEXT',
+  'ADD_TO_QUEUE',
+  'REMOVE_FROM_QUEUE',
+  'MOVE_IN_QUEUE',
+  'CLEAR_QUEUE',
+  'TOGGLE_SHUFFLE',
+  'SHUFFLE_WITH_SEED',
+  'SET_SHUFFLE_STRATEGY',
+])
+
+// Transitions that move playback along; undoing across them would rewind
+// what is playing, so they start a fresh undo history
+const HISTORY_RESETTING_ACTIONS = new Set<PlayerAction['type']>([
+  'NEXT',
+  'PREVIOUS',
+  'TRACK_ENDED',
+  'RESTORE',
+])
+
+const MAX_UNDO_STEPS = 50
+
+export const initialUndoablePlayerState: UndoablePlayerState = {
+  past: [],
+  present: initialPlayerState,
+  future: [],
+  queueReplacements: 0,
+}
+
+/**
+ * Wraps playerReducer with undo/redo stacks over queue edits. Repeat mode is
+ * a preference rather than a queue edit, so undo/redo leave it as it is.
+ */
+export function undoablePlayerReducer(
+  state: UndoablePlayerState,
+  action: UndoablePlayerAction
+): UndoablePlayerState {
+  const { past, present, future } = state
+
+  switch (action.type) {
+    case 'UNDO': {
+      if (past.length === 0) return state
+      const previous = past[past.length - 1]
+      return {
+        ...state,
+        past: past.slice(0, -1),
+        present: { ...previous, repeatMode: present.repeatMode },
+        future: [present, ...future],
+      }
+    }
+
+    case 'REDO': {
+      if (future.length === 0) return state
+      const [following, ...rest] = future
+      return {
+        ...state,
+        past: [...past, present],
+        present: { ...following, repeatMode: present.repeatMode },
+        future: rest,
+      }
+    }
+
+    default: {
+      const nextPresent = playerReducer(present, action)
+      if (nextPresent === present) return state
+
+      if (UNDOABLE_ACTIONS.has(action.type)) {
+        const replacedSession = action.type === 'PLAY_FROM_SOURCE' && present.currentSong !== null
+        return {
+          past: [...past, present].slice(-MAX_UNDO_STEPS),
+          present: nextPresent,
+          future: [],
+          queueReplacements: state.queueReplacements + (replacedSession ? 1 : 0),
+        }
+      }
+
+      if (HISTORY_RESETTING_ACTIONS.has(action.type)) {
+        return { ...state, past: [], present: nextPresent, future: [] }
+      }
+
+      return { ...state, present: nextPresent }
+    }
+  }
+}
@@ -0,0 +1,416 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { renderHook, act, cleanup } from '@testing-library/react'
+import { usePlayback } from '../usePlayback'
+import type { Song } from '../../types'
+
+describe('usePlayback', () => {
+  const songA: Song = {
+    id: '1',
+    title: 'Song A',
+    artist: 'Artist A',
+    album: 'Album A',
+    albumArt: 'art-a.jpg',
+    duration: 180,
+  }
+
+  const songB: Song = {
+    id: '2',
+    title: 'Song B',
+    artist: 'Artist B',
+    album: 'Album B',
+    albumArt: 'art-b.jpg',
+    duration: 200,
+  }
+
+  // Stands in for wherever the app loads audio from
+  const getSource = (song: Song) => `/audio/${song.id}.wav`
+
+  let audio: HTMLAudioElement | null
+  let playSpy: ReturnType<typeof vi.spyOn>
+  let pauseSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    audio = null
+    // jsdom does not implement media playback, so fake play/pause events
+    playSpy = vi
+      .spyOn(HTMLMediaElement.prototype, 'play')
+      .mockImplementation(function (this: HTMLMediaElement) {
+        audio = this as HTMLAudioElement
+        Object.defineProperty(this, 'paused', { configurable: true, value: false })
+        this.dispatchEvent(new Event('play'))
+        return Promise.resolve()
+      })
+    pauseSpy = vi
+      .spyOn(HTMLMediaElement.prototype, 'pause')
+      .mockImplementation(function (this: HTMLMediaElement) {
+        Object.defineProperty(this, 'paused', { configurable: true, value: true })
+        this.dispatchEvent(new Event('pause'))
+      })
+  })
+
+  afterEach(() => {
+    // Unmount while play/pause are still stubbed
+    cleanup()
+    vi.restoreAllMocks()
+  })
+
+  it('starts idle when there is no song', () => {
+    const { result } = renderHook(() => usePlayback({ song: null, onEnded: vi.fn(), getSource }))
+
+    expect(result.current.isPlaying).toBe(false)
+    expect(result.current.currentTime).toBe(0)
+    expect(result.current.duration).toBe(0)
+    expect(result.current.buffered).toEqual([])
+    expect(playSpy).not.toHaveBeenCalled()
+  })
+
+  it('loads nothing for a song without a source', () => {
+    renderHook(() => usePlayback({ song: songA, onEnded: vi.fn() }))
+
+    expect(audio?.hasAttribute('src')).toBe(false)
+  })
+
+  it('loads the stream and starts playing when a song is set', () => {
+    const { result } = renderHook(() => usePlayback({ song: songA, onEnded: vi.fn(), getSource }))
+
+    expect(playSpy).toHaveBeenCalledTimes(1)
+    expect(audio?.src).toContain('/audio/1.wav')
+    expect(result.current.isPlaying).toBe(true)
+    // Falls back to the catalogue duration before metadata loads
+    expect(result.current.duration).toBe(180)
+  })
+
+  it('toggles between playing and paused', () => {
+    const { result } = renderHook(() => usePlayback({ song: songA, onEnded: vi.fn(), getSource }))
+
+    act(() => {
+      result.current.togglePlay()
+    })
+    expect(pauseSpy).toHaveBeenCalled()
+    expect(result.current.isPlaying).toBe(false)
+
+    act(() => {
+      result.current.togglePlay()
+    })
+    expect(result.current.isPlaying).toBe(true)
+  })
+
+  it('tracks elapsed time from timeupdate events', () => {
+    const { result } = renderHook(() => usePlayback({ song: songA, onEnded: vi.fn(), getSource }))
+
+    act(() => {
+      audio!.currentTime = 42
+      audio!.dispatchEvent(new Event('timeupdate'))
+    })
+
+    expect(result.current.currentTime).toBe(42)
+  })
+
+  it('seeks to a position and clamps negative values', () => {
+    const { result } = renderHook(() => usePlayback({ song: songA, onEnded: vi.fn(), getSource }))
+
+    act(() => {
+      result.current.seek(90)
+    })
+    expect(result.current.currentTime).toBe(90)
+
+    act(() => {
+      result.current.seek(-10)
+    })
+    expect(result.current.currentTime).toBe(0)
+  })
+
+  it('exposes buffered ranges from progress events', () => {
+    const { result } = renderHook(() => usePlayback({ song: songA, onEnded: vi.fn(), getSource }))
+
+    const ranges = [
+      [0, 30],
+      [60, 90],
+    ]
+    Object.defineProperty(audio!, 'buffered', {
+      configurable: true,
+      value: {
+        length: ranges.length,
+        start: (i: number) => ranges[i][0],
+        end: (i: number) => ranges[i][1],
+      },
+    })
+
+    act(() => {
+      audio!.dispatchEvent(new Event('progress'))
+    })
+
+    expect(result.current.buffered).toEqual([
+      { start: 0, end: 30 },
+      { start: 60, end: 90 },
+    ])
+  })
+
+  it('calls onEnded when the track finishes', () => {
+    const onEnded = vi.fn()
+    const { result } = renderHook(() => usePlayback({ song: songA, onEnded, getSource }))
+
+    act(() => {
+      audio!.dispatchEvent(new Event('ended'))
+    })
+
+    expect(onEnded).toHaveBeenCalledTimes(1)
+    expect(result.current.isPlaying).toBe(false)
+  })
+
+  it('uses the latest onEnded callback', () => {
+    const first = vi.fn()
+    const second = vi.fn()
+    const { rerender } = renderHook(
+      ({ onEnded }) => usePlayback({ song: songA, onEnded, getSource }),
+      { initialProps: { onEnded: first } }
+    )
+
+    rerender({ onEnded: second })
+
+    act(() => {
+      audio!.dispatchEvent(new Event('ended'))
+    })
+
+    expect(first).not.toHaveBeenCalled()
+    expect(second).toHaveBeenCalledTimes(1)
+  })
+
+  it('resets progress when the song changes', () => {
+    const { result, rerender } = renderHook(
+      ({ song }) => usePlayback({ song, onEnded: vi.fn(), getSource }),
+      { initialProps: { song: songA as Song | null } }
+    )
+
+    act(() => {
+      result.current.seek(60)
+    })
+    expect(result.current.currentTime).toBe(60)
+
+    rerender({ song: songB })
+
+    expect(result.current.currentTime).toBe(0)
+    expect(result.current.duration).toBe(200)
+    expect(audio?.src).toContain('/audio/2.wav')
+  })
+
+  it('stops playback when the song is cleared', () => {
+    const { result, rerender } = renderHook(
+      ({ song }) => usePlayback({ song, onEnded: vi.fn(), getSource }),
+      { initialProps: { song: songA as Song | null } }
+    )
+
+    rerender({ song: null })
+
+    expect(pauseSpy).toHaveBeenCalled()
+    expect(result.current.isPlaying).toBe(false)
+    expect(result.current.duration).toBe(0)
+  })
+
+  it('loops the audio element when requested', () => {
+    const { rerender } = renderHook(
+      ({ loop }) => usePlayback({ song: songA, onEnded: vi.fn(), loop, getSource }),
+      { initialProps: { loop: false } }
+    )
+
+    expect(audio?.loop).toBe(false)
+
+    rerender({ loop: true })
+
+    expect(audio?.loop).toBe(true)
+  })
+
+  it('loads a cued song paused at the cued position', () => {
+    const { result, rerender } = renderHook(
+      ({ song }) => usePlayback({ song, onEnded: vi.fn(), getSource }),
+      { initialProps: { song: null as Song | null } }
+    )
+
+    act(() => {
+      result.current.cue(75)
+    })
+    rerender({ song: songA })
+
+    expect(playSpy).not.toHaveBeenCalled()
+    expect(result.current.isPlaying).toBe(false)
+    expect(result.current.currentTime).toBe(75)
+
+    // The cue only applies once
+    rerender({ song: songB })
+
+    expect(playSpy).toHaveBeenCalledTimes(1)
+  })
+
+  describe('with two decks', () => {
+    const songC: Song = { ...songA, id: '3', title: 'Song C', duration: 220 }
+
+    class MockAudioParam {
+      value = 1
+      cancelScheduledValues = vi.fn()
+      setValueAtTime = vi.fn((value: number) => {
+        this.value = value
+      })
+      setValueCurveAtTime = vi.fn()
+    }
+
+    // Records the graph so tests can reach the decks and their gains
+    class MockAudioContext {
+      static instance: MockAudioContext | null = null
+      currentTime = 42
+      state = 'running'
+      destination = {}
+      decks: HTMLMediaElement[] = []
+      gains: { gain: MockAudioParam; connect: ReturnType<typeof vi.fn> }[] = []
+
+      constructor() {
+        MockAudioContext.instance = this
+      }
+
+      createGain() {
+        const node = { gain: new MockAudioParam(), connect: vi.fn() }
+        this.gains.push(node)
+        return node
+      }
+
+      createMediaElementSource(element: HTMLMediaElement) {
+        this.decks.push(element)
+        return { connect: vi.fn() }
+      }
+
+      resume = vi.fn(() => Promise.resolve())
+      close = vi.fn(() => Promise.resolve())
+    }
+
+    const graph = () => MockAudioContext.instance!
+
+    const setPosition = (deck: HTMLMediaElement, currentTime: number, duration: number) => {
+      Object.defineProperty(deck, 'currentTime', { configurable: true, value: currentTime })
+      Object.defineProperty(deck, 'duration', { configurable: true, value: duration })
+    }
+
+    beforeEach(() => {
+      MockAudioContext.instance = null
+      vi.stubGlobal('AudioContext', MockAudioContext)
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      cleanup()
+      vi.useRealTimers()
+      vi.unstubAllGlobals()
+    })
+
+    it('preloads the next song into the idle deck', () => {
+      renderHook(() => usePlayback({ song: songA, nextSong: songB, onEnded: vi.fn(), getSource }))
+
+      const [active, idle] = graph().decks
+      expect(active.src).toContain('/audio/1.wav')
+      expect(idle.src).toContain('/audio/2.wav')
+      expect(graph().gains[0].gain.value).toBe(1)
+      expect(graph().gains[1].gain.value).toBe(0)
+    })
+
+    it('crossfades into the next song near the end of the track', () => {
+      const onEnded = vi.fn()
+      const { result, rerender } = renderHook(
+        ({ song, nextSong }) => usePlayback({ song, nextSong, onEnded, crossfadeDuration: 5, getSource }),
+        { initialProps: { song: songA, nextSong: songB as Song | null } }
+      )
+      const [first, second] = graph().decks
+      const [firstGain, secondGain] = graph().gains
+
+      // Not yet within the fade window
+      setPosition(first, 170, 180)
+      act(() => {
+        first.dispatchEvent(new Event('timeupdate'))
+      })
+      expect(onEnded).not.toHaveBeenCalled()
+
+      setPosition(first, 177, 180)
+      act(() => {
+        first.dispatchEvent(new Event('timeupdate'))
+      })
+
+      // Fades over the time actually left in the track
+      expect(firstGain.gain.setValueCurveAtTime).toHaveBeenCalledWith(expect.any(Float32Array), 42, 3)
+      expect(secondGain.gain.setValueCurveAtTime).toHaveBeenCalledWith(expect.any(Float32Array), 42, 3)
+      expect(audio).toBe(second)
+      expect(onEnded).toHaveBeenCalledTimes(1)
+
+      // The queue advancing doesn't reload the song already playing
+      rerender({ song: songB, nextSong: songC })
+      expect(second.src).toContain('/audio/2.wav')
+      expect(result.current.isPlaying).toBe(true)
+      expect(result.current.duration).toBe(200)
+      // The fading deck keeps its song until the fade completes
+      expect(first.src).toContain('/audio/1.wav')
+
+      act(() => {
+        vi.advanceTimersByTime(3000)
+      })
+      expect(first.paused).toBe(true)
+      expect(first.src).toContain('/audio/3.wav')
+    })
+
+    it('switches to the preloaded deck without a gap when no crossfade is set', () => {
+      const onEnded = vi.fn()
+      const { result } = renderHook(() =>
+        usePlayback({ song: songA, nextSong: songB, onEnded, crossfadeDuration: 0, getSource })
+      )
+      const [first, second] = graph().decks
+
+      setPosition(first, 177, 180)
+      act(() => {
+        first.dispatchEvent(new Event('timeupdate'))
+      })
+      expect(onEnded).not.toHaveBeenCalled()
+
+      act(() => {
+        first.dispatchEvent(new Event('ended'))
+      })
+
+      expect(audio).toBe(second)
+      expect(onEnded).toHaveBeenCalledTimes(1)
+      expect(result.current.isPlaying).toBe(true)
+      expect(graph().gains[1].gain.value).toBe(1)
+      expect(graph().gains[0].gain.value).toBe(0)
+    })
+
+    it('does not crossfade while looping one song', () => {
+      const onEnded = vi.fn()
+      renderHook(() =>
+        usePlayback({ song: songA, nextSong: songB, onEnded, loop: true, crossfadeDuration: 5, getSource })
+      )
+      const [first] = graph().decks
+
+      setPosition(first, 177, 180)
+      act(() => {
+        first.dispatchEvent(new Event('timeupdate'))
+      })
+
+      expect(onEnded).not.toHaveBeenCalled()
+      expect(graph().gains[0].gain.setValueCurveAtTime).not.toHaveBeenCalled()
+    })
+
+    it('cuts a fade short when another song is picked', () => {
+      const { rerender } = renderHook(
+        ({ song }) => usePlayback({ song, nextSong: songB, onEnded: vi.fn(), crossfadeDuration: 5, getSource }),
+        { initialProps: { song: songA } }
+      )
+      const [first, second] = graph().decks
+
+      setPosition(first, 177, 180)
+      act(() => {
+        first.dispatchEvent(new Event('timeupdate'))
+      })
+      rerender({ song: songC })
+
+      // The fading deck stops and the picked song plays alone
+      expect(first.paused).toBe(true)
+      expect(second.src).toContain('/audio/3.wav')
+      expect(audio).toBe(second)
+      expect(graph().gains[1].gain.value).toBe(1)
+      expect(graph().gains[0].gain.value).toBe(0)
+    })
+  })
+})
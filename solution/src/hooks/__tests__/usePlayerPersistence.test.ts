@@ -0,0 +1,391 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { usePlayerPersistence } from '../usePlayerPersistence'
+import { useQueue } from '../useQueue'
+import { songLibrary } from '../../api/endpoints'
+import type { Playlist, Song } from '../../types'
+
+const SESSION_KEY = 'music-player:session'
+const POSITION_KEY = 'music-player:position'
+
+describe('usePlayerPersistence', () => {
+  const librarySongs: Song[] = [
+    {
+      id: 'song-00001',
+      title: 'Song A',
+      artist: 'Artist A',
+      album: 'Album A',
+      albumArt: 'art-a.jpg',
+      duration: 180,
+    },
+    {
+      id: 'song-00002',
+      title: 'Song B',
+      artist: 'Artist B',
+      album: 'Album B',
+      albumArt: 'art-b.jpg',
+      duration: 200,
+    },
+    {
+      id: 'song-00003',
+      title: 'Song C',
+      artist: 'Artist C',
+      album: 'Album C',
+      albumArt: 'art-c.jpg',
+      duration: 220,
+    },
+  ]
+
+  const playlist: Playlist = {
+    id: '1',
+    name: 'Test Playlist',
+    songs: [
+      {
+        id: 'song-001',
+        title: 'Playlist Song',
+        artist: 'Artist P',
+        album: 'Album P',
+        albumArt: 'art-p.jpg',
+        duration: 240,
+      },
+    ],
+  }
+
+  const otherPlaylist: Playlist = {
+    id: '2',
+    name: 'Other Playlist',
+    songs: [
+      {
+        id: 'song-002',
+        title: 'Other Song',
+        artist: 'Artist Q',
+        album: 'Album Q',
+        albumArt: 'art-q.jpg',
+        duration: 260,
+      },
+      {
+        id: 'song-003',
+        title: 'Another Song',
+        artist: 'Artist R',
+        album: 'Album R',
+        albumArt: 'art-r.jpg',
+        duration: 280,
+      },
+    ],
+  }
+
+  // What the API answers each path with; anything else is a 404
+  let responses: Record<string, unknown>
+
+  const fetchMock = vi.fn()
+
+  const requestedPlaylists = () =>
+    fetchMock.mock.calls
+      .map(([url]) => url as string)
+      .filter((url) => url.startsWith('/api/playlists'))
+
+  const storeSession = (overrides: Record<string, unknown> = {}) => {
+    localStorage.setItem(
+      SESSION_KEY,
+      JSON.stringify({
+        version: 1,
+        currentSongId: 'song-00001',
+        queueIds: ['song-00002', 'song-00003'],
+        originalQueueIds: ['song-00002', 'song-00003'],
+        historyIds: [],
+        sourceSongIds: ['song-00001', 'song-00002', 'song-00003'],
+        isShuffled: false,
+        repeatMode: 'off',
+        ...overrides,
+      })
+    )
+  }
+
+  const renderPersistence = (cue = vi.fn()) =>
+    renderHook(() => {
+      const queueState = useQueue()
+      const persistence = usePlayerPersistence({
+        queueState,
+        restoreQueue: queueState.restoreQueue,
+        currentTime: 0,
+        cue,
+      })
+      return { ...queueState, ...persistence }
+    })
+
+  beforeEach(async () => {
+    localStorage.clear()
+    await songLibrary.clear()
+    fetchMock.mockReset()
+    responses = {
+      '/api/songs': librarySongs,
+      '/api/playlists/1': playlist,
+      '/api/playlists/2': otherPlaylist,
+    }
+    fetchMock.mockImplementation(async (url: string) =>
+      url in responses
+        ? { ok: true, status: 200, headers: new Headers(), json: async () => responses[url] }
+        : {
+            ok: false,
+            status: 404,
+            headers: new Headers(),
+            json: async () => ({ error: 'Not found' }),
+          }
+    )
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('starts fresh without fetching when nothing is stored', () => {
+    const { result } = renderPersistence()
+
+    expect(result.current.isRestoring).toBe(false)
+    expect(result.current.currentSong).toBeNull()
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('restores queue state by resolving ids against the catalogue', async () => {
+    storeSession({ isShuffled: true, repeatMode: 'all' })
+
+    const { result } = renderPersistence()
+
+    expect(result.current.isRestoring).toBe(true)
+
+    await waitFor(() => {
+      expect(result.current.isRestoring).toBe(false)
+    })
+
+    expect(result.current.currentSong).toEqual(librarySongs[0])
+    expect(result.current.queue).toEqual([librarySongs[1], librarySongs[2]])
+    expect(result.current.sourceSongs).toEqual(librarySongs)
+    expect(result.current.isShuffled).toBe(true)
+    expect(result.current.repeatMode).toBe('all')
+    // Sessions saved before shuffle strategies existed fall back to defaults
+    expect(result.current.shuffleStrategy).toBe('random')
+    expect(result.current.shuffleSeed).toBeNull()
+  })
+
+  it('restores the shuffle strategy and seed', async () => {
+    storeSession({ isShuffled: true, shuffleStrategy: 'smart', shuffleSeed: 1234 })
+
+    const { result } = renderPersistence()
+
+    await waitFor(() => {
+      expect(result.current.isRestoring).toBe(false)
+    })
+
+    expect(result.current.shuffleStrategy).toBe('smart')
+    expect(result.current.shuffleSeed).toBe(1234)
+  })
+
+  it('drops ids that no longer exist', async () => {
+    storeSession({
+      currentSongId: 'song-99999',
+      queueIds: ['song-00002', 'song-gone', 'song-00003'],
+    })
+
+    const { result } = renderPersistence()
+
+    await waitFor(() => {
+      expect(result.current.isRestoring).toBe(false)
+    })
+
+    expect(result.current.currentSong).toBeNull()
+    expect(result.current.queue).toEqual([librarySongs[1], librarySongs[2]])
+  })
+
+  it('cues the saved position for the restored song', async () => {
+    storeSession()
+    localStorage.setItem(POSITION_KEY, JSON.stringify({ songId: 'song-00001', position: 95 }))
+    const cue = vi.fn()
+
+    const { result } = renderPersistence(cue)
+
+    await waitFor(() => {
+      expect(result.current.isRestoring).toBe(false)
+    })
+
+    expect(cue).toHaveBeenCalledWith(95)
+  })
+
+  it('ignores a saved position that belongs to another song', async () => {
+    storeSession()
+    localStorage.setItem(POSITION_KEY, JSON.stringify({ songId: 'song-00003', position: 95 }))
+    const cue = vi.fn()
+
+    const { result } = renderPersistence(cue)
+
+    await waitFor(() => {
+      expect(result.current.isRestoring).toBe(false)
+    })
+
+    expect(cue).toHaveBeenCalledWith(0)
+  })
+
+  it('ignores malformed stored data', () => {
+    localStorage.setItem(SESSION_KEY, '{not json')
+
+    const { result } = renderPersistence()
+
+    expect(result.current.isRestoring).toBe(false)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('keeps the stored session when the catalogue cannot be fetched', async () => {
+    storeSession()
+    const stored = localStorage.getItem(SESSION_KEY)
+    fetchMock.mockRejectedValue(new Error('Network error'))
+    vi.useFakeTimers()
+
+    const { result } = renderPersistence()
+    // Let the client's retries run out
+    await act(() => vi.advanceTimersByTimeAsync(5000))
+
+    expect(result.current.isRestoring).toBe(false)
+
+    expect(result.current.currentSong).toBeNull()
+    // Nothing changed since, so the stored session survives for a retry
+    expect(localStorage.getItem(SESSION_KEY)).toBe(stored)
+  })
+
+  it('saves queue state by id once it settles', () => {
+    vi.useFakeTimers()
+    const { result } = renderPersistence()
+
+    act(() => {
+      result.current.playSong(librarySongs[1], librarySongs)
+    })
+    expect(localStorage.getItem(SESSION_KEY)).toBeNull()
+    act(() => {
+      vi.advanceTimersByTime(1000)
+    })
+
+    const saved = JSON.parse(localStorage.getItem(SESSION_KEY)!)
+    expect(saved.currentSongId).toBe('song-00002')
+    expect(saved.queueIds).toEqual(['song-00003'])
+    expect(saved.source).toBeNull()
+    expect(saved.sourceSongIds).toEqual(['song-00001', 'song-00002', 'song-00003'])
+  })
+
+  it('writes a burst of changes once', () => {
+    vi.useFakeTimers()
+    const setItem = vi.spyOn(Storage.prototype, 'setItem')
+    const { result } = renderPersistence()
+
+    act(() => {
+      result.current.playSong(librarySongs[0], librarySongs)
+    })
+    act(() => {
+      result.current.next()
+    })
+    act(() => {
+      result.current.next()
+    })
+    act(() => {
+      vi.advanceTimersByTime(1000)
+    })
+
+    expect(setItem.mock.calls.filter(([key]) => key === SESSION_KEY)).toHaveLength(1)
+    expect(JSON.parse(localStorage.getItem(SESSION_KEY)!).currentSongId).toBe('song-00003')
+    setItem.mockRestore()
+  })
+
+  it('saves a pending change when the page is hidden', () => {
+    vi.useFakeTimers()
+    const { result } = renderPersistence()
+
+    act(() => {
+      result.current.playSong(librarySongs[1], librarySongs)
+    })
+    window.dispatchEvent(new Event('pagehide'))
+
+    expect(JSON.parse(localStorage.getItem(SESSION_KEY)!).currentSongId).toBe('song-00002')
+  })
+
+  it('stores a named source by name rather than by its songs', () => {
+    vi.useFakeTimers()
+    const { result } = renderPersistence()
+
+    act(() => {
+      result.current.playSong(playlist.songs[0], playlist.songs, { type: 'playlist', id: '1' })
+    })
+    act(() => {
+      vi.advanceTimersByTime(1000)
+    })
+
+    const saved = JSON.parse(localStorage.getItem(SESSION_KEY)!)
+    expect(saved.source).toEqual({ type: 'playlist', id: '1' })
+    expect(saved.sourceSongIds).toEqual([])
+  })
+
+  it('restores a named source from the catalogue', async () => {
+    storeSession({ source: { type: 'library' }, sourceSongIds: [] })
+
+    const { result } = renderPersistence()
+
+    await waitFor(() => {
+      expect(result.current.isRestoring).toBe(false)
+    })
+
+    expect(result.current.source).toEqual({ type: 'library' })
+    expect(result.current.sourceSongs).toEqual(librarySongs)
+  })
+
+  it('restores a library session without fetching any playlist', async () => {
+    delete responses['/api/playlists/1']
+    storeSession({ source: { type: 'library' }, sourceSongIds: [] })
+
+    const { result } = renderPersistence()
+
+    await waitFor(() => {
+      expect(result.current.isRestoring).toBe(false)
+    })
+
+    expect(result.current.currentSong).toEqual(librarySongs[0])
+    expect(result.current.sourceSongs).toEqual(librarySongs)
+    expect(requestedPlaylists()).toEqual([])
+  })
+
+  it('restores from the playlist the session names', async () => {
+    storeSession({
+      currentSongId: 'song-002',
+      queueIds: ['song-003'],
+      originalQueueIds: ['song-003'],
+      // Playlist songs resolve alongside library ones despite their own id scheme
+      historyIds: ['song-00001'],
+      source: { type: 'playlist', id: '2' },
+      sourceSongIds: [],
+    })
+
+    const { result } = renderPersistence()
+
+    await waitFor(() => {
+      expect(result.current.isRestoring).toBe(false)
+    })
+
+    expect(requestedPlaylists()).toEqual(['/api/playlists/2'])
+    expect(result.current.currentSong).toEqual(otherPlaylist.songs[0])
+    expect(result.current.queue).toEqual([otherPlaylist.songs[1]])
+    expect(result.current.history).toEqual([librarySongs[0]])
+    expect(result.current.source).toEqual({ type: 'playlist', id: '2' })
+    expect(result.current.sourceSongs).toEqual(otherPlaylist.songs)
+  })
+
+  it('restores what it can when the named playlist has been deleted', async () => {
+    storeSession({ source: { type: 'playlist', id: '3' }, sourceSongIds: [] })
+
+    const { result } = renderPersistence()
+
+    await waitFor(() => {
+      expect(result.current.isRestoring).toBe(false)
+    })
+
+    expect(result.current.currentSong).toEqual(librarySongs[0])
+    expect(result.current.queue).toEqual([librarySongs[1], librarySongs[2]])
+    expect(result.current.sourceSongs).toEqual([])
+  })
+})
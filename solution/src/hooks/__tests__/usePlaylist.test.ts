@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { renderHook, waitFor } from '@testing-library/react'
+import { renderHook, waitFor, act } from '@testing-library/react'
 import { usePlaylist } from '../usePlaylist'
 import type { Playlist } from '../../types'
 
@@ -35,6 +35,7 @@ describe('usePlaylist', () => {
   })
 
   afterEach(() => {
+    vi.useRealTimers()
     vi.restoreAllMocks()
   })
 
@@ -76,7 +77,10 @@ describe('usePlaylist', () => {
       renderHook(() => usePlaylist())
 
       await waitFor(() => {
-        expect(global.fetch).toHaveBeenCalledWith('/api/playlists/1')
+        expect(global.fetch).toHaveBeenCalledWith(
+          '/api/playlists/1',
+          expect.objectContaining({ signal: expect.any(AbortSignal) })
+        )
       })
     })
 
@@ -98,16 +102,42 @@ describe('usePlaylist', () => {
     })
 
     it('handles network errors', async () => {
-      ;(global.fetch as any).mockRejectedValueOnce(new Error('Network error'))
+      vi.useFakeTimers()
+      vi.mocked(fetch).mockRejectedValue(new Error('Network error'))
 
       const { result } = renderHook(() => usePlaylist())
 
-      await waitFor(() => {
-        expect(result.current.isLoading).toBe(false)
-      })
+      // Gives up once the retries run out
+      await act(() => vi.runAllTimersAsync())
 
+      expect(result.current.isLoading).toBe(false)
       expect(result.current.error).toBeTruthy()
       expect(result.current.playlist).toBeNull()
+      expect(global.fetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('recovers when a retry succeeds', async () => {
+      vi.useFakeTimers()
+      vi.mocked(fetch)
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({ ok: false, status: 503, json: async () => ({}) } as Response)
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => mockPlaylist } as Response)
+
+      const { result } = renderHook(() => usePlaylist())
+      await act(() => vi.runAllTimersAsync())
+
+      expect(result.current.error).toBeNull()
+      expect(result.current.playlist).toEqual(mockPlaylist)
+    })
+
+    it('aborts the request on unmount', async () => {
+      vi.mocked(fetch).mockImplementation(() => new Promise(() => {}))
+
+      const { unmount } = renderHook(() => usePlaylist())
+      const signal = vi.mocked(fetch).mock.calls[0][1]?.signal
+      unmount()
+
+      expect(signal?.aborted).toBe(true)
     })
 
     it('handles JSON parse errors', async () => {
@@ -171,6 +201,45 @@ describe('usePlaylist', () => {
   })
 
   describe('Data Validation', () => {
+    it('reports a malformed playlist instead of rendering it', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 1, name: 'Broken', songs: null }),
+      } as Response)
+
+      const { result } = renderHook(() => usePlaylist())
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false)
+      })
+
+      expect(result.current.playlist).toBeNull()
+      expect(result.current.error).toBe(
+        'Invalid response from /api/playlists/1: id: expected a string, got a number; songs: expected an array, got null'
+      )
+    })
+
+    it('drops invalid songs and keeps the rest', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          ...mockPlaylist,
+          songs: [mockPlaylist.songs[0], { ...mockPlaylist.songs[1], duration: '3:20' }],
+        }),
+      } as Response)
+
+      const { result } = renderHook(() => usePlaylist())
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false)
+      })
+
+      expect(result.current.songs).toEqual([mockPlaylist.songs[0]])
+      expect(result.current.dropped).toEqual([
+        { path: 'songs[1].duration', message: expect.stringContaining('expected a number') },
+      ])
+    })
+
     it('validates playlist structure', async () => {
       const validPlaylist = {
         id: '1',
@@ -235,4 +304,152 @@ describe('usePlaylist', () => {
       expect(result.current.playlist?.songs).toHaveLength(20)
     })
   })
+
+  describe('Editing with optimistic concurrency', () => {
+    const versioned: Playlist = { ...mockPlaylist, version: 3 }
+
+    const fetchMock = vi.mocked(fetch)
+
+    const respond = (status: number, body: unknown) =>
+      ({
+        ok: status >= 200 && status < 300,
+        status,
+        json: async () => body,
+      }) as Response
+
+    async function renderLoaded() {
+      fetchMock.mockResolvedValueOnce(respond(200, versioned))
+      const hook = renderHook(() => usePlaylist())
+      await waitFor(() => {
+        expect(hook.result.current.isLoading).toBe(false)
+      })
+      return hook
+    }
+
+    it('sends the loaded version as If-Match', async () => {
+      const { result } = await renderLoaded()
+      const renamed = { ...versioned, name: 'Renamed', version: 4 }
+      fetchMock.mockResolvedValueOnce(respond(200, renamed))
+
+      await act(async () => {
+        result.current.renamePlaylist('Renamed')
+      })
+
+      expect(fetchMock).toHaveBeenLastCalledWith(
+        '/api/playlists/1',
+        expect.objectContaining({
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json', 'If-Match': '"3"' },
+          body: JSON.stringify({ name: 'Renamed' }),
+        })
+      )
+      expect(result.current.playlist).toEqual(renamed)
+      expect(result.current.conflict).toBeNull()
+    })
+
+    it('sends the full new order when moving a song', async () => {
+      const { result } = await renderLoaded()
+      fetchMock.mockResolvedValueOnce(respond(200, versioned))
+
+      await act(async () => {
+        result.current.moveSong(1, 0)
+      })
+
+      expect(fetchMock).toHaveBeenLastCalledWith(
+        '/api/playlists/1/songs',
+        expect.objectContaining({ method: 'PUT', body: JSON.stringify({ songIds: ['2', '1'] }) })
+      )
+    })
+
+    it('surfaces a stale edit as a conflict with the current playlist', async () => {
+      const { result } = await renderLoaded()
+      const theirs = { ...versioned, name: 'Theirs', version: 4 }
+      fetchMock.mockResolvedValueOnce(
+        respond(412, { error: 'Playlist has changed', playlist: theirs })
+      )
+
+      await act(async () => {
+        result.current.removeSong('1')
+      })
+
+      expect(result.current.conflict).toEqual({
+        edit: { type: 'removeSong', songId: '1' },
+        current: theirs,
+        canReapply: true,
+      })
+      // Nothing changes until the user picks a way out
+      expect(result.current.playlist).toEqual(versioned)
+    })
+
+    it('reloads the current playlist and drops the edit', async () => {
+      const { result } = await renderLoaded()
+      const theirs = { ...versioned, name: 'Theirs', version: 4 }
+      fetchMock.mockResolvedValueOnce(respond(412, { error: '', playlist: theirs }))
+
+      await act(async () => {
+        result.current.renamePlaylist('Mine')
+      })
+      act(() => {
+        result.current.reloadPlaylist()
+      })
+
+      expect(result.current.playlist).toEqual(theirs)
+      expect(result.current.conflict).toBeNull()
+    })
+
+    it('reapplies the edit against the current version', async () => {
+      const { result } = await renderLoaded()
+      const theirs = { ...versioned, name: 'Theirs', version: 4 }
+      const mine = { ...theirs, name: 'Mine', version: 5 }
+      fetchMock
+        .mockResolvedValueOnce(respond(412, { error: '', playlist: theirs }))
+        .mockResolvedValueOnce(respond(200, mine))
+
+      await act(async () => {
+        result.current.renamePlaylist('Mine')
+      })
+      await act(async () => {
+        result.current.reapplyChange()
+      })
+
+      expect(fetchMock).toHaveBeenLastCalledWith(
+        '/api/playlists/1',
+        expect.objectContaining({
+          headers: { 'Content-Type': 'application/json', 'If-Match': '"4"' },
+        })
+      )
+      expect(result.current.playlist).toEqual(mine)
+      expect(result.current.conflict).toBeNull()
+    })
+
+    it('does not offer to reapply an edit that no longer fits', async () => {
+      const { result } = await renderLoaded()
+      const theirs = { ...versioned, songs: versioned.songs.slice(1), version: 4 }
+      fetchMock.mockResolvedValueOnce(
+        respond(409, { error: 'Song is not in the playlist', playlist: theirs })
+      )
+
+      await act(async () => {
+        result.current.removeSong('1')
+      })
+      act(() => {
+        result.current.reapplyChange()
+      })
+
+      expect(result.current.conflict?.canReapply).toBe(false)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('reports other save failures without a conflict', async () => {
+      const { result } = await renderLoaded()
+      fetchMock.mockResolvedValueOnce(respond(404, { error: 'Playlist not found' }))
+
+      await act(async () => {
+        result.current.renamePlaylist('Mine')
+      })
+
+      expect(result.current.saveError).toBe('Playlist not found')
+      expect(result.current.conflict).toBeNull()
+    })
+  })
 })
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { renderHook, act } from '@testing-library/react'
 import { useQueue } from '../useQueue'
+import { shuffle } from '../../utils/shuffle'
 import type { Song } from '../../types'
 
 // Mock the shuffle function
@@ -241,6 +242,544 @@ describe('useQueue', () => {
     })
   })
 
+  describe('Advancing the queue', () => {
+    it('moves the head of the queue to now playing', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[2], mockSongs)
+      })
+
+      act(() => {
+        result.current.next()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[3]) // D
+      expect(result.current.queue).toEqual([mockSongs[4]]) // E
+    })
+
+    it('keeps the current song when the queue is empty', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[4], mockSongs)
+      })
+
+      act(() => {
+        result.current.next()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[4])
+      expect(result.current.queue).toEqual([])
+    })
+
+    it('does not restore already played songs when un-shuffling', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[0], mockSongs)
+      })
+
+      // Shuffled (reversed by mock): [E, D, C, B]
+      act(() => {
+        result.current.toggleShuffle()
+      })
+
+      act(() => {
+        result.current.next()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[4]) // E
+
+      act(() => {
+        result.current.toggleShuffle()
+      })
+
+      expect(result.current.queue).toEqual([mockSongs[1], mockSongs[2], mockSongs[3]])
+    })
+  })
+
+  describe('Previous/Next with history', () => {
+    it('starts with empty history', () => {
+      const { result } = renderHook(() => useQueue())
+
+      expect(result.current.history).toEqual([])
+    })
+
+    it('records the current song in history when advancing', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[0], mockSongs)
+      })
+      act(() => {
+        result.current.next()
+      })
+      act(() => {
+        result.current.next()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[2]) // C
+      expect(result.current.history).toEqual([mockSongs[0], mockSongs[1]])
+    })
+
+    it('restores the last played song and requeues the current one', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[0], mockSongs)
+      })
+      act(() => {
+        result.current.next()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[1]) // B
+
+      act(() => {
+        result.current.previous()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[0]) // A
+      expect(result.current.queue).toEqual([
+        mockSongs[1],
+        mockSongs[2],
+        mockSongs[3],
+        mockSongs[4],
+      ])
+      expect(result.current.history).toEqual([])
+    })
+
+    it('does nothing on previous when history is empty', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[2], mockSongs)
+      })
+      act(() => {
+        result.current.previous()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[2])
+      expect(result.current.queue).toEqual([mockSongs[3], mockSongs[4]])
+    })
+
+    it('records the current song when playing a new one from source', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[0], mockSongs)
+      })
+      act(() => {
+        result.current.playSong(mockSongs[3], mockSongs)
+      })
+      act(() => {
+        result.current.previous()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[0])
+      expect(result.current.queue[0]).toEqual(mockSongs[3])
+    })
+
+    it('plays a play-next song and then returns to it with previous', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[2], mockSongs)
+      })
+      act(() => {
+        result.current.playNext(mockSongs[0])
+      })
+      act(() => {
+        result.current.next()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[0]) // A (play next)
+      expect(result.current.queue).toEqual([mockSongs[3], mockSongs[4]])
+
+      act(() => {
+        result.current.next()
+      })
+      act(() => {
+        result.current.previous()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[0])
+      expect(result.current.queue).toEqual([mockSongs[3], mockSongs[4]])
+    })
+
+    it('keeps a song restored by previous when toggling shuffle off', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[0], mockSongs)
+      })
+      // Shuffled (reversed by mock): [E, D, C, B]
+      act(() => {
+        result.current.toggleShuffle()
+      })
+      act(() => {
+        result.current.next()
+      })
+      act(() => {
+        result.current.previous()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[0])
+      expect(result.current.queue[0]).toEqual(mockSongs[4])
+
+      act(() => {
+        result.current.toggleShuffle()
+      })
+
+      // E was requeued at the front of the original order as well
+      expect(result.current.queue).toEqual([
+        mockSongs[4],
+        mockSongs[1],
+        mockSongs[2],
+        mockSongs[3],
+      ])
+    })
+  })
+
+  describe('Repeat modes', () => {
+    it('starts with repeat off and cycles off -> all -> one -> off', () => {
+      const { result } = renderHook(() => useQueue())
+
+      expect(result.current.repeatMode).toBe('off')
+
+      act(() => {
+        result.current.cycleRepeatMode()
+      })
+      expect(result.current.repeatMode).toBe('all')
+
+      act(() => {
+        result.current.cycleRepeatMode()
+      })
+      expect(result.current.repeatMode).toBe('one')
+
+      act(() => {
+        result.current.cycleRepeatMode()
+      })
+      expect(result.current.repeatMode).toBe('off')
+    })
+
+    it('stops at the end of the queue when repeat is off', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[4], mockSongs)
+      })
+      act(() => {
+        result.current.trackEnded()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[4])
+      expect(result.current.queue).toEqual([])
+    })
+
+    it('advances normally when a track ends with repeat off', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[2], mockSongs)
+      })
+      act(() => {
+        result.current.trackEnded()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[3])
+      expect(result.current.queue).toEqual([mockSongs[4]])
+    })
+
+    it('recycles the source list when the queue runs dry under repeat-all', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[4], mockSongs)
+      })
+      act(() => {
+        result.current.cycleRepeatMode() // all
+      })
+      act(() => {
+        result.current.trackEnded()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[0])
+      expect(result.current.queue).toEqual([
+        mockSongs[1],
+        mockSongs[2],
+        mockSongs[3],
+        mockSongs[4],
+      ])
+      expect(result.current.history).toEqual([mockSongs[4]])
+    })
+
+    it('wraps around on manual next under repeat-all', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[4], mockSongs)
+      })
+      act(() => {
+        result.current.cycleRepeatMode() // all
+      })
+      act(() => {
+        result.current.next()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[0])
+    })
+
+    it('reshuffles the source list each cycle when shuffle is on', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[4], mockSongs)
+      })
+      act(() => {
+        result.current.cycleRepeatMode() // all
+      })
+      act(() => {
+        result.current.toggleShuffle()
+      })
+
+      vi.mocked(shuffle).mockClear()
+
+      act(() => {
+        result.current.trackEnded()
+      })
+
+      expect(shuffle).toHaveBeenCalledWith(mockSongs, expect.any(Function))
+      expect(result.current.isShuffled).toBe(true)
+      // Mock shuffle reverses: [E, D, C, B, A]
+      expect(result.current.currentSong).toEqual(mockSongs[4])
+      expect(result.current.queue).toEqual([
+        mockSongs[3],
+        mockSongs[2],
+        mockSongs[1],
+        mockSongs[0],
+      ])
+
+      // Un-shuffling restores source order without the playing song
+      act(() => {
+        result.current.toggleShuffle()
+      })
+
+      expect(result.current.queue).toEqual([
+        mockSongs[0],
+        mockSongs[1],
+        mockSongs[2],
+        mockSongs[3],
+      ])
+    })
+
+    it('keeps the current song when a track ends under repeat-one', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[2], mockSongs)
+      })
+      act(() => {
+        result.current.cycleRepeatMode() // all
+      })
+      act(() => {
+        result.current.cycleRepeatMode() // one
+      })
+      act(() => {
+        result.current.trackEnded()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[2])
+      expect(result.current.queue).toEqual([mockSongs[3], mockSongs[4]])
+      expect(result.current.history).toEqual([])
+    })
+
+    it('still skips forward on manual next under repeat-one', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[2], mockSongs)
+      })
+      act(() => {
+        result.current.cycleRepeatMode() // all
+      })
+      act(() => {
+        result.current.cycleRepeatMode() // one
+      })
+      act(() => {
+        result.current.next()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[3])
+    })
+  })
+
+  describe('Queue editing', () => {
+    it('adds a song to the end of the queue', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[2], mockSongs)
+      })
+      act(() => {
+        result.current.addToQueue(mockSongs[0])
+      })
+
+      expect(result.current.queue).toEqual([mockSongs[3], mockSongs[4], mockSongs[0]])
+    })
+
+    it('removes a song at an index', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[0], mockSongs)
+      })
+      act(() => {
+        result.current.removeFromQueue(1) // C
+      })
+
+      expect(result.current.queue).toEqual([mockSongs[1], mockSongs[3], mockSongs[4]])
+    })
+
+    it('ignores out-of-range removals', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[2], mockSongs)
+      })
+      act(() => {
+        result.current.removeFromQueue(5)
+      })
+
+      expect(result.current.queue).toEqual([mockSongs[3], mockSongs[4]])
+    })
+
+    it('moves a song from one index to another', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[0], mockSongs)
+      })
+      act(() => {
+        result.current.moveInQueue(3, 0) // E to the front
+      })
+
+      expect(result.current.queue).toEqual([
+        mockSongs[4],
+        mockSongs[1],
+        mockSongs[2],
+        mockSongs[3],
+      ])
+
+      act(() => {
+        result.current.moveInQueue(0, 2)
+      })
+
+      expect(result.current.queue).toEqual([
+        mockSongs[1],
+        mockSongs[2],
+        mockSongs[4],
+        mockSongs[3],
+      ])
+    })
+
+    it('clears the queue', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[0], mockSongs)
+      })
+      act(() => {
+        result.current.clearQueue()
+      })
+
+      expect(result.current.currentSong).toEqual(mockSongs[0])
+      expect(result.current.queue).toEqual([])
+    })
+
+    it('does not resurrect removed songs when un-shuffling', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[0], mockSongs)
+      })
+      // Shuffled (reversed by mock): [E, D, C, B]
+      act(() => {
+        result.current.toggleShuffle()
+      })
+      act(() => {
+        result.current.removeFromQueue(1) // D
+      })
+      act(() => {
+        result.current.toggleShuffle()
+      })
+
+      expect(result.current.queue).toEqual([mockSongs[1], mockSongs[2], mockSongs[4]])
+    })
+
+    it('keeps songs added to the end when un-shuffling', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[2], mockSongs)
+      })
+      act(() => {
+        result.current.toggleShuffle()
+      })
+      act(() => {
+        result.current.addToQueue(mockSongs[0])
+      })
+      act(() => {
+        result.current.toggleShuffle()
+      })
+
+      expect(result.current.queue).toEqual([mockSongs[3], mockSongs[4], mockSongs[0]])
+    })
+
+    it('keeps manual reordering when shuffling and un-shuffling', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[0], mockSongs)
+      })
+      act(() => {
+        result.current.moveInQueue(0, 3) // B to the end
+      })
+      act(() => {
+        result.current.toggleShuffle()
+      })
+      act(() => {
+        result.current.toggleShuffle()
+      })
+
+      expect(result.current.queue).toEqual([
+        mockSongs[2],
+        mockSongs[3],
+        mockSongs[4],
+        mockSongs[1],
+      ])
+    })
+
+    it('does not resurrect cleared songs when un-shuffling', () => {
+      const { result } = renderHook(() => useQueue())
+
+      act(() => {
+        result.current.playSong(mockSongs[0], mockSongs)
+      })
+      act(() => {
+        result.current.toggleShuffle()
+      })
+      act(() => {
+        result.current.clearQueue()
+      })
+      act(() => {
+        result.current.toggleShuffle()
+      })
+
+      expect(result.current.queue).toEqual([])
+    })
+  })
+
   describe('Edge Cases', () => {
     it('handles single song in playlist', () => {
       const { result } = renderHook(() => useQueue())
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { useSearch } from '../useSearch'
+import type { Song } from '../../types'
+
+const song = (id: string, title: string, artist: string): Song => ({
+  id,
+  title,
+  artist,
+  album: 'Album',
+  albumArt: '',
+  duration: 200,
+})
+
+const songs = [
+  song('1', 'Blinding Lights', 'The Weeknd'),
+  song('2', 'Halo', 'Beyoncé'),
+  song('3', 'Lights Out', 'Lighthouse Family'),
+]
+
+describe('useSearch', () => {
+  it('shows the whole library until something is typed', () => {
+    const { result } = renderHook(() => useSearch(songs))
+
+    expect(result.current.filteredSongs).toBe(songs)
+    expect(result.current.matches.size).toBe(0)
+  })
+
+  it('ranks songs once typing pauses', async () => {
+    const { result } = renderHook(() => useSearch(songs))
+
+    act(() => result.current.setSearchQuery('lights out'))
+
+    await waitFor(() => expect(result.current.filteredSongs.map((s) => s.id)).toEqual(['3']))
+    expect(result.current.matches.get('3')?.title).toEqual([
+      [0, 6],
+      [7, 10],
+    ])
+  })
+
+  it('keeps earlier results up until the next search finishes', async () => {
+    const { result } = renderHook(() => useSearch(songs))
+    act(() => result.current.setSearchQuery('halo'))
+    await waitFor(() => expect(result.current.filteredSongs.map((s) => s.id)).toEqual(['2']))
+
+    act(() => result.current.setSearchQuery('blinding'))
+
+    expect(result.current.filteredSongs.map((s) => s.id)).toEqual(['2'])
+    await waitFor(() => expect(result.current.filteredSongs.map((s) => s.id)).toEqual(['1']))
+  })
+
+  it('matches nothing while the query has an error', async () => {
+    const { result } = renderHook(() => useSearch(songs))
+
+    act(() => result.current.setSearchQuery('"halo'))
+
+    await waitFor(() => expect(result.current.queryError?.message).toBe('Missing closing quote'))
+    expect(result.current.filteredSongs).toEqual([])
+  })
+
+  it('searches a library that changes', async () => {
+    const { result, rerender } = renderHook(({ library }) => useSearch(library), {
+      initialProps: { library: songs },
+    })
+    act(() => result.current.setSearchQuery('halo'))
+    await waitFor(() => expect(result.current.filteredSongs).toHaveLength(1))
+
+    rerender({ library: [...songs, song('4', 'Halo', 'Cover Band')] })
+
+    await waitFor(() => expect(result.current.filteredSongs.map((s) => s.id)).toEqual(['2', '4']))
+  })
+})
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { renderHook, waitFor } from '@testing-library/react'
+import { renderHook, waitFor, act } from '@testing-library/react'
 import { useSongLibrary } from '../useSongLibrary'
+import { songLibrary } from '../../api/endpoints'
 import type { Song } from '../../types'
 
 // Mock fetch
@@ -16,11 +17,13 @@ describe('useSongLibrary', () => {
     duration: 180 + i * 5,
   }))
 
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.clearAllMocks()
+    await songLibrary.clear()
   })
 
   afterEach(() => {
+    vi.useRealTimers()
     vi.restoreAllMocks()
   })
 
@@ -40,6 +43,7 @@ describe('useSongLibrary', () => {
     it('fetches songs successfully', async () => {
       ;(global.fetch as any).mockResolvedValueOnce({
         ok: true,
+        headers: new Headers(),
         json: async () => mockSongs,
       })
 
@@ -56,13 +60,17 @@ describe('useSongLibrary', () => {
     it('fetches from correct endpoint', async () => {
       ;(global.fetch as any).mockResolvedValueOnce({
         ok: true,
+        headers: new Headers(),
         json: async () => mockSongs,
       })
 
       renderHook(() => useSongLibrary())
 
       await waitFor(() => {
-        expect(global.fetch).toHaveBeenCalledWith('/api/songs')
+        expect(global.fetch).toHaveBeenCalledWith(
+          '/api/songs',
+          expect.objectContaining({ signal: expect.any(AbortSignal) })
+        )
       })
     })
 
@@ -83,16 +91,48 @@ describe('useSongLibrary', () => {
     })
 
     it('handles network errors', async () => {
-      ;(global.fetch as any).mockRejectedValueOnce(new Error('Network error'))
+      vi.useFakeTimers()
+      vi.mocked(fetch).mockRejectedValue(new Error('Network error'))
 
       const { result } = renderHook(() => useSongLibrary())
 
-      await waitFor(() => {
-        expect(result.current.isLoading).toBe(false)
-      })
+      // Gives up once the retries run out
+      await act(() => vi.runAllTimersAsync())
 
+      expect(result.current.isLoading).toBe(false)
       expect(result.current.error).toBeTruthy()
       expect(result.current.songs).toEqual([])
+      expect(global.fetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('recovers when a retry succeeds', async () => {
+      vi.useFakeTimers()
+      vi.mocked(fetch)
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({ ok: false, status: 503, json: async () => ({}) } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers(),
+          json: async () => mockSongs,
+        } as Response)
+
+      const { result } = renderHook(() => useSongLibrary())
+      await act(() => vi.runAllTimersAsync())
+
+      expect(result.current.error).toBeNull()
+      expect(result.current.songs).toEqual(mockSongs)
+    })
+
+    it('aborts the request on unmount', async () => {
+      vi.mocked(fetch).mockImplementation(() => new Promise(() => {}))
+
+      const { unmount } = renderHook(() => useSongLibrary())
+      await waitFor(() => expect(fetch).toHaveBeenCalled())
+      const signal = vi.mocked(fetch).mock.calls[0][1]?.signal
+      unmount()
+
+      expect(signal?.aborted).toBe(true)
     })
 
     it('handles large dataset of 10,000 songs', async () => {
@@ -107,6 +147,7 @@ describe('useSongLibrary', () => {
 
       ;(global.fetch as any).mockResolvedValueOnce({
         ok: true,
+        headers: new Headers(),
         json: async () => largeSongList,
       })
 
@@ -122,6 +163,7 @@ describe('useSongLibrary', () => {
     it('only fetches once on mount', async () => {
       ;(global.fetch as any).mockResolvedValue({
         ok: true,
+        headers: new Headers(),
         json: async () => mockSongs,
       })
 
@@ -170,6 +212,7 @@ describe('useSongLibrary', () => {
 
       ;(global.fetch as any).mockResolvedValueOnce({
         ok: true,
+        headers: new Headers(),
         json: async () => sortedSongs,
       })
 
@@ -198,6 +241,7 @@ describe('useSongLibrary', () => {
 
       ;(global.fetch as any).mockResolvedValueOnce({
         ok: true,
+        headers: new Headers(),
         json: async () => largeSongList,
       })
 
@@ -217,9 +261,47 @@ describe('useSongLibrary', () => {
   })
 
   describe('Data Validation', () => {
+    it('reports a response that is not a song list', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers(),
+        json: async () => ({ songs: mockSongs }),
+      } as Response)
+
+      const { result } = renderHook(() => useSongLibrary())
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false)
+      })
+
+      expect(result.current.songs).toEqual([])
+      expect(result.current.error).toBe('Invalid response from /api/songs: expected an array, got an object')
+    })
+
+    it('drops invalid songs and keeps the rest', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers(),
+        json: async () => [mockSongs[0], { ...mockSongs[1], title: undefined }, mockSongs[2]],
+      } as Response)
+
+      const { result } = renderHook(() => useSongLibrary())
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false)
+      })
+
+      expect(result.current.songs).toEqual([mockSongs[0], mockSongs[2]])
+      expect(result.current.dropped).toEqual([
+        { path: '[1].title', message: expect.stringContaining('expected a string') },
+      ])
+      expect(result.current.error).toBeNull()
+    })
+
     it('validates song structure', async () => {
       ;(global.fetch as any).mockResolvedValueOnce({
         ok: true,
+        headers: new Headers(),
         json: async () => mockSongs,
       })
 
@@ -239,4 +321,103 @@ describe('useSongLibrary', () => {
       expect(typeof song.duration).toBe('number')
     })
   })
+
+  describe('Caching', () => {
+    const respond = (body: Song[], etag: string) =>
+      ({
+        ok: true,
+        status: 200,
+        headers: new Headers({ ETag: etag }),
+        json: async () => body,
+      }) as Response
+
+    const notModified = { ok: false, status: 304, headers: new Headers() } as Response
+
+    async function loadOnce(songs: Song[], etag: string) {
+      vi.mocked(fetch).mockResolvedValueOnce(respond(songs, etag))
+      const { result, unmount } = renderHook(() => useSongLibrary())
+      await waitFor(() => expect(result.current.isLoading).toBe(false))
+      unmount()
+    }
+
+    it('shows the cached library on the next mount and revalidates it', async () => {
+      await loadOnce(mockSongs, '"v1"')
+      vi.mocked(fetch).mockResolvedValueOnce(notModified)
+
+      const { result } = renderHook(() => useSongLibrary())
+
+      expect(result.current.isLoading).toBe(false)
+      expect(result.current.songs).toEqual(mockSongs)
+      await waitFor(() => expect(fetch).toHaveBeenCalledTimes(2))
+      await waitFor(() => expect(result.current.isRefreshing).toBe(false))
+      expect(fetch).toHaveBeenLastCalledWith(
+        '/api/songs',
+        expect.objectContaining({ headers: { 'If-None-Match': '"v1"' } })
+      )
+      expect(result.current.songs).toEqual(mockSongs)
+    })
+
+    it('replaces the cached library when the server has a newer one', async () => {
+      await loadOnce(mockSongs, '"v1"')
+      const newer = mockSongs.slice(0, 10)
+      vi.mocked(fetch).mockResolvedValueOnce(respond(newer, '"v2"'))
+
+      const { result } = renderHook(() => useSongLibrary())
+
+      await waitFor(() => expect(result.current.songs).toEqual(newer))
+      expect(result.current.isRefreshing).toBe(false)
+      expect(songLibrary.peek()).toEqual(newer)
+    })
+
+    it('keeps showing the cached library when revalidating fails', async () => {
+      await loadOnce(mockSongs, '"v1"')
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        headers: new Headers(),
+        json: async () => ({ error: 'Not found' }),
+      } as Response)
+
+      const { result } = renderHook(() => useSongLibrary())
+
+      await waitFor(() => expect(result.current.refreshError).toBeTruthy())
+      expect(result.current.isRefreshing).toBe(false)
+      expect(result.current.songs).toEqual(mockSongs)
+      expect(result.current.error).toBeNull()
+    })
+
+    it('clears the refresh error once a retry gets through', async () => {
+      await loadOnce(mockSongs, '"v1"')
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        headers: new Headers(),
+        json: async () => ({ error: 'Not found' }),
+      } as Response)
+
+      const { result } = renderHook(() => useSongLibrary())
+      await waitFor(() => expect(result.current.refreshError).toBeTruthy())
+
+      vi.mocked(fetch).mockResolvedValueOnce(respond(mockSongs, '"v1"'))
+      act(() => {
+        result.current.refetch()
+      })
+
+      await waitFor(() => expect(result.current.refreshError).toBeNull())
+      expect(result.current.songs).toEqual(mockSongs)
+    })
+
+    it('shares one request between libraries mounted together', async () => {
+      vi.mocked(fetch).mockResolvedValue(respond(mockSongs, '"v1"'))
+
+      const first = renderHook(() => useSongLibrary())
+      const second = renderHook(() => useSongLibrary())
+
+      await waitFor(() => {
+        expect(first.result.current.songs).toEqual(mockSongs)
+        expect(second.result.current.songs).toEqual(mockSongs)
+      })
+      expect(fetch).toHaveBeenCalledTimes(1)
+    })
+  })
 })
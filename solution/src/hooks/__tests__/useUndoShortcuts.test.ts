@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest'
+import { renderHook } from '@testing-library/react'
+import { useUndoShortcuts } from '../useUndoShortcuts'
+
+describe('useUndoShortcuts', () => {
+  const press = (init: KeyboardEventInit, target: EventTarget = window) => {
+    target.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init }))
+  }
+
+  it('calls undo on Ctrl+Z and redo on Ctrl+Shift+Z', () => {
+    const onUndo = vi.fn()
+    const onRedo = vi.fn()
+    renderHook(() => useUndoShortcuts({ onUndo, onRedo }))
+
+    press({ key: 'z', ctrlKey: true })
+    expect(onUndo).toHaveBeenCalledTimes(1)
+
+    press({ key: 'Z', ctrlKey: true, shiftKey: true })
+    expect(onRedo).toHaveBeenCalledTimes(1)
+  })
+
+  it('supports Cmd on macOS', () => {
+    const onUndo = vi.fn()
+    renderHook(() => useUndoShortcuts({ onUndo, onRedo: vi.fn() }))
+
+    press({ key: 'z', metaKey: true })
+
+    expect(onUndo).toHaveBeenCalledTimes(1)
+  })
+
+  it('ignores plain Z and other shortcuts', () => {
+    const onUndo = vi.fn()
+    renderHook(() => useUndoShortcuts({ onUndo, onRedo: vi.fn() }))
+
+    press({ key: 'z' })
+    press({ key: 'y', ctrlKey: true })
+
+    expect(onUndo).not.toHaveBeenCalled()
+  })
+
+  it('leaves undo inside text inputs alone', () => {
+    const onUndo = vi.fn()
+    renderHook(() => useUndoShortcuts({ onUndo, onRedo: vi.fn() }))
+    const input = document.createElement('input')
+    document.body.appendChild(input)
+
+    press({ key: 'z', ctrlKey: true }, input)
+
+    expect(onUndo).not.toHaveBeenCalled()
+    input.remove()
+  })
+
+  it('stops listening on unmount', () => {
+    const onUndo = vi.fn()
+    const { unmount } = renderHook(() => useUndoShortcuts({ onUndo, onRedo: vi.fn() }))
+
+    unmount()
+    press({ key: 'z', ctrlKey: true })
+
+    expect(onUndo).not.toHaveBeenCalled()
+  })
+})
@@ -4,15 +4,45 @@ import { useVirtualScroll } from '../useVirtualScroll'
 
 // Mock ResizeObserver
 class ResizeObserverMock {
+  static instances: ResizeObserverMock[] = []
   callback: ResizeObserverCallback
+  observed = new Set<Element>()
   constructor(callback: ResizeObserverCallback) {
     this.callback = callback
+    ResizeObserverMock.instances.push(this)
   }
-  observe() {}
-  unobserve() {}
-  disconnect() {}
+  observe(element: Element) {
+    this.observed.add(element)
+  }
+  unobserve(element: Element) {
+    this.observed.delete(element)
+  }
+  disconnect() {
+    this.observed.clear()
+  }
+}
+
+// Renders an item at data-index and reports the height it was laid out at
+function resizeItem(
+  measureElement: (element: HTMLElement | null) => unknown,
+  index: number,
+  height: number
+) {
+  const element = document.createElement('div')
+  element.dataset.index = String(index)
+  act(() => {
+    measureElement(element)
+  })
+  const observer = ResizeObserverMock.instances.find((instance) => instance.observed.has(element))!
+  act(() => {
+    const entry = { target: element, contentRect: { height }, borderBoxSize: [{ blockSize: height }] }
+    observer.callback([entry as unknown as ResizeObserverEntry], observer as unknown as ResizeObserver)
+  })
 }
 
+const scrollTo = (scrollTop: number) =>
+  ({ currentTarget: { scrollTop } }) as React.UIEvent<HTMLDivElement>
+
 global.ResizeObserver = ResizeObserverMock as any
 
 describe('useVirtualScroll', () => {
@@ -347,4 +377,115 @@ describe('useVirtualScroll', () => {
       expect(result.current.totalHeight).toBe(0)
     })
   })
+
+  describe('Variable heights', () => {
+    // A header, then four songs, then another header and four songs
+    const estimateSize = (index: number) => (index % 5 === 0 ? 30 : 60)
+
+    it('lays items out by their estimated sizes', () => {
+      const { result } = renderHook(() =>
+        useVirtualScroll({ itemHeight: 60, totalItems: 10, estimateSize })
+      )
+
+      expect(result.current.totalHeight).toBe(2 * 30 + 8 * 60)
+    })
+
+    it('finds the items at a scroll position among varied sizes', () => {
+      const { result } = renderHook(() =>
+        useVirtualScroll({ itemHeight: 60, totalItems: 1000, estimateSize, bufferCount: 0 })
+      )
+
+      // Each group of five is 270px, so 550px is 10px into the third group's header
+      act(() => result.current.onScroll(scrollTo(550)))
+
+      expect(result.current.startIndex).toBe(10)
+      expect(result.current.offsetY).toBe(540)
+    })
+
+    it('uses measured heights once items render', () => {
+      const { result } = renderHook(() =>
+        useVirtualScroll({ itemHeight: 60, totalItems: 10, estimateSize })
+      )
+
+      resizeItem(result.current.measureElement, 1, 100)
+
+      expect(result.current.totalHeight).toBe(2 * 30 + 7 * 60 + 100)
+    })
+
+    it('keeps measurements with their item when the list changes', () => {
+      const { result, rerender } = renderHook(
+        ({ keys }) =>
+          useVirtualScroll({
+            itemHeight: 60,
+            totalItems: keys.length,
+            bufferCount: 0,
+            getItemKey: (i) => keys[i],
+          }),
+        { initialProps: { keys: ['a', 'b', 'c'] } }
+      )
+      resizeItem(result.current.measureElement, 2, 100)
+
+      rerender({ keys: ['c', 'a', 'b'] })
+      act(() => result.current.onScroll(scrollTo(100)))
+
+      expect(result.current.totalHeight).toBe(220)
+      // "c" is first now, so 100px down is the start of "a"
+      expect(result.current.startIndex).toBe(1)
+      expect(result.current.offsetY).toBe(100)
+    })
+  })
+
+  describe('Sticky items', () => {
+    // Headers at 0 and 5, 30px tall; songs 60px
+    const estimateSize = (index: number) => (index % 5 === 0 ? 30 : 60)
+    const stickyIndices = [0, 5]
+
+    const renderList = () =>
+      renderHook(() =>
+        useVirtualScroll({ itemHeight: 60, totalItems: 10, estimateSize, stickyIndices })
+      )
+
+    it('pins the last sticky item scrolled past', () => {
+      const { result } = renderList()
+
+      act(() => result.current.onScroll(scrollTo(100)))
+
+      expect(result.current.stickyIndex).toBe(0)
+      expect(result.current.stickyOffset).toBe(0)
+
+      act(() => result.current.onScroll(scrollTo(280)))
+
+      expect(result.current.stickyIndex).toBe(5)
+    })
+
+    it('lets the next sticky item push the pinned one up', () => {
+      const { result } = renderList()
+
+      // The second header starts at 270, 10px below the top of the view,
+      // overlapping the bottom 20px of the pinned one
+      act(() => result.current.onScroll(scrollTo(260)))
+
+      expect(result.current.stickyIndex).toBe(0)
+      expect(result.current.stickyOffset).toBe(-20)
+    })
+
+    it('pins nothing before the first sticky item', () => {
+      const { result } = renderHook(() =>
+        useVirtualScroll({ itemHeight: 60, totalItems: 10, stickyIndices: [3] })
+      )
+
+      expect(result.current.stickyIndex).toBeNull()
+    })
+
+    it('scrolls an item into view below the sticky item pinned over it', () => {
+      const { result } = renderList()
+      const container = { scrollTop: 0 } as HTMLDivElement
+      result.current.scrollContainerRef.current = container
+
+      act(() => result.current.scrollToIndex(7))
+
+      // Item 7 starts at 270 + 30 + 60; the header above it takes 30
+      expect(container.scrollTop).toBe(330)
+    })
+  })
 })
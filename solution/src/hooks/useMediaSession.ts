@@ -0,0 +1,134 @@
+import { useEffect, useRef } from 'react'
+import type { Song } from '../types'
+
+interface UseMediaSessionOptions {
+  song: Song | null
+  isPlaying: boolean
+  currentTime: number
+  duration: number
+  play: () => void
+  pause: () => void
+  next: () => void
+  previous: () => void
+  seek: (time: number) => void
+}
+
+type MediaSessionHandlers = Pick<
+  UseMediaSessionOptions,
+  'play' | 'pause' | 'next' | 'previous' | 'seek'
+>
+
+// Artwork sizes offered to the OS, which picks one per surface
+const ARTWORK_SIZES = [96, 256, 512]
+
+function getMediaSession(): MediaSession | null {
+  return typeof navigator !== 'undefined' && 'mediaSession' in navigator
+    ? navigator.mediaSession
+    : null
+}
+
+// Lock screens and notifications don't reliably draw SVG, so the API's art
+// is offered as PNG at each size; other art is passed through as it is
+function getArtwork(song: Song): MediaImage[] {
+  const match = song.albumArt.match(/^(\/api\/art\/[^?#]+)\.svg$/)
+  if (!match) return [{ src: song.albumArt }]
+  return ARTWORK_SIZES.map((size) => ({
+    src: `${match[1]}.png?size=${size}`,
+    sizes: `${size}x${size}`,
+    type: 'image/png',
+  }))
+}
+
+/**
+ * Publishes the current song to the OS (lock screen, media keys, headset
+ * buttons) and routes its transport controls back into the player
+ */
+export function useMediaSession({
+  song,
+  isPlaying,
+  currentTime,
+  duration,
+  play,
+  pause,
+  next,
+  previous,
+  seek,
+}: UseMediaSessionOptions): void {
+  // Keep the latest callbacks without re-registering handlers every tick
+  const handlersRef = useRef<MediaSessionHandlers>({ play, pause, next, previous, seek })
+  useEffect(() => {
+    handlersRef.current = { play, pause, next, previous, seek }
+  }, [play, pause, next, previous, seek])
+
+  useEffect(() => {
+    const mediaSession = getMediaSession()
+    if (!mediaSession) return
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => handlersRef.current.play()],
+      ['pause', () => handlersRef.current.pause()],
+      ['nexttrack', () => handlersRef.current.next()],
+      ['previoustrack', () => handlersRef.current.previous()],
+      [
+        'seekto',
+        (details) => {
+          if (details.seekTime !== undefined) handlersRef.current.seek(details.seekTime)
+        },
+      ],
+    ]
+
+    for (const [action, handler] of handlers) {
+      try {
+        mediaSession.setActionHandler(action, handler)
+      } catch {
+        // Browsers throw for actions they don't support
+      }
+    }
+
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          mediaSession.setActionHandler(action, null)
+        } catch {
+          // See above
+        }
+      }
+    }
+  }, [])
+
+  useEffect(() => {
+    const mediaSession = getMediaSession()
+    if (!mediaSession) return
+
+    mediaSession.metadata =
+      song && typeof MediaMetadata !== 'undefined'
+        ? new MediaMetadata({
+            title: song.title,
+            artist: song.artist,
+            album: song.album,
+            artwork: getArtwork(song),
+          })
+        : null
+  }, [song])
+
+  useEffect(() => {
+    const mediaSession = getMediaSession()
+    if (!mediaSession) return
+    mediaSession.playbackState = song ? (isPlaying ? 'playing' : 'paused') : 'none'
+  }, [song, isPlaying])
+
+  // Lets the lock screen draw a progress bar
+  useEffect(() => {
+    const mediaSession = getMediaSession()
+    if (!mediaSession?.setPositionState || !song || !(duration > 0)) return
+    try {
+      mediaSession.setPositionState({
+        duration,
+        position: Math.min(Math.max(0, currentTime), duration),
+        playbackRate: 1,
+      })
+    } catch {
+      // Rejected when the values are momentarily inconsistent, e.g. mid-load
+    }
+  }, [song, currentTime, duration])
+}
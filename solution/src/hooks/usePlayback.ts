@@ -0,0 +1,392 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import type { Song } from '../types'
+import { getFadeDuration, scheduleCrossfade, setGainNow } from '../utils/crossfade'
+
+export interface BufferedRange {
+  start: number
+  end: number
+}
+
+interface UsePlaybackOptions {
+  song: Song | null
+  // Up next in the queue, preloaded so the handover is gapless
+  nextSong?: Song | null
+  onEnded: () => void
+  // Where a song's audio is loaded from; without it nothing is loaded
+  getSource?: (song: Song) => string
+  loop?: boolean
+  // Seconds to fade between tracks; 0 switches at the end of the track
+  crossfadeDuration?: number
+}
+
+interface UsePlaybackReturn {
+  isPlaying: boolean
+  currentTime: number
+  duration: number
+  buffered: BufferedRange[]
+  play: () => void
+  pause: () => void
+  togglePlay: () => void
+  seek: (time: number) => void
+  cue: (position: number) => void
+}
+
+interface AudioGraph {
+  context: AudioContext
+  // One gain per deck, in deck order
+  gains: GainNode[]
+}
+
+// Points an element at a song's audio, or empties it when there's none
+function setSource(audio: HTMLAudioElement, src: string | undefined) {
+  if (src) {
+    audio.src = src
+  } else {
+    audio.removeAttribute('src')
+  }
+}
+
+function readBufferedRanges(ranges: TimeRanges): BufferedRange[] {
+  const result: BufferedRange[] = []
+  for (let i = 0; i < ranges.length; i++) {
+    result.push({ start: ranges.start(i), end: ranges.end(i) })
+  }
+  return result
+}
+
+/**
+ * Plays songs through two alternating audio elements ("decks"). While one
+ * plays, the other preloads the next song; when the track runs out the decks
+ * swap, crossfading through Web Audio gain nodes when a fade is configured.
+ */
+export function usePlayback({
+  song,
+  nextSong = null,
+  onEnded,
+  getSource,
+  loop = false,
+  crossfadeDuration = 0,
+}: UsePlaybackOptions): UsePlaybackReturn {
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState(0)
+  const [buffered, setBuffered] = useState<BufferedRange[]>([])
+  const decksRef = useRef<HTMLAudioElement[]>([])
+  const activeDeckRef = useRef(0)
+  // Id of the song loaded into each deck
+  const deckSongIdsRef = useRef<(string | null)[]>([null, null])
+  // Created on first play, since browsers only allow audio after a user gesture
+  const graphRef = useRef<AudioGraph | null>(null)
+  // Set while the outgoing deck is still fading out
+  const fadeTimeoutRef = useRef<number | null>(null)
+  // Song the decks already switched to, so the song change doesn't reload it
+  const handoverSongIdRef = useRef<string | null>(null)
+  // Start position for the next loaded song, which then stays paused
+  const cuedPositionRef = useRef<number | null>(null)
+
+  // Keep the latest values without re-binding audio listeners
+  const onEndedRef = useRef(onEnded)
+  const nextSongRef = useRef(nextSong)
+  const loopRef = useRef(loop)
+  const crossfadeDurationRef = useRef(crossfadeDuration)
+  const getSourceRef = useRef(getSource)
+  useEffect(() => {
+    onEndedRef.current = onEnded
+    getSourceRef.current = getSource
+  }, [onEnded, getSource])
+  useEffect(() => {
+    crossfadeDurationRef.current = crossfadeDuration
+  }, [crossfadeDuration])
+
+  const ensureAudioGraph = useCallback((): AudioGraph | null => {
+    const existing = graphRef.current
+    if (existing) {
+      if (existing.context.state === 'suspended') {
+        existing.context.resume().catch(() => {})
+      }
+      return existing
+    }
+    // Without Web Audio the decks still hand over, just without fading
+    if (typeof AudioContext === 'undefined') return null
+
+    const context = new AudioContext()
+    const gains = decksRef.current.map((deck, index) => {
+      const gain = context.createGain()
+      gain.gain.value = index === activeDeckRef.current ? 1 : 0
+      context.createMediaElementSource(deck).connect(gain)
+      gain.connect(context.destination)
+      return gain
+    })
+    graphRef.current = { context, gains }
+    return graphRef.current
+  }, [])
+
+  const playDeck = useCallback(
+    (index: number) => {
+      ensureAudioGraph()
+      decksRef.current[index].play().catch(() => {
+        if (index === activeDeckRef.current) setIsPlaying(false)
+      })
+    },
+    [ensureAudioGraph]
+  )
+
+  // Loads the next song into the idle deck
+  const preloadNext = useCallback(() => {
+    const decks = decksRef.current
+    // The idle deck is still fading out; preload once it finishes
+    if (decks.length === 0 || fadeTimeoutRef.current !== null) return
+
+    const idle = 1 - activeDeckRef.current
+    const next = nextSongRef.current
+    const nextId = next?.id ?? null
+    if (deckSongIdsRef.current[idle] === nextId) return
+
+    deckSongIdsRef.current[idle] = nextId
+    setSource(decks[idle], next ? getSourceRef.current?.(next) : undefined)
+  }, [])
+
+  // Makes a deck the only audible one, cutting short any fade in progress
+  const switchToDeck = useCallback((index: number) => {
+    if (fadeTimeoutRef.current !== null) {
+      window.clearTimeout(fadeTimeoutRef.current)
+      fadeTimeoutRef.current = null
+    }
+    const decks = decksRef.current
+    const other = 1 - index
+    if (!decks[other].paused) decks[other].pause()
+    if (index !== activeDeckRef.current) {
+      deckSongIdsRef.current[other] = null
+    }
+
+    activeDeckRef.current = index
+    decks[index].loop = loopRef.current
+    decks[other].loop = false
+
+    const graph = graphRef.current
+    if (graph) {
+      setGainNow(graph.context, graph.gains[index].gain, 1)
+      setGainNow(graph.context, graph.gains[other].gain, 0)
+    }
+  }, [])
+
+  // Starts the preloaded deck for the next song, fading over `fade` seconds.
+  // Returns false when the next song isn't preloaded.
+  const startNextDeck = useCallback(
+    (fade: number): boolean => {
+      const decks = decksRef.current
+      const outgoing = activeDeckRef.current
+      const incoming = 1 - outgoing
+      const next = nextSongRef.current
+      if (!next || deckSongIdsRef.current[incoming] !== next.id) return false
+
+      const graph = graphRef.current
+      if (graph && fade > 0) {
+        activeDeckRef.current = incoming
+        deckSongIdsRef.current[outgoing] = null
+        decks[incoming].loop = loopRef.current
+        scheduleCrossfade(graph.context, graph.gains[outgoing].gain, graph.gains[incoming].gain, fade)
+        fadeTimeoutRef.current = window.setTimeout(() => {
+          fadeTimeoutRef.current = null
+          decks[outgoing].pause()
+          preloadNext()
+        }, fade * 1000)
+      } else {
+        switchToDeck(incoming)
+      }
+
+      handoverSongIdRef.current = next.id
+      playDeck(incoming)
+      onEndedRef.current()
+      return true
+    },
+    [playDeck, preloadNext, switchToDeck]
+  )
+
+  // Create both decks for the lifetime of the player
+  useEffect(() => {
+    const decks = [new Audio(), new Audio()]
+    decks.forEach((deck) => {
+      deck.preload = 'auto'
+    })
+    decksRef.current = decks
+
+    const cleanups = decks.map((deck) => {
+      // Only the audible deck drives the exposed state
+      const isActive = () => decksRef.current[activeDeckRef.current] === deck
+
+      const handleTimeUpdate = () => {
+        if (!isActive()) return
+        setCurrentTime(deck.currentTime)
+        // Begin the crossfade once the track is within the fade length of its end
+        if (loopRef.current || fadeTimeoutRef.current !== null || !graphRef.current) return
+        const fade = getFadeDuration(deck.duration - deck.currentTime, crossfadeDurationRef.current)
+        if (fade > 0) startNextDeck(fade)
+      }
+      const handleDurationChange = () => {
+        if (isActive() && Number.isFinite(deck.duration)) {
+          setDuration(deck.duration)
+        }
+      }
+      const handleProgress = () => {
+        if (isActive()) setBuffered(readBufferedRanges(deck.buffered))
+      }
+      const handlePlay = () => {
+        if (isActive()) setIsPlaying(true)
+      }
+      const handlePause = () => {
+        if (isActive()) setIsPlaying(false)
+      }
+      const handleEnded = () => {
+        if (!isActive()) return
+        // Gapless handover to the preloaded deck, when there is one
+        if (startNextDeck(0)) return
+        setIsPlaying(false)
+        onEndedRef.current()
+      }
+
+      deck.addEventListener('timeupdate', handleTimeUpdate)
+      deck.addEventListener('durationchange', handleDurationChange)
+      deck.addEventListener('progress', handleProgress)
+      deck.addEventListener('play', handlePlay)
+      deck.addEventListener('pause', handlePause)
+      deck.addEventListener('ended', handleEnded)
+
+      return () => {
+        deck.removeEventListener('timeupdate', handleTimeUpdate)
+        deck.removeEventListener('durationchange', handleDurationChange)
+        deck.removeEventListener('progress', handleProgress)
+        deck.removeEventListener('play', handlePlay)
+        deck.removeEventListener('pause', handlePause)
+        deck.removeEventListener('ended', handleEnded)
+        deck.pause()
+        deck.removeAttribute('src')
+      }
+    })
+
+    return () => {
+      if (fadeTimeoutRef.current !== null) {
+        window.clearTimeout(fadeTimeoutRef.current)
+        fadeTimeoutRef.current = null
+      }
+      cleanups.forEach((cleanup) => cleanup())
+      graphRef.current?.context.close().catch(() => {})
+      graphRef.current = null
+      decksRef.current = []
+      deckSongIdsRef.current = [null, null]
+    }
+  }, [startNextDeck])
+
+  // Let the deck restart the track itself instead of firing 'ended'
+  useEffect(() => {
+    loopRef.current = loop
+    const deck = decksRef.current[activeDeckRef.current]
+    if (deck) {
+      deck.loop = loop
+    }
+  }, [loop])
+
+  // Load and start the new track whenever the current song changes
+  useEffect(() => {
+    const decks = decksRef.current
+    if (decks.length === 0) return
+
+    const cuedPosition = cuedPositionRef.current
+    cuedPositionRef.current = null
+    const handoverSongId = handoverSongIdRef.current
+    handoverSongIdRef.current = null
+
+    setCurrentTime(0)
+    setBuffered([])
+    // Use the catalogue duration until the audio metadata arrives
+    setDuration(song?.duration ?? 0)
+
+    // The decks already switched to this song at the end of the last one
+    if (song && song.id === handoverSongId) return
+
+    const active = activeDeckRef.current
+    const idle = 1 - active
+    if (!song) {
+      switchToDeck(active)
+      decks[active].pause()
+      decks[active].removeAttribute('src')
+      deckSongIdsRef.current[active] = null
+      return
+    }
+
+    if (deckSongIdsRef.current[idle] === song.id) {
+      // Already preloaded, e.g. when skipping ahead
+      switchToDeck(idle)
+    } else {
+      switchToDeck(active)
+      setSource(decks[active], getSourceRef.current?.(song))
+      deckSongIdsRef.current[active] = song.id
+    }
+
+    const deck = decks[activeDeckRef.current]
+    if (cuedPosition !== null) {
+      deck.currentTime = cuedPosition
+      setCurrentTime(cuedPosition)
+      setIsPlaying(false)
+      return
+    }
+    playDeck(activeDeckRef.current)
+  }, [song, playDeck, switchToDeck])
+
+  // Preload whatever is up next; runs after the song effect so it targets
+  // the deck left idle by any switch
+  useEffect(() => {
+    nextSongRef.current = nextSong
+    preloadNext()
+  }, [nextSong, preloadNext])
+
+  const play = useCallback(() => {
+    const deck = decksRef.current[activeDeckRef.current]
+    if (!deck || !deck.src) return
+    playDeck(activeDeckRef.current)
+  }, [playDeck])
+
+  const pause = useCallback(() => {
+    const deck = decksRef.current[activeDeckRef.current]
+    if (!deck) return
+    // Drop a half-finished fade so resuming plays only the current song
+    switchToDeck(activeDeckRef.current)
+    deck.pause()
+  }, [switchToDeck])
+
+  const togglePlay = useCallback(() => {
+    const deck = decksRef.current[activeDeckRef.current]
+    if (!deck) return
+    if (deck.paused) {
+      play()
+    } else {
+      pause()
+    }
+  }, [play, pause])
+
+  const seek = useCallback((time: number) => {
+    const deck = decksRef.current[activeDeckRef.current]
+    if (!deck || !deck.src) return
+
+    const upperBound = Number.isFinite(deck.duration) ? deck.duration : Infinity
+    const clampedTime = Math.min(Math.max(0, time), upperBound)
+    deck.currentTime = clampedTime
+    setCurrentTime(clampedTime)
+  }, [])
+
+  const cue = useCallback((position: number) => {
+    cuedPositionRef.current = Math.max(0, position)
+  }, [])
+
+  return {
+    isPlaying,
+    currentTime,
+    duration,
+    buffered,
+    play,
+    pause,
+    togglePlay,
+    seek,
+    cue,
+  }
+}
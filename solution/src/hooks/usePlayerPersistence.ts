@@ -0,0 +1,199 @@
+import { useState, useEffect, useRef } from 'react'
+import type { PlayerState } from '../context/playerReducer'
+import { getPlaylist, songLibrary } from '../api/endpoints'
+import { HttpError } from '../api/errors'
+import type { Playlist } from '../types'
+import {
+  createSession,
+  type Catalogue,
+  type PlayerSession,
+  loadPosition,
+  loadSession,
+  resolveSession,
+  savePosition,
+  saveSession,
+} from '../utils/playerSession'
+
+// How often the playback position is written while playing
+const POSITION_SAVE_INTERVAL_MS = 5000
+// How long the queue has to stay still before it's written; a queue
+// played from the library can hold tens of thousands of songs
+const SESSION_SAVE_DELAY_MS = 1000
+
+interface UsePlayerPersistenceOptions {
+  queueState: PlayerState
+  restoreQueue: (snapshot: PlayerState) => void
+  currentTime: number
+  cue: (position: number) => void
+}
+
+interface UsePlayerPersistenceReturn {
+  isRestoring: boolean
+}
+
+// The playlist a session was playing from, or none if it has since been
+// deleted; any other failure still fails the restore
+async function fetchSourcePlaylist(id: string, signal: AbortSignal): Promise<Playlist[]> {
+  try {
+    const playlist = await getPlaylist(id, { signal })
+    return [playlist.data]
+  } catch (error) {
+    if (error instanceof HttpError && error.status === 404) return []
+    throw error
+  }
+}
+
+// Every song a stored id can refer to: the library plus the playlist the
+// session names, which uses its own ids. A cached library will do;
+// otherwise the request is shared with SongLibrary's.
+async function fetchCatalogue(session: PlayerSession, signal: AbortSignal): Promise<Catalogue> {
+  const [library, playlists] = await Promise.all([
+    songLibrary.read().then((cached) => cached ?? songLibrary.revalidate(signal)),
+    session.source?.type === 'playlist'
+      ? fetchSourcePlaylist(session.source.id, signal)
+      : Promise.resolve([]),
+  ])
+  return { library, playlists }
+}
+
+export function usePlayerPersistence({
+  queueState,
+  restoreQueue,
+  currentTime,
+  cue,
+}: UsePlayerPersistenceOptions): UsePlayerPersistenceReturn {
+  const [isRestoring, setIsRestoring] = useState(true)
+  const {
+    currentSong,
+    queue,
+    originalQueue,
+    history,
+    sourceSongs,
+    source,
+    isShuffled,
+    shuffleStrategy,
+    shuffleSeed,
+    repeatMode,
+  } = queueState
+
+  // Set when a restore fails, so the empty state doesn't overwrite the
+  // stored session before the user changes anything
+  const skipNextSaveRef = useRef(false)
+  const currentSongRef = useRef(currentSong)
+  const currentTimeRef = useRef(currentTime)
+  useEffect(() => {
+    currentSongRef.current = currentSong
+    currentTimeRef.current = currentTime
+  }, [currentSong, currentTime])
+
+  // Rehydrate the stored session once the catalogue is available
+  useEffect(() => {
+    const session = loadSession()
+    if (!session) {
+      setIsRestoring(false)
+      return
+    }
+
+    let cancelled = false
+    const controller = new AbortController()
+    fetchCatalogue(session, controller.signal)
+      .then((catalogue) => {
+        // Don't clobber a song the user started while we were loading
+        if (cancelled || currentSongRef.current) return
+
+        const restored = resolveSession(session, catalogue)
+        if (restored.currentSong) {
+          // Restore paused, at the saved position if it belongs to this song
+          const savedPosition = loadPosition()
+          cue(savedPosition?.songId === restored.currentSong.id ? savedPosition.position : 0)
+        }
+        restoreQueue(restored)
+      })
+      .catch(() => {
+        // Leave the stored session alone so a later reload can retry
+        skipNextSaveRef.current = true
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsRestoring(false)
+        }
+      })
+
+    return () => {
+      cancelled = true
+      controller.abort()
+    }
+  }, [cue, restoreQueue])
+
+  // Snapshot queue state once it settles, so a burst of changes is
+  // written once, and before the page goes away
+  useEffect(() => {
+    if (isRestoring) return
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false
+      return
+    }
+
+    const persistSession = () => {
+      clearTimeout(timeoutId)
+      window.removeEventListener('pagehide', persistSession)
+      saveSession(
+        createSession({
+          currentSong,
+          queue,
+          originalQueue,
+          history,
+          sourceSongs,
+          source,
+          isShuffled,
+          shuffleStrategy,
+          shuffleSeed,
+          repeatMode,
+        })
+      )
+    }
+
+    const timeoutId = setTimeout(persistSession, SESSION_SAVE_DELAY_MS)
+    window.addEventListener('pagehide', persistSession)
+
+    return () => {
+      clearTimeout(timeoutId)
+      window.removeEventListener('pagehide', persistSession)
+    }
+  }, [
+    isRestoring,
+    currentSong,
+    queue,
+    originalQueue,
+    history,
+    sourceSongs,
+    source,
+    isShuffled,
+    shuffleStrategy,
+    shuffleSeed,
+    repeatMode,
+  ])
+
+  // Position changes several times a second, so write it periodically
+  // and when the page is hidden rather than on every update
+  useEffect(() => {
+    if (isRestoring) return
+
+    const persistPosition = () => {
+      const song = currentSongRef.current
+      if (song) {
+        savePosition(song.id, currentTimeRef.current)
+      }
+    }
+
+    const intervalId = setInterval(persistPosition, POSITION_SAVE_INTERVAL_MS)
+    window.addEventListener('pagehide', persistPosition)
+
+    return () => {
+      clearInterval(intervalId)
+      window.removeEventListener('pagehide', persistPosition)
+    }
+  }, [isRestoring])
+
+  return { isRestoring }
+}
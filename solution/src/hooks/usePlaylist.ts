@@ -1,45 +1,165 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import type { Playlist, Song } from '../types'
+import { getPlaylist, savePlaylistEdit, type PlaylistEdit } from '../api/endpoints'
+import { HttpError, getErrorMessage, isAbortError } from '../api/errors'
+import type { Issue } from '../types/schemas'
+
+export interface PlaylistConflict {
+  // The edit the server turned down
+  edit: PlaylistEdit
+  // The playlist as the server has it now
+  current: Playlist
+  // False when the edit no longer applies, e.g. the song was already removed
+  canReapply: boolean
+}
 
 interface UsePlaylistReturn {
   playlist: Playlist | null
   songs: Song[]
   isLoading: boolean
   error: string | null
+  // Why songs were left out of the playlist: the server sent them malformed
+  dropped: Issue[]
   refetch: () => void
+  isSaving: boolean
+  saveError: string | null
+  conflict: PlaylistConflict | null
+  renamePlaylist: (name: string) => void
+  removeSong: (songId: string) => void
+  moveSong: (fromIndex: number, toIndex: number) => void
+  // Resolve a conflict by taking the server's playlist and dropping the edit
+  reloadPlaylist: () => void
+  // Resolve a conflict by making the edit again on top of the server's playlist
+  reapplyChange: () => void
+}
+
+// The current playlist a 409 or 412 sends back with the error
+function getConflictPlaylist(error: unknown): Playlist | null {
+  if (!(error instanceof HttpError) || (error.status !== 409 && error.status !== 412)) {
+    return null
+  }
+  const body = error.body as { playlist?: Playlist } | undefined
+  return body?.playlist ?? null
 }
 
 export function usePlaylist(): UsePlaylistReturn {
   const [playlist, setPlaylist] = useState<Playlist | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [dropped, setDropped] = useState<Issue[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [conflict, setConflict] = useState<PlaylistConflict | null>(null)
+  // One edit at a time, so each is made against the version the last one returned
+  const savingRef = useRef(false)
+  const loadControllerRef = useRef<AbortController | null>(null)
+  const saveControllerRef = useRef<AbortController | null>(null)
 
   const fetchPlaylist = useCallback(async () => {
+    // A newer load supersedes any still in flight
+    loadControllerRef.current?.abort()
+    const controller = new AbortController()
+    loadControllerRef.current = controller
+
     setIsLoading(true)
     setError(null)
     try {
-      const response = await fetch('/api/playlists/1')
-      if (!response.ok) {
-        throw new Error(`Failed to fetch playlist: ${response.status}`)
-      }
-      const data: Playlist = await response.json()
-      setPlaylist(data)
+      const loaded = await getPlaylist('1', { signal: controller.signal })
+      setPlaylist(loaded.data)
+      setDropped(loaded.dropped)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
+      if (!isAbortError(err)) setError(getErrorMessage(err))
     } finally {
-      setIsLoading(false)
+      if (!controller.signal.aborted) setIsLoading(false)
     }
   }, [])
 
   useEffect(() => {
     fetchPlaylist()
+    return () => {
+      loadControllerRef.current?.abort()
+      saveControllerRef.current?.abort()
+    }
   }, [fetchPlaylist])
 
+  const saveEdit = useCallback(async (base: Playlist, edit: PlaylistEdit) => {
+    if (savingRef.current) return
+    savingRef.current = true
+    const controller = new AbortController()
+    saveControllerRef.current = controller
+
+    setIsSaving(true)
+    setSaveError(null)
+    setConflict(null)
+    try {
+      setPlaylist(await savePlaylistEdit(base, edit, { signal: controller.signal }))
+    } catch (err) {
+      if (isAbortError(err)) return
+      const current = getConflictPlaylist(err)
+      if (current) {
+        // 412: someone else saved first; 409: the edit clashes with what they saved
+        setConflict({ edit, current, canReapply: (err as HttpError).status === 412 })
+      } else {
+        setSaveError(getErrorMessage(err))
+      }
+    } finally {
+      savingRef.current = false
+      if (!controller.signal.aborted) setIsSaving(false)
+    }
+  }, [])
+
+  const renamePlaylist = useCallback(
+    (name: string) => {
+      if (playlist) saveEdit(playlist, { type: 'rename', name })
+    },
+    [playlist, saveEdit]
+  )
+
+  const removeSong = useCallback(
+    (songId: string) => {
+      if (playlist) saveEdit(playlist, { type: 'removeSong', songId })
+    },
+    [playlist, saveEdit]
+  )
+
+  const moveSong = useCallback(
+    (fromIndex: number, toIndex: number) => {
+      if (!playlist) return
+      const songIds = playlist.songs.map((song) => song.id)
+      const [moved] = songIds.splice(fromIndex, 1)
+      if (moved === undefined) return
+      songIds.splice(toIndex, 0, moved)
+      saveEdit(playlist, { type: 'reorder', songIds })
+    },
+    [playlist, saveEdit]
+  )
+
+  const reloadPlaylist = useCallback(() => {
+    if (!conflict) return
+    setPlaylist(conflict.current)
+    setConflict(null)
+  }, [conflict])
+
+  const reapplyChange = useCallback(() => {
+    if (!conflict?.canReapply) return
+    setPlaylist(conflict.current)
+    saveEdit(conflict.current, conflict.edit)
+  }, [conflict, saveEdit])
+
   return {
     playlist,
     songs: playlist?.songs ?? [],
     isLoading,
     error,
+    dropped,
     refetch: fetchPlaylist,
+    isSaving,
+    saveError,
+    conflict,
+    renamePlaylist,
+    removeSong,
+    moveSong,
+    reloadPlaylist,
+    reapplyChange,
   }
 }
@@ -1,63 +1,128 @@
-import { useState, useCallback } from 'react'
-import type { Song } from '../types'
-import { shuffle } from '../utils/shuffle'
-
-interface UseQueueReturn {
-  currentSong: Song | null
-  queue: Song[]
-  isShuffled: boolean
-  playSong: (song: Song, sourceSongs: Song[]) => void
+import { useReducer, useCallback, type Dispatch } from 'react'
+import type { QueueSource, ShuffleStrategy, Song } from '../types'
+import type { PlayerState } from '../context/playerReducer'
+import { createSeed } from '../utils/random'
+import {
+  undoablePlayerReducer,
+  initialUndoablePlayerState,
+  type UndoablePlayerAction,
+} from '../context/undoablePlayerReducer'
+
+interface UseQueueReturn extends PlayerState {
+  dispatch: Dispatch<UndoablePlayerAction>
+  canUndo: boolean
+  canRedo: boolean
+  queueReplacements: number
+  playSong: (song: Song, sourceSongs: Song[], source?: QueueSource) => void
   playNext: (song: Song) => void
+  addToQueue: (song: Song) => void
+  removeFromQueue: (index: number) => void
+  moveInQueue: (fromIndex: number, toIndex: number) => void
+  clearQueue: () => void
+  next: () => void
+  previous: () => void
+  trackEnded: () => void
   toggleShuffle: () => void
+  shuffleWithSeed: (seed: number) => void
+  setShuffleStrategy: (strategy: ShuffleStrategy) => void
+  cycleRepeatMode: () => void
+  restoreQueue: (state: PlayerState) => void
+  undo: () => void
+  redo: () => void
 }
 
 export function useQueue(): UseQueueReturn {
-  const [currentSong, setCurrentSong] = useState<Song | null>(null)
-  const [queue, setQueue] = useState<Song[]>([])
-  const [originalQueue, setOriginalQueue] = useState<Song[]>([])
-  const [isShuffled, setIsShuffled] = useState(false)
+  const [{ past, present, future, queueReplacements }, dispatch] = useReducer(
+    undoablePlayerReducer,
+    initialUndoablePlayerState
+  )
 
-  const playSong = useCallback((song: Song, sourceSongs: Song[]) => {
-    // Find the index of the clicked song
-    const clickedIndex = sourceSongs.findIndex((s) => s.id === song.id)
+  const playSong = useCallback((song: Song, sourceSongs: Song[], source?: QueueSource) => {
+    dispatch({ type: 'PLAY_FROM_SOURCE', song, sourceSongs, source })
+  }, [])
 
-    // Set current song and populate queue with songs after the clicked one
-    setCurrentSong(song)
-    const newQueue = sourceSongs.slice(clickedIndex + 1)
-    setQueue(newQueue)
-    setOriginalQueue(newQueue)
+  const playNext = useCallback((song: Song) => {
+    dispatch({ type: 'PLAY_NEXT', song })
+  }, [])
 
-    // Reset shuffle state when starting a new song from source
-    setIsShuffled(false)
+  const addToQueue = useCallback((song: Song) => {
+    dispatch({ type: 'ADD_TO_QUEUE', song })
   }, [])
 
-  const playNext = useCallback((song: Song) => {
-    // Insert song at the front of the queue
-    setQueue((q) => [song, ...q])
-    // Also update original queue if we're not shuffled
-    setOriginalQueue((q) => [song, ...q])
+  const removeFromQueue = useCallback((index: number) => {
+    dispatch({ type: 'REMOVE_FROM_QUEUE', index })
+  }, [])
+
+  const moveInQueue = useCallback((fromIndex: number, toIndex: number) => {
+    dispatch({ type: 'MOVE_IN_QUEUE', fromIndex, toIndex })
+  }, [])
+
+  const clearQueue = useCallback(() => {
+    dispatch({ type: 'CLEAR_QUEUE' })
+  }, [])
+
+  const next = useCallback(() => {
+    dispatch({ type: 'NEXT' })
+  }, [])
+
+  const previous = useCallback(() => {
+    dispatch({ type: 'PREVIOUS' })
+  }, [])
+
+  const trackEnded = useCallback(() => {
+    dispatch({ type: 'TRACK_ENDED' })
   }, [])
 
+  // The seed is drawn here so the reducer stays pure
   const toggleShuffle = useCallback(() => {
-    setIsShuffled((prev) => {
-      if (!prev) {
-        // Turning shuffle ON - shuffle the current queue
-        setQueue((q) => shuffle(q))
-        return true
-      } else {
-        // Turning shuffle OFF - restore original order
-        setQueue(originalQueue)
-        return false
-      }
-    })
-  }, [originalQueue])
+    dispatch({ type: 'TOGGLE_SHUFFLE', seed: createSeed() })
+  }, [])
+
+  const shuffleWithSeed = useCallback((seed: number) => {
+    dispatch({ type: 'SHUFFLE_WITH_SEED', seed })
+  }, [])
+
+  const setShuffleStrategy = useCallback((strategy: ShuffleStrategy) => {
+    dispatch({ type: 'SET_SHUFFLE_STRATEGY', strategy })
+  }, [])
+
+  const cycleRepeatMode = useCallback(() => {
+    dispatch({ type: 'CYCLE_REPEAT_MODE' })
+  }, [])
+
+  const restoreQueue = useCallback((restored: PlayerState) => {
+    dispatch({ type: 'RESTORE', state: restored })
+  }, [])
+
+  const undo = useCallback(() => {
+    dispatch({ type: 'UNDO' })
+  }, [])
+
+  const redo = useCallback(() => {
+    dispatch({ type: 'REDO' })
+  }, [])
 
   return {
-    currentSong,
-    queue,
-    isShuffled,
+    ...present,
+    dispatch,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    queueReplacements,
     playSong,
     playNext,
+    addToQueue,
+    removeFromQueue,
+    moveInQueue,
+    clearQueue,
+    next,
+    previous,
+    trackEnded,
     toggleShuffle,
+    shuffleWithSeed,
+    setShuffleStrategy,
+    cycleRepeatMode,
+    restoreQueue,
+    undo,
+    redo,
   }
 }
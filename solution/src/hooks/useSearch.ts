@@ -1,12 +1,34 @@
-import { useState, useMemo, useEffect } from 'react'
+import { useState, useMemo, useEffect, useRef } from 'react'
 import type { Song } from '../types'
+import type { SearchMatches } from '../utils/fuzzySearch'
+import { createSearchClient, type SearchClient } from '../utils/searchClient'
+import {
+  getSuggestions,
+  parseQuery,
+  type QueryError,
+  type Suggestion,
+} from '../utils/searchQuery'
 
 interface UseSearchReturn {
   searchQuery: string
   setSearchQuery: (query: string) => void
+  // Best match first while searching; the whole library otherwise
   filteredSongs: Song[]
+  // Where each result matched, by song id, for highlighting
+  matches: Map<string, SearchMatches>
+  // Why the query can't be read; nothing matches until it's fixed
+  queryError: QueryError | null
+  // Ways to finish the term being typed
+  suggestions: Suggestion[]
 }
 
+interface SearchResults {
+  filteredSongs: Song[]
+  matches: Map<string, SearchMatches>
+}
+
+const NO_MATCHES = new Map<string, SearchMatches>()
+
 export function useSearch(songs: Song[]): UseSearchReturn {
   const [searchQuery, setSearchQuery] = useState('')
   const [debouncedQuery, setDebouncedQuery] = useState('')
@@ -19,22 +41,67 @@ export function useSearch(songs: Song[]): UseSearchReturn {
     return () => clearTimeout(timer)
   }, [searchQuery])
 
-  // Filter songs based on debounced query
-  const filteredSongs = useMemo(() => {
-    if (!debouncedQuery.trim()) {
-      return songs
+  // Indexing and ranking run in a worker, so typing stays responsive
+  const clientRef = useRef<SearchClient | null>(null)
+  const [results, setResults] = useState<SearchResults | null>(null)
+
+  useEffect(() => {
+    const client = createSearchClient()
+    clientRef.current = client
+    return () => {
+      client.dispose()
+      clientRef.current = null
     }
-    const query = debouncedQuery.toLowerCase()
-    return songs.filter(
-      (song) =>
-        song.title.toLowerCase().includes(query) ||
-        song.artist.toLowerCase().includes(query)
-    )
-  }, [songs, debouncedQuery])
+  }, [])
+
+  useEffect(() => {
+    clientRef.current?.setSongs(songs)
+  }, [songs])
+
+  const artists = useMemo(
+    () => [...new Set(songs.map((song) => song.artist))].sort((a, b) => a.localeCompare(b)),
+    [songs]
+  )
+
+  const parsed = useMemo(() => parseQuery(debouncedQuery), [debouncedQuery])
+
+  // Rank songs against the debounced query. A newer query or library
+  // replaces the search, so only the latest results arrive.
+  useEffect(() => {
+    const client = clientRef.current
+    if (!client || !debouncedQuery.trim() || !parsed.ok) return
+
+    let isCurrent = true
+    void client.search(parsed.query).then((hits) => {
+      if (!isCurrent || !hits) return
+      setResults({
+        filteredSongs: hits.map((hit) => songs[hit.index]),
+        matches: new Map(hits.map((hit) => [songs[hit.index].id, hit.matches])),
+      })
+    })
+    return () => {
+      isCurrent = false
+    }
+  }, [songs, debouncedQuery, parsed])
+
+  // Earlier results stay up while a search runs, rather than flashing the
+  // whole library
+  let filteredSongs = songs
+  let matches = NO_MATCHES
+  if (debouncedQuery.trim()) {
+    filteredSongs = parsed.ok ? (results?.filteredSongs ?? songs) : []
+    matches = parsed.ok ? (results?.matches ?? NO_MATCHES) : NO_MATCHES
+  }
+
+  // Suggestions follow the typing rather than the debounced query
+  const suggestions = useMemo(() => getSuggestions(searchQuery, artists), [searchQuery, artists])
 
   return {
     searchQuery,
     setSearchQuery,
     filteredSongs,
+    matches,
+    queryError: parsed.ok ? null : parsed.error,
+    suggestions,
   }
 }
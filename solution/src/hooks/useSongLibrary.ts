@@ -1,43 +1,83 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import type { Song } from '../types'
+import { songLibrary } from '../api/endpoints'
+import { getErrorMessage, isAbortError } from '../api/errors'
+import type { Issue } from '../types/schemas'
 
 interface UseSongLibraryReturn {
   songs: Song[]
   isLoading: boolean
+  // True while a cached library is being checked with the server
+  isRefreshing: boolean
   error: string | null
+  // Why the cached library couldn't be checked, while it's still shown
+  refreshError: string | null
+  // Why songs were left out of the library: the server sent them malformed
+  dropped: Issue[]
   refetch: () => void
 }
 
 export function useSongLibrary(): UseSongLibraryReturn {
-  const [songs, setSongs] = useState<Song[]>([])
-  const [isLoading, setIsLoading] = useState(true)
+  // A library loaded earlier in the session shows straight away
+  const [songs, setSongs] = useState<Song[]>(() => songLibrary.peek() ?? [])
+  const [isLoading, setIsLoading] = useState(() => songLibrary.peek() === undefined)
+  const [isRefreshing, setIsRefreshing] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [refreshError, setRefreshError] = useState<string | null>(null)
+  const [dropped, setDropped] = useState<Issue[]>(() => songLibrary.dropped())
+
+  const controllerRef = useRef<AbortController | null>(null)
 
   const fetchSongs = useCallback(async () => {
-    setIsLoading(true)
+    // A newer load supersedes any still in flight
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+
     setError(null)
+    setRefreshError(null)
+    const cached = await songLibrary.read()
+    if (controller.signal.aborted) return
+    if (cached) {
+      setSongs(cached)
+      setDropped(songLibrary.dropped())
+      setIsLoading(false)
+      setIsRefreshing(true)
+    } else {
+      setIsLoading(true)
+    }
+
     try {
-      const response = await fetch('/api/songs')
-      if (!response.ok) {
-        throw new Error(`Failed to fetch songs: ${response.status}`)
-      }
-      const data: Song[] = await response.json()
-      setSongs(data)
+      setSongs(await songLibrary.revalidate(controller.signal))
+      setDropped(songLibrary.dropped())
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
+      if (isAbortError(err)) return
+      // The cached library is still worth showing
+      if (cached) {
+        setRefreshError(getErrorMessage(err))
+      } else {
+        setError(getErrorMessage(err))
+      }
     } finally {
-      setIsLoading(false)
+      if (!controller.signal.aborted) {
+        setIsLoading(false)
+        setIsRefreshing(false)
+      }
     }
   }, [])
 
   useEffect(() => {
     fetchSongs()
+    return () => controllerRef.current?.abort()
   }, [fetchSongs])
 
   return {
     songs,
     isLoading,
+    isRefreshing,
     error,
+    refreshError,
+    dropped,
     refetch: fetchSongs,
   }
 }
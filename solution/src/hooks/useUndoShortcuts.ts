@@ -0,0 +1,39 @@
+import { useEffect } from 'react'
+
+interface UseUndoShortcutsOptions {
+  onUndo: () => void
+  onRedo: () => void
+}
+
+// Text fields keep their native undo behaviour
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return (
+    target.isContentEditable ||
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT'
+  )
+}
+
+/**
+ * Binds Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) to undo and redo
+ */
+export function useUndoShortcuts({ onUndo, onRedo }: UseUndoShortcutsOptions): void {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      if (event.key.toLowerCase() !== 'z' || isEditableTarget(event.target)) return
+
+      event.preventDefault()
+      if (event.shiftKey) {
+        onRedo()
+      } else {
+        onUndo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onUndo, onRedo])
+}
@@ -1,9 +1,19 @@
-import { useState, useCallback, useRef, useEffect } from 'react'
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react'
 
 interface UseVirtualScrollOptions {
+  // Height of every item, or of items estimateSize doesn't cover
   itemHeight: number
   totalItems: number
   bufferCount?: number
+  // Guesses an item's height until it's rendered and measured, for lists
+  // whose items differ, like group headers among songs
+  estimateSize?: (index: number) => number
+  // Tells items apart, so a measured height follows its item when the list
+  // changes. Defaults to the position.
+  getItemKey?: (index: number) => string | number
+  // Items, in order, that stay pinned to the top once scrolled past, until
+  // the next one pushes them off
+  stickyIndices?: number[]
 }
 
 interface UseVirtualScrollReturn {
@@ -14,18 +24,77 @@ interface UseVirtualScrollReturn {
   onScroll: (event: React.UIEvent<HTMLDivElement>) => void
   scrollContainerRef: React.RefObject<HTMLDivElement | null>
   scrollToIndex: (index: number) => void
+  // Ref for rendered items, which need a data-index, to measure their height
+  measureElement: (element: HTMLElement | null) => (() => void) | undefined
+  // The sticky item pinned at the top, if one has been scrolled past
+  stickyIndex: number | null
+  // How far the next sticky item has pushed the pinned one up (zero or less)
+  stickyOffset: number
+}
+
+const NO_STICKY_INDICES: number[] = []
+
+const byPosition = (index: number) => index
+
+/**
+ * Finds the last of count items starting at or before position
+ * @param startOf - Where item i starts; must grow with i
+ * @returns Its index, or -1 if none
+ */
+function findLastAtOrBefore(
+  count: number,
+  startOf: (i: number) => number,
+  position: number
+): number {
+  let low = 0
+  let high = count - 1
+  let found = -1
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (startOf(mid) <= position) {
+      found = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+  return found
 }
 
 export function useVirtualScroll({
   itemHeight,
   totalItems,
   bufferCount = 5,
+  estimateSize,
+  getItemKey = byPosition,
+  stickyIndices = NO_STICKY_INDICES,
 }: UseVirtualScrollOptions): UseVirtualScrollReturn {
   const [scrollTop, setScrollTop] = useState(0)
   const [containerHeight, setContainerHeight] = useState(0)
   const scrollContainerRef = useRef<HTMLDivElement>(null)
   const prevTotalItems = useRef(totalItems)
 
+  // Measured heights by item key
+  const [measuredSizes, setMeasuredSizes] = useState(() => new Map<string | number, number>())
+  const itemObserver = useRef<ResizeObserver | null>(null)
+
+  // Where each item starts, then where the last one ends. Cached between
+  // scrolls; finding the items on screen is a binary search over it.
+  const offsets = useMemo(() => {
+    const starts = new Float64Array(totalItems + 1)
+    for (let i = 0; i < totalItems; i++) {
+      const size = measuredSizes.get(getItemKey(i)) ?? estimateSize?.(i) ?? itemHeight
+      starts[i + 1] = starts[i] + size
+    }
+    return starts
+  }, [totalItems, itemHeight, estimateSize, getItemKey, measuredSizes])
+
+  // The measuring observer reads these after the render that set them
+  const layoutRef = useRef({ offsets, getItemKey, scrollTop })
+  useEffect(() => {
+    layoutRef.current = { offsets, getItemKey, scrollTop }
+  }, [offsets, getItemKey, scrollTop])
+
   // Measure container height on mount and resize
   useEffect(() => {
     const container = scrollContainerRef.current
@@ -65,11 +134,55 @@ export function useVirtualScroll({
     }
   }, [])
 
+  useEffect(() => {
+    return () => itemObserver.current?.disconnect()
+  }, [])
+
+  // One observer watches every rendered item, and re-lays out the list once
+  // per batch of size changes
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!element) return
+
+    itemObserver.current ??= new ResizeObserver((entries) => {
+      const { offsets: starts, getItemKey: keyOf, scrollTop: top } = layoutRef.current
+      const measured = new Map<string | number, number>()
+      let shift = 0
+
+      for (const entry of entries) {
+        const index = Number((entry.target as HTMLElement).dataset.index)
+        if (!Number.isInteger(index) || index < 0 || index >= starts.length - 1) continue
+        const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height
+        const laidOut = starts[index + 1] - starts[index]
+        // Unrendered (display: none) items measure 0; keep the estimate
+        if (height <= 0 || height === laidOut) continue
+
+        measured.set(keyOf(index), height)
+        // Items above the view changing size would move what's on screen
+        if (starts[index] < top) shift += height - laidOut
+      }
+
+      const container = scrollContainerRef.current
+      if (shift !== 0 && container) {
+        container.scrollTop += shift
+        setScrollTop(container.scrollTop)
+      }
+      if (measured.size > 0) {
+        setMeasuredSizes((sizes) => new Map([...sizes, ...measured]))
+      }
+    })
+
+    const observer = itemObserver.current
+    observer.observe(element)
+    return () => observer.unobserve(element)
+  }, [])
+
+  const totalHeight = offsets[totalItems]
+
   // Reset scroll position when total items changes significantly (e.g., after filtering)
   useEffect(() => {
     if (totalItems !== prevTotalItems.current) {
       // If current scroll position would be beyond new content, reset to top
-      const maxScrollTop = Math.max(0, totalItems * itemHeight - containerHeight)
+      const maxScrollTop = Math.max(0, totalHeight - containerHeight)
       if (scrollTop > maxScrollTop) {
         setScrollTop(0)
         if (scrollContainerRef.current) {
@@ -78,22 +191,36 @@ export function useVirtualScroll({
       }
       prevTotalItems.current = totalItems
     }
-  }, [totalItems, itemHeight, containerHeight, scrollTop])
+  }, [totalItems, totalHeight, containerHeight, scrollTop])
+
+  const startOf = (index: number) => offsets[index]
 
   // Calculate visible range with buffer
   // Use a minimum of 10 items if container height hasn't been measured yet
-  const visibleCount = containerHeight > 0 ? Math.ceil(containerHeight / itemHeight) : 10
-  const startIndex = Math.max(0, Math.floor(scrollTop / itemHeight) - bufferCount)
-  const endIndex = Math.min(
-    totalItems - 1,
-    Math.floor(scrollTop / itemHeight) + visibleCount + bufferCount
-  )
+  const firstVisible = Math.max(0, findLastAtOrBefore(totalItems, startOf, scrollTop))
+  const lastVisible =
+    containerHeight > 0
+      ? findLastAtOrBefore(totalItems, startOf, scrollTop + containerHeight)
+      : firstVisible + 10
+  const startIndex = Math.max(0, firstVisible - bufferCount)
+  const endIndex = Math.min(totalItems - 1, lastVisible + bufferCount)
 
   // Offset for positioning visible items
-  const offsetY = startIndex * itemHeight
+  const offsetY = offsets[startIndex]
 
-  // Total height for scrollbar
-  const totalHeight = totalItems * itemHeight
+  // The last sticky item scrolled up to the top stays there, until the
+  // next one reaches the bottom of it and pushes it up
+  const stickyPosition = findLastAtOrBefore(
+    stickyIndices.length,
+    (i) => offsets[stickyIndices[i]],
+    scrollTop
+  )
+  const stickyIndex = stickyPosition === -1 ? null : stickyIndices[stickyPosition]
+  let stickyOffset = 0
+  if (stickyIndex !== null && stickyPosition + 1 < stickyIndices.length) {
+    const stickyBottom = scrollTop + offsets[stickyIndex + 1] - offsets[stickyIndex]
+    stickyOffset = Math.min(0, offsets[stickyIndices[stickyPosition + 1]] - stickyBottom)
+  }
 
   // Scroll handler with useCallback for stability
   const onScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
@@ -105,10 +232,16 @@ export function useVirtualScroll({
     const container = scrollContainerRef.current
     if (!container) return
 
-    const targetScrollTop = index * itemHeight
+    let targetScrollTop = offsets[index] ?? 0
+    // Keep the item clear of the sticky item that will be pinned over it
+    const above = findLastAtOrBefore(stickyIndices.length, (i) => stickyIndices[i], index)
+    if (above !== -1 && stickyIndices[above] !== index) {
+      const sticky = stickyIndices[above]
+      targetScrollTop = Math.max(0, targetScrollTop - (offsets[sticky + 1] - offsets[sticky]))
+    }
     container.scrollTop = targetScrollTop
     setScrollTop(targetScrollTop)
-  }, [itemHeight])
+  }, [offsets, stickyIndices])
 
   return {
     startIndex,
@@ -118,5 +251,8 @@ export function useVirtualScroll({
     onScroll,
     scrollContainerRef,
     scrollToIndex,
+    measureElement,
+    stickyIndex,
+    stickyOffset,
   }
 }
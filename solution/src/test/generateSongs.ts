@@ -0,0 +1,60 @@
+import type { Song } from '../types'
+import { createSeededRandom } from '../utils/random'
+
+const WORDS = [
+  'love', 'night', 'heart', 'light', 'fire', 'dream', 'rain', 'summer', 'blue', 'gold',
+  'river', 'city', 'road', 'home', 'star', 'moon', 'ocean', 'dance', 'wild', 'young',
+  'forever', 'lonely', 'electric', 'midnight', 'shadow', 'silver', 'thunder', 'paradise',
+  'broken', 'golden', 'echo', 'highway', 'winter', 'velvet', 'neon', 'garden', 'stranger',
+  'memory', 'sunrise', 'falling', 'running', 'burning', 'dancing', 'waiting', 'heaven',
+  'angel', 'devil', 'crystal', 'diamond', 'storm', 'wave', 'tide', 'desert', 'mountain',
+  'island', 'paper', 'glass', 'stone', 'honey', 'sugar', 'coffee', 'radio', 'tonight',
+  'yesterday', 'tomorrow', 'always', 'never', 'again', 'alone', 'together', 'colours',
+  'canción', 'corazón', 'noche', 'été', 'rêve', 'lumière', 'träume', 'für', 'sueño', 'mañana',
+]
+const LINKS = ['the', 'of', 'in', 'my', 'your', 'and', 'to', 'on', 'a', 'me']
+const SYLLABLES = [
+  'ka', 'lo', 'mi', 'ra', 'ten', 'vel', 'dor', 'sha', 'nu', 'bri', 'ko', 'zan', 'el', 'ro',
+  'fi', 'ma', 'quin', 'tar', 'lé', 'sø', 'jo', 'ny', 'va', 'ück', 'ber', 'gan', 'is', 'ou',
+]
+const BAND_WORDS = ['band', 'brothers', 'collective', 'orchestra', 'club', 'society', 'kids']
+
+/**
+ * Makes a library of plausible songs for tests and benchmarks. The same
+ * count and seed always give the same songs. Artists have made-up names,
+ * some accented, so the vocabulary grows with the library like a real
+ * catalogue's does.
+ */
+export function generateSongs(count: number, seed = 1): Song[] {
+  const random = createSeededRandom(seed)
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)]
+  const capitalize = (word: string) => word[0].toUpperCase() + word.slice(1)
+  const name = () =>
+    capitalize(Array.from({ length: 2 + Math.floor(random() * 2) }, () => pick(SYLLABLES)).join(''))
+  const phrase = (length: number) =>
+    Array.from({ length }, (_, i) =>
+      capitalize(i > 0 && i < length - 1 && random() < 0.3 ? pick(LINKS) : pick(WORDS))
+    ).join(' ')
+
+  const artists = Array.from({ length: Math.max(1, Math.ceil(count / 25)) }, () => {
+    const roll = random()
+    if (roll < 0.4) return `${name()} ${name()}`
+    if (roll < 0.7) return `The ${capitalize(pick(WORDS))} ${capitalize(pick(BAND_WORDS))}`
+    return name()
+  })
+  const albums = artists.map(() =>
+    Array.from({ length: 1 + Math.floor(random() * 3) }, () => phrase(1 + Math.floor(random() * 3)))
+  )
+
+  return Array.from({ length: count }, (_, i) => {
+    const artist = Math.floor(random() * artists.length)
+    return {
+      id: `generated-${i}`,
+      title: phrase(1 + Math.floor(random() * 4)),
+      artist: artists[artist],
+      album: pick(albums[artist]),
+      albumArt: '',
+      duration: 90 + Math.floor(random() * 360),
+    }
+  })
+}
@@ -10,5 +10,46 @@ export interface Song {
 export interface Playlist {
   id: string
   name: string
+  description?: string
   songs: Song[]
+  // Goes up on every server-side edit; sent back as If-Match
+  version?: number
 }
+
+export interface AlbumSummary {
+  id: string
+  title: string
+  artistId: string
+  artist: string
+  // Artwork of the first track
+  albumArt: string
+  songCount: number
+  // Seconds
+  totalDuration: number
+}
+
+export interface Album extends AlbumSummary {
+  songs: Song[]
+}
+
+export interface ArtistSummary {
+  id: string
+  name: string
+  albumCount: number
+  songCount: number
+  // Seconds
+  totalDuration: number
+}
+
+export interface Artist extends ArtistSummary {
+  albums: AlbumSummary[]
+  songs: Song[]
+}
+
+export type RepeatMode = 'off' | 'all' | 'one'
+
+export type ShuffleStrategy = 'random' | 'smart'
+
+// A list songs can be played from that can be fetched again by name: the
+// whole library in its own order, or a playlist
+export type QueueSource = { type: 'library' } | { type: 'playlist'; id: string }
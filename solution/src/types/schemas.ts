@@ -0,0 +1,13 @@
+import {
+  playlistSchema as sharedPlaylistSchema,
+  songListSchema as sharedSongListSchema,
+  type Schema,
+} from '../../../api/schemas'
+import type { Playlist, Song } from './index'
+
+export { formatIssues, type Issue, type Schema } from '../../../api/schemas'
+
+// The API's schemas, typed against this app's types so the two can't drift
+// apart without a compile error
+export const songListSchema: Schema<Song[]> = sharedSongListSchema
+export const playlistSchema: Schema<Playlist> = sharedPlaylistSchema
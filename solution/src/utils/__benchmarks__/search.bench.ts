@@ -0,0 +1,46 @@
+import { bench, describe } from 'vitest'
+import { createSearchIndex, searchSongs } from '../fuzzySearch'
+import { buildInvertedIndex, searchInvertedIndex } from '../searchIndex'
+import { parseQuery } from '../searchQuery'
+import { generateSongs } from '../../test/generateSongs'
+
+// Compares scoring every song with searching the inverted index, on a
+// library ten times the size of the biggest real one
+const songs = generateSongs(100_000)
+const linear = createSearchIndex(songs)
+const inverted = buildInvertedIndex(songs)
+
+const QUERIES = [
+  ['a prefix', 'midn'],
+  ['a typo', 'midnigth'],
+  ['two words', 'golden river'],
+  ['a field and a phrase', 'artist:the "the night"'],
+  ['a duration and an exclusion', 'duration:>400 -love'],
+]
+
+describe('indexing 100k songs', () => {
+  bench('createSearchIndex', () => {
+    createSearchIndex(songs)
+  })
+
+  bench('buildInvertedIndex', () => {
+    buildInvertedIndex(songs)
+  })
+})
+
+for (const [name, text] of QUERIES) {
+  const parsed = parseQuery(text)
+  if (!parsed.ok) throw new Error(parsed.error.message)
+
+  describe(`searching 100k songs for ${name}`, () => {
+    bench('searchSongs', () => {
+      searchSongs(linear, parsed.query)
+    })
+
+    bench('searchInvertedIndex', async () => {
+      // Typing repeats words, but a benchmark shouldn't get them for free
+      inverted.lookups.clear()
+      await searchInvertedIndex(inverted, parsed.query)
+    })
+  })
+}
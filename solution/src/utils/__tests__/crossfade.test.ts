@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { equalPowerCurve, getFadeDuration } from '../crossfade'
+
+describe('equalPowerCurve', () => {
+  it('fades between silence and full volume', () => {
+    const fadeIn = equalPowerCurve('in')
+    const fadeOut = equalPowerCurve('out')
+
+    expect(fadeIn[0]).toBeCloseTo(0)
+    expect(fadeIn[fadeIn.length - 1]).toBeCloseTo(1)
+    expect(fadeOut[0]).toBeCloseTo(1)
+    expect(fadeOut[fadeOut.length - 1]).toBeCloseTo(0)
+  })
+
+  it('keeps the combined power constant', () => {
+    const fadeIn = equalPowerCurve('in')
+    const fadeOut = equalPowerCurve('out')
+
+    fadeIn.forEach((value, i) => {
+      expect(value ** 2 + fadeOut[i] ** 2).toBeCloseTo(1)
+    })
+  })
+})
+
+describe('getFadeDuration', () => {
+  it('waits until the track is within the crossfade length of its end', () => {
+    expect(getFadeDuration(10, 5)).toBe(0)
+    expect(getFadeDuration(5, 5)).toBe(5)
+    expect(getFadeDuration(3.5, 5)).toBe(3.5)
+  })
+
+  it('never fades when crossfade is off or the length is unknown', () => {
+    expect(getFadeDuration(3, 0)).toBe(0)
+    expect(getFadeDuration(NaN, 5)).toBe(0)
+    expect(getFadeDuration(Infinity, 5)).toBe(0)
+  })
+})
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest'
+import fc from 'fast-check'
+import { createSearchIndex, foldText, searchSongs, type SearchIndex } from '../fuzzySearch'
+import { parseQuery } from '../searchQuery'
+import type { Song } from '../../types'
+
+const song = (id: string, title: string, artist = 'Someone', album = 'Something'): Song => ({
+  id,
+  title,
+  artist,
+  album,
+  albumArt: '',
+  duration: 200,
+})
+
+const library = [
+  song('1', 'Blinding Lights', 'The Weeknd', 'After Hours'),
+  song('2', 'Halo', 'Beyoncé', 'I Am... Sasha Fierce'),
+  song('3', 'Lights Out', 'Lighthouse Family', 'Ocean Drive'),
+  song('4', 'Hello', 'Adele', '25'),
+  song('5', 'Yellow', 'Coldplay', 'Parachutes'),
+  song('6', 'Starlight', 'Muse', 'Black Holes and Revelations'),
+]
+const index = createSearchIndex(library)
+
+function search(text: string, searched: SearchIndex = index) {
+  const parsed = parseQuery(text)
+  if (!parsed.ok) throw new Error(parsed.error.message)
+  return searchSongs(searched, parsed.query)
+}
+
+const ids = (query: string) => search(query).map((result) => result.song.id)
+
+describe('foldText', () => {
+  it('lowercases and strips accents', () => {
+    expect(foldText('Beyoncé')).toBe('beyonce')
+    expect(foldText('MÖTLEY CRÜE')).toBe('motley crue')
+  })
+})
+
+describe('searchSongs', () => {
+  it('matches every song, in library order, for an empty query', () => {
+    expect(ids('  ')).toEqual(library.map((song) => song.id))
+  })
+
+  it('matches words by prefix', () => {
+    expect(ids('blin')).toEqual(['1'])
+  })
+
+  it('ranks prefixes over matches inside words', () => {
+    expect(ids('light')).toEqual(['1', '3', '6'])
+  })
+
+  it('ranks title matches over artist matches over album matches', () => {
+    const songs = [
+      song('album', 'One', 'Two', 'Muse'),
+      song('artist', 'One', 'Muse'),
+      song('title', 'Muse'),
+    ]
+    const results = search('muse', createSearchIndex(songs))
+
+    expect(results.map((result) => result.song.id)).toEqual(['title', 'artist', 'album'])
+  })
+
+  it('forgives typos', () => {
+    expect(ids('blnding')).toEqual(['1'])
+    expect(ids('coldpaly')).toEqual(['5'])
+  })
+
+  it('ranks exact matches above typos', () => {
+    // "hello" is a typo away from "yellow", and exact for Adele's song
+    expect(ids('hello')).toEqual(['4', '5'])
+  })
+
+  it('does not guess at short words', () => {
+    expect(ids('hal')).toEqual(['2'])
+    expect(ids('hxl')).toEqual([])
+  })
+
+  it('ignores accents on either side', () => {
+    expect(ids('beyonce')).toEqual(['2'])
+    expect(ids('BEYONCÉ')).toEqual(['2'])
+  })
+
+  it('needs every word to match', () => {
+    expect(ids('lights weeknd')).toEqual(['1'])
+    expect(ids('lights adele')).toEqual([])
+  })
+
+  it('searches albums too', () => {
+    expect(ids('parachutes')).toEqual(['5'])
+  })
+
+  it('reports match ranges in the original text', () => {
+    const [result] = search('beyonce hal')
+
+    expect(result.matches).toEqual({ title: [[0, 3]], artist: [[0, 7]] })
+  })
+
+  it('highlights the part of a word a typo matched', () => {
+    const [result] = search('blnding')
+
+    expect(result.matches.title).toEqual([[0, 8]])
+  })
+
+  it('finds every song by any word of its title', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...library), fc.nat(), (target, n) => {
+        const words = foldText(target.title).split(/\s+/)
+        const word = words[n % words.length]
+
+        expect(ids(word)).toContain(target.id)
+      })
+    )
+  })
+
+  describe('query language', () => {
+    it('limits words to a field', () => {
+      expect(ids('artist:blinding')).toEqual([])
+      expect(ids('artist:lighthouse')).toEqual(['3'])
+      expect(ids('album:hours')).toEqual(['1'])
+    })
+
+    it('matches quoted phrases exactly and in order', () => {
+      expect(ids('"blinding lights"')).toEqual(['1'])
+      expect(ids('"lights blinding"')).toEqual([])
+      expect(ids('"blnding lights"')).toEqual([])
+      expect(ids('artist:"lighthouse family"')).toEqual(['3'])
+    })
+
+    it('highlights a whole phrase', () => {
+      const [result] = search('album:"ocean drive"')
+
+      expect(result.matches).toEqual({ album: [[0, 11]] })
+    })
+
+    it('excludes songs matching a negated term, without forgiving typos', () => {
+      expect(ids('lights -out')).toEqual(['1'])
+      // "outt" would be a typo for "out", but exclusions must be exact
+      expect(ids('lights -outt')).toEqual(['1', '3'])
+      expect(ids('-artist:muse light')).toEqual(['1', '3'])
+    })
+
+    it('matches either side of OR, best first', () => {
+      expect(ids('halo OR yellow')).toEqual(['2', '5'])
+      expect(ids('artist:adele OR artist:muse')).toEqual(['4', '6'])
+    })
+
+    it('binds words together more tightly than OR', () => {
+      // (lights AND weeknd) OR halo
+      expect(ids('lights weeknd OR halo')).toEqual(['1', '2'])
+    })
+
+    it('compares durations in seconds or minutes:seconds', () => {
+      const songs = [song('short', 'Short'), song('long', 'Long')]
+      songs[0].duration = 150
+      songs[1].duration = 330
+      const searched = createSearchIndex(songs)
+      const durationIds = (query: string) => search(query, searched).map((result) => result.song.id)
+
+      expect(durationIds('duration:>300')).toEqual(['long'])
+      expect(durationIds('duration:<=2:30')).toEqual(['short'])
+      expect(durationIds('duration:150')).toEqual(['short'])
+      expect(durationIds('duration:>=100 -long')).toEqual(['short'])
+    })
+
+    it('highlights only the branches of OR that matched', () => {
+      const [result] = search('halo OR yellow')
+
+      expect(result.matches).toEqual({ title: [[0, 4]] })
+    })
+  })
+})
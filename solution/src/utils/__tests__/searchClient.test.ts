@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  createSearchClient,
+  type SearchWorkerRequest,
+  type SearchWorkerResponse,
+} from '../searchClient'
+import { parseQuery, type SearchQuery } from '../searchQuery'
+import { generateSongs } from '../../test/generateSongs'
+
+const songs = generateSongs(5000)
+
+function parse(text: string): SearchQuery {
+  const parsed = parseQuery(text)
+  if (!parsed.ok) throw new Error(parsed.error.message)
+  return parsed.query
+}
+
+// Stands in for the worker, answering only when the test says so
+class FakeWorker {
+  static latest: FakeWorker
+  onmessage: ((event: MessageEvent<SearchWorkerResponse>) => void) | null = null
+  onerror: ((event: ErrorEvent) => void) | null = null
+  messages: SearchWorkerRequest[] = []
+  terminated = false
+
+  constructor() {
+    FakeWorker.latest = this
+  }
+
+  postMessage(message: SearchWorkerRequest) {
+    this.messages.push(message)
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+
+  reply(response: SearchWorkerResponse) {
+    this.onmessage?.(new MessageEvent('message', { data: response }))
+  }
+}
+
+describe('createSearchClient', () => {
+  describe('without workers', () => {
+    it('searches on this thread', async () => {
+      const client = createSearchClient()
+      client.setSongs(songs)
+
+      const results = await client.search(parse(songs[0].artist))
+
+      expect(results?.map((result) => result.index)).toContain(0)
+    })
+
+    it('settles a search with null when a newer one replaces it', async () => {
+      const client = createSearchClient()
+      client.setSongs(songs)
+
+      const first = client.search(parse(''))
+      const second = client.search(parse(''))
+
+      await expect(first).resolves.toBeNull()
+      await expect(second).resolves.toHaveLength(songs.length)
+    })
+  })
+
+  describe('with a worker', () => {
+    beforeEach(() => {
+      vi.stubGlobal('Worker', FakeWorker)
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      vi.restoreAllMocks()
+    })
+
+    it('sends the library and queries to the worker', async () => {
+      const client = createSearchClient()
+      const worker = FakeWorker.latest
+      client.setSongs(songs)
+
+      const search = client.search(parse('love'))
+      worker.reply({ id: 1, results: [{ index: 3, score: 12, matches: {} }] })
+
+      await expect(search).resolves.toEqual([{ index: 3, score: 12, matches: {} }])
+      expect(worker.messages).toEqual([
+        { type: 'index', songs },
+        { type: 'search', id: 1, query: parse('love') },
+      ])
+    })
+
+    it('settles a replaced search with null and ignores its late results', async () => {
+      const client = createSearchClient()
+      const worker = FakeWorker.latest
+
+      const first = client.search(parse('lo'))
+      const second = client.search(parse('love'))
+      worker.reply({ id: 1, results: [{ index: 1, score: 1, matches: {} }] })
+      worker.reply({ id: 2, results: [] })
+
+      await expect(first).resolves.toBeNull()
+      await expect(second).resolves.toEqual([])
+    })
+
+    it('searches on this thread when the worker fails', async () => {
+      const client = createSearchClient()
+      const worker = FakeWorker.latest
+      client.setSongs(songs)
+
+      const search = client.search(parse(songs[0].artist))
+      const error = new ErrorEvent('error', { message: 'Failed to load', cancelable: true })
+      worker.onerror?.(error)
+
+      expect((await search)?.map((result) => result.index)).toContain(0)
+      expect(worker.terminated).toBe(true)
+      expect(error.defaultPrevented).toBe(true)
+    })
+
+    it('stops the worker when disposed', async () => {
+      const client = createSearchClient()
+      const worker = FakeWorker.latest
+
+      const search = client.search(parse('love'))
+      client.dispose()
+
+      await expect(search).resolves.toBeNull()
+      expect(worker.terminated).toBe(true)
+    })
+  })
+})
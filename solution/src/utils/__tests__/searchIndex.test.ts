@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import fc from 'fast-check'
+import { createSearchIndex, foldText, searchSongs } from '../fuzzySearch'
+import { buildInvertedIndex, searchInvertedIndex } from '../searchIndex'
+import { parseQuery } from '../searchQuery'
+import { generateSongs } from '../../test/generateSongs'
+
+// More songs than one slice, so searches yield part way through
+const library = generateSongs(3000)
+const linear = createSearchIndex(library)
+const inverted = buildInvertedIndex(library)
+
+function parse(text: string) {
+  const parsed = parseQuery(text)
+  if (!parsed.ok) throw new Error(parsed.error.message)
+  return parsed.query
+}
+
+async function expectSameResults(text: string) {
+  const query = parse(text)
+  const results = await searchInvertedIndex(inverted, query)
+
+  expect(
+    results?.map(({ index, score, matches }) => ({ song: library[index], score, matches }))
+  ).toEqual(searchSongs(linear, query))
+}
+
+// Words from the library, some with a typo, for building queries
+const vocabulary = [
+  ...new Set(library.flatMap((song) => foldText(`${song.title} ${song.artist}`).split(/\s+/))),
+].filter((text) => text.length > 1)
+const word = fc.constantFrom(...vocabulary).chain((text) =>
+  fc.oneof(
+    fc.constant(text),
+    fc.nat({ max: text.length - 1 }).map((i) => text.slice(0, i + 1)),
+    fc.nat({ max: text.length - 1 }).map((i) => text.slice(0, i) + text.slice(i + 1)),
+    fc.nat({ max: text.length - 2 }).map((i) => text.slice(0, i) + text[i + 1] + text[i] + text.slice(i + 2))
+  )
+)
+
+describe('searchInvertedIndex', () => {
+  it.each([
+    ['a prefix', 'midn'],
+    ['a typo', 'midnigth'],
+    ['a short word', 'me'],
+    ['accents', 'coRAZON'],
+    ['several words', 'golden river'],
+    ['a field', 'artist:the'],
+    ['a phrase', '"the night"'],
+    ['an exclusion', 'love -night'],
+    ['only an exclusion', '-love'],
+    ['OR', 'summer OR winter'],
+    ['a duration', 'duration:>400 rain'],
+    ['an empty query', ''],
+  ])('ranks %s like searchSongs', async (_, text) => {
+    await expectSameResults(text)
+  })
+
+  it('ranks any words like searchSongs', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(word, { minLength: 1, maxLength: 3 }), async (words) => {
+        await expectSameResults(words.join(' '))
+      }),
+      { numRuns: 50 }
+    )
+  })
+
+  it('stops when a newer search takes over', async () => {
+    let isCancelled = false
+    const search = searchInvertedIndex(inverted, parse(''), () => isCancelled)
+    isCancelled = true
+
+    await expect(search).resolves.toBeNull()
+  })
+})
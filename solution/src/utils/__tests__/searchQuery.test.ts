@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest'
+import { getSuggestions, parseQuery } from '../searchQuery'
+
+const parse = (text: string) => {
+  const result = parseQuery(text)
+  if (!result.ok) throw new Error(result.error.message)
+  return result.query
+}
+
+const errorOf = (text: string) => {
+  const result = parseQuery(text)
+  if (result.ok) throw new Error(`Expected "${text}" not to parse`)
+  return result.error
+}
+
+describe('parseQuery', () => {
+  it('reads plain words as text in any field', () => {
+    expect(parse('neon')).toEqual({ type: 'text', text: 'neon', phrase: false })
+  })
+
+  it('reads words next to each other as all having to match', () => {
+    expect(parse('neon  pulse')).toEqual({
+      type: 'and',
+      queries: [
+        { type: 'text', text: 'neon', phrase: false },
+        { type: 'text', text: 'pulse', phrase: false },
+      ],
+    })
+  })
+
+  it('matches everything when empty', () => {
+    expect(parse('   ')).toEqual({ type: 'and', queries: [] })
+  })
+
+  it('reads the example from the docs', () => {
+    expect(parse('artist:"neon pulse" album:unplugged duration:>300 -live')).toEqual({
+      type: 'and',
+      queries: [
+        { type: 'text', text: 'neon pulse', phrase: true, field: 'artist' },
+        { type: 'text', text: 'unplugged', phrase: false, field: 'album' },
+        { type: 'duration', comparison: '>', seconds: 300 },
+        { type: 'not', query: { type: 'text', text: 'live', phrase: false } },
+      ],
+    })
+  })
+
+  it('treats field names case-insensitively', () => {
+    expect(parse('Title:halo')).toEqual({ type: 'text', text: 'halo', phrase: false, field: 'title' })
+  })
+
+  it('splits on OR, which binds loosest', () => {
+    expect(parse('a b OR c')).toEqual({
+      type: 'or',
+      queries: [
+        {
+          type: 'and',
+          queries: [
+            { type: 'text', text: 'a', phrase: false },
+            { type: 'text', text: 'b', phrase: false },
+          ],
+        },
+        { type: 'text', text: 'c', phrase: false },
+      ],
+    })
+  })
+
+  it('only treats uppercase OR as an operator', () => {
+    expect(parse('this or that')).toMatchObject({ type: 'and', queries: { length: 3 } })
+    expect(parse('ORANGE')).toEqual({ type: 'text', text: 'ORANGE', phrase: false })
+  })
+
+  it.each([
+    ['300', '=', 300],
+    ['>300', '>', 300],
+    ['>=300', '>=', 300],
+    ['<4:30', '<', 270],
+    ['<=0:05', '<=', 5],
+    ['=3:00', '=', 180],
+  ])('reads duration:%s', (value, comparison, seconds) => {
+    expect(parse(`duration:${value}`)).toEqual({ type: 'duration', comparison, seconds })
+  })
+
+  it('keeps colons that are not after a field name', () => {
+    expect(parse('3:45')).toEqual({ type: 'text', text: '3:45', phrase: false })
+  })
+
+  describe('errors', () => {
+    it('points at an unknown field', () => {
+      expect(errorOf('neon genre:rock')).toEqual({
+        message: 'Unknown field "genre". Use title, artist, album, duration',
+        start: 5,
+        end: 10,
+      })
+    })
+
+    it('points at an unclosed quote', () => {
+      expect(errorOf('artist:"neon pulse')).toEqual({
+        message: 'Missing closing quote',
+        start: 7,
+        end: 18,
+      })
+    })
+
+    it('points at a malformed duration', () => {
+      expect(errorOf('duration:long')).toMatchObject({
+        message: expect.stringContaining('Durations look like'),
+        start: 9,
+        end: 13,
+      })
+      expect(errorOf('duration:3:75').start).toBe(9)
+    })
+
+    it.each([
+      ['a field with no value', 'artist:', 'Nothing to search for after "artist:"'],
+      ['empty quotes', 'a ""', 'Nothing to search for between the quotes'],
+      ['a lone minus', 'a - b', 'Nothing to exclude after "-"'],
+      ['OR at the start', 'OR a', 'OR needs something to search for on each side'],
+      ['OR at the end', 'a OR', 'OR needs something to search for on each side'],
+      ['OR twice', 'a OR OR b', 'OR needs something to search for on each side'],
+    ])('reports %s', (_, text, message) => {
+      expect(errorOf(text).message).toBe(message)
+    })
+  })
+})
+
+describe('getSuggestions', () => {
+  const artists = ['Neon Pulse', 'Neon Trees', 'Nena', 'The Neons', 'Zoë']
+
+  it('suggests field names as they are typed', () => {
+    expect(getSuggestions('halo ar', artists)).toEqual([{ label: 'artist:', query: 'halo artist:' }])
+    expect(getSuggestions('-du', artists)).toEqual([{ label: 'duration:', query: '-duration:' }])
+  })
+
+  it('suggests nothing for a finished word or a single letter', () => {
+    expect(getSuggestions('artist ', artists)).toEqual([])
+    expect(getSuggestions('a', artists)).toEqual([])
+  })
+
+  it('suggests artists by the start of any word, quoting names with spaces', () => {
+    expect(getSuggestions('artist:neon', artists)).toEqual([
+      { label: 'Neon Pulse', query: 'artist:"Neon Pulse" ' },
+      { label: 'Neon Trees', query: 'artist:"Neon Trees" ' },
+      { label: 'The Neons', query: 'artist:"The Neons" ' },
+    ])
+  })
+
+  it('keeps suggesting inside an open quote and ignores accents', () => {
+    expect(getSuggestions('halo artist:"neon p', artists).map((s) => s.query)).toEqual([
+      'halo artist:"Neon Pulse" ',
+    ])
+    expect(getSuggestions('artist:zoe', artists)).toEqual([{ label: 'Zoë', query: 'artist:Zoë ' }])
+  })
+
+  it('stops suggesting once the quote is closed', () => {
+    expect(getSuggestions('artist:"Neon Pulse"', artists)).toEqual([])
+  })
+
+  it('offers a few artists before anything is typed', () => {
+    const many = Array.from({ length: 20 }, (_, i) => `Artist ${i}`)
+
+    expect(getSuggestions('artist:', many)).toHaveLength(8)
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import fc from 'fast-check'
+import { shuffle } from '../shuffle'
+import { createSeededRandom } from '../random'
+
+const sorted = (values: number[]) => [...values].sort((a, b) => a - b)
+
+describe('shuffle', () => {
+  it('returns a permutation of the input', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer()), fc.integer(), (values, seed) => {
+        const result = shuffle(values, createSeededRandom(seed))
+
+        expect(sorted(result)).toEqual(sorted(values))
+      })
+    )
+  })
+
+  it('does not mutate the input', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer()), fc.integer(), (values, seed) => {
+        const copy = [...values]
+        shuffle(values, createSeededRandom(seed))
+
+        expect(values).toEqual(copy)
+      })
+    )
+  })
+
+  it('gives the same order for the same seed', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer()), fc.integer(), (values, seed) => {
+        expect(shuffle(values, createSeededRandom(seed))).toEqual(
+          shuffle(values, createSeededRandom(seed))
+        )
+      })
+    )
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import fc from 'fast-check'
+import { smartShuffle } from '../smartShuffle'
+import { createSeededRandom } from '../random'
+import type { Song } from '../../types'
+
+// Few artists and albums so clustering is likely without a smart shuffle
+const songsArbitrary = fc
+  .array(fc.record({ artist: fc.integer({ min: 0, max: 5 }), album: fc.integer({ min: 0, max: 3 }) }), {
+    maxLength: 60,
+  })
+  .map((entries) =>
+    entries.map(
+      ({ artist, album }, i): Song => ({
+        id: `song-${i}`,
+        title: `Song ${i}`,
+        artist: `Artist ${artist}`,
+        album: `Album ${artist}-${album}`,
+        albumArt: '',
+        duration: 180,
+      })
+    )
+  )
+
+const ids = (songs: Song[]) => songs.map((song) => song.id).sort()
+
+function countBy(songs: Song[], key: (song: Song) => string): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const song of songs) {
+    counts.set(key(song), (counts.get(key(song)) ?? 0) + 1)
+  }
+  return counts
+}
+
+describe('smartShuffle', () => {
+  it('returns a permutation of the input', () => {
+    fc.assert(
+      fc.property(songsArbitrary, fc.integer(), (songs, seed) => {
+        expect(ids(smartShuffle(songs, createSeededRandom(seed)))).toEqual(ids(songs))
+      })
+    )
+  })
+
+  it('never plays the same artist back to back when that can be avoided', () => {
+    fc.assert(
+      fc.property(songsArbitrary, fc.integer(), (songs, seed) => {
+        const maxPerArtist = Math.max(0, ...countBy(songs, (song) => song.artist).values())
+        fc.pre(maxPerArtist <= Math.ceil(songs.length / 2))
+
+        const result = smartShuffle(songs, createSeededRandom(seed))
+        for (let i = 1; i < result.length; i++) {
+          expect(result[i].artist).not.toBe(result[i - 1].artist)
+        }
+      })
+    )
+  })
+
+  it('keeps same-artist runs to the unavoidable minimum', () => {
+    fc.assert(
+      fc.property(songsArbitrary, fc.integer(), (songs, seed) => {
+        const counts = [...countBy(songs, (song) => song.artist).values()]
+        const maxPerArtist = Math.max(0, ...counts)
+        const others = songs.length - maxPerArtist
+        const unavoidable = Math.max(0, maxPerArtist - others - 1)
+
+        const result = smartShuffle(songs, createSeededRandom(seed))
+        const adjacent = result.filter((song, i) => i > 0 && song.artist === result[i - 1].artist)
+        expect(adjacent).toHaveLength(unavoidable)
+      })
+    )
+  })
+
+  it("spreads each artist's albums through their songs", () => {
+    fc.assert(
+      fc.property(songsArbitrary, fc.integer(), (songs, seed) => {
+        const result = smartShuffle(songs, createSeededRandom(seed))
+
+        for (const artist of new Set(songs.map((song) => song.artist))) {
+          const artistSongs = result.filter((song) => song.artist === artist)
+          const albumCounts = countBy(artistSongs, (song) => song.album)
+          const maxPerAlbum = Math.max(...albumCounts.values())
+          // Album neighbours are only forced when one album dominates the artist
+          if (maxPerAlbum > Math.ceil(artistSongs.length / 2)) continue
+
+          for (let i = 1; i < artistSongs.length; i++) {
+            expect(artistSongs[i].album).not.toBe(artistSongs[i - 1].album)
+          }
+        }
+      })
+    )
+  })
+
+  it('gives the same order for the same seed', () => {
+    fc.assert(
+      fc.property(songsArbitrary, fc.integer(), (songs, seed) => {
+        expect(smartShuffle(songs, createSeededRandom(seed))).toEqual(
+          smartShuffle(songs, createSeededRandom(seed))
+        )
+      })
+    )
+  })
+})
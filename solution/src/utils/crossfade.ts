@@ -0,0 +1,65 @@
+// Longest crossfade offered in settings
+export const MAX_CROSSFADE_SECONDS = 12
+
+// Resolution of the fade curves; plenty for a smooth ramp
+const CURVE_STEPS = 64
+
+/**
+ * Builds an equal-power fade curve, which keeps perceived loudness steady
+ * through the fade where a linear ramp would dip in the middle
+ * @param direction - Whether the curve fades in or out
+ * @returns Gain values from start to end of the fade
+ */
+export function equalPowerCurve(direction: 'in' | 'out'): Float32Array {
+  const curve = new Float32Array(CURVE_STEPS)
+  for (let i = 0; i < CURVE_STEPS; i++) {
+    const progress = i / (CURVE_STEPS - 1)
+    const angle = (progress * Math.PI) / 2
+    curve[i] = direction === 'in' ? Math.sin(angle) : Math.cos(angle)
+  }
+  return curve
+}
+
+/**
+ * Schedules one gain to fade out while another fades in, starting now
+ * @param context - The audio context both gains belong to
+ * @param fadeOut - Gain of the outgoing track
+ * @param fadeIn - Gain of the incoming track
+ * @param duration - Length of the fade in seconds
+ */
+export function scheduleCrossfade(
+  context: BaseAudioContext,
+  fadeOut: AudioParam,
+  fadeIn: AudioParam,
+  duration: number
+): void {
+  const now = context.currentTime
+  fadeOut.cancelScheduledValues(now)
+  fadeIn.cancelScheduledValues(now)
+  fadeOut.setValueCurveAtTime(equalPowerCurve('out'), now, duration)
+  fadeIn.setValueCurveAtTime(equalPowerCurve('in'), now, duration)
+}
+
+/**
+ * Drops any scheduled fade and sets the gain straight away
+ * @param context - The audio context the gain belongs to
+ * @param gain - The gain to set
+ * @param value - The new gain value
+ */
+export function setGainNow(context: BaseAudioContext, gain: AudioParam, value: number): void {
+  gain.cancelScheduledValues(context.currentTime)
+  gain.setValueAtTime(value, context.currentTime)
+}
+
+/**
+ * Works out how long a crossfade into the next track can last
+ * @param remaining - Seconds left in the current track
+ * @param crossfadeDuration - The configured crossfade length in seconds
+ * @returns The fade length, or 0 when it is not yet time to start fading
+ */
+export function getFadeDuration(remaining: number, crossfadeDuration: number): number {
+  if (crossfadeDuration <= 0 || !Number.isFinite(remaining) || remaining > crossfadeDuration) {
+    return 0
+  }
+  return Math.max(0, remaining)
+}
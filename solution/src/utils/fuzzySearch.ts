@@ -0,0 +1,351 @@
+import type { Song } from '../types'
+import type { SearchQuery } from './searchQuery'
+
+export const SEARCH_FIELDS = ['title', 'artist', 'album'] as const
+export type SearchField = (typeof SEARCH_FIELDS)[number]
+
+// A match in the title counts for more than one in the artist or album
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  artist: 2,
+  album: 1,
+}
+
+// How well a query word matched a word: exact > prefix > substring > typo
+const MATCH_SCORES = {
+  exact: 4,
+  prefix: 3,
+  substring: 2,
+  // Divided by the number of edits
+  fuzzy: 1,
+}
+
+// [start, end) offsets into the field's text, for highlighting
+export type MatchRange = [number, number]
+
+export type SearchMatches = Partial<Record<SearchField, MatchRange[]>>
+
+export interface SearchResult {
+  song: Song
+  score: number
+  matches: SearchMatches
+}
+
+export interface Word {
+  // Lowercase, with accents removed
+  text: string
+  // Where the word starts and ends in the field
+  start: number
+  end: number
+  // Where each character of text came from in the field, when folding
+  // changed the length; otherwise character i is at start + i
+  offsets?: number[]
+}
+
+export interface IndexedSong {
+  song: Song
+  words: Record<SearchField, Word[]>
+}
+
+export type SearchIndex = IndexedSong[]
+
+/**
+ * Lowercases text and strips accents, so "Beyoncé" and "beyonce" compare
+ * equal
+ */
+export function foldText(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+}
+
+// Splits a field into folded words, remembering where each character was
+function splitWords(text: string): Word[] {
+  const words: Word[] = []
+  for (const match of text.matchAll(/[\p{L}\p{N}\p{M}]+/gu)) {
+    const start = match.index
+    const offsets: number[] = []
+    let text = ''
+    let offset = start
+    for (const char of match[0]) {
+      for (const folded of foldText(char)) {
+        text += folded
+        offsets.push(offset)
+      }
+      offset += char.length
+    }
+    if (!text) continue
+    const word: Word = { text, start, end: start + match[0].length }
+    // Most words fold one character to one, and big libraries have a lot
+    // of words, so only keep offsets that can't be worked out
+    if (offsets.some((position, i) => position !== start + i)) word.offsets = offsets
+    words.push(word)
+  }
+  return words
+}
+
+/**
+ * Splits query text into folded words
+ */
+export function splitQuery(text: string): string[] {
+  return foldText(text).match(/[\p{L}\p{N}]+/gu) ?? []
+}
+
+export function indexSong(song: Song): IndexedSong {
+  return {
+    song,
+    words: {
+      title: splitWords(song.title),
+      artist: splitWords(song.artist),
+      album: splitWords(song.album),
+    },
+  }
+}
+
+/**
+ * Splits every song into words up front so searches only compare words
+ */
+export function createSearchIndex(songs: Song[]): SearchIndex {
+  return songs.map(indexSong)
+}
+
+/**
+ * How many typos a query word of this length may have. Longer words
+ * tolerate more; short ones would match too much.
+ */
+export function maxEdits(length: number): number {
+  if (length < 4) return 0
+  if (length < 7) return 1
+  return 2
+}
+
+/**
+ * Fewest edits (insertions, deletions, substitutions or swapping two
+ * neighbouring letters) turning query into the start of word
+ * @returns The edits and how much of word they cover, or null if it takes
+ *   more than limit
+ */
+function prefixDistance(
+  query: string,
+  word: string,
+  limit: number
+): { distance: number; length: number } | null {
+  // rows[i][j] is the distance from query[0, i) to word[0, j)
+  let previous: number[] = []
+  let row = Array.from({ length: word.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= query.length; i++) {
+    const next = [i]
+    let rowMin = i
+    for (let j = 1; j <= word.length; j++) {
+      const cost = query[i - 1] === word[j - 1] ? 0 : 1
+      let distance = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + cost)
+      if (i > 1 && j > 1 && query[i - 1] === word[j - 2] && query[i - 2] === word[j - 1]) {
+        distance = Math.min(distance, previous[j - 2] + 1)
+      }
+      next.push(distance)
+      rowMin = Math.min(rowMin, distance)
+    }
+    // Every later row is at least this far off
+    if (rowMin > limit) return null
+    previous = row
+    row = next
+  }
+
+  // The closest prefix, preferring the longer of equally close ones
+  let best = { distance: Infinity, length: 0 }
+  row.forEach((distance, length) => {
+    if (distance <= best.distance) best = { distance, length }
+  })
+  return best.distance <= limit ? best : null
+}
+
+function offsetOf(word: Word, i: number): number {
+  return word.offsets ? word.offsets[i] : word.start + i
+}
+
+function toRange(word: Word, from: number, to: number): MatchRange {
+  return [offsetOf(word, from), to < word.text.length ? offsetOf(word, to) : word.end]
+}
+
+// Scores a query word against one word, with the part of it that matched
+function matchWord(
+  query: string,
+  word: Word,
+  fuzzy: boolean
+): { score: number; range: MatchRange } | null {
+  if (word.text === query) {
+    return { score: MATCH_SCORES.exact, range: toRange(word, 0, query.length) }
+  }
+  if (word.text.startsWith(query)) {
+    return { score: MATCH_SCORES.prefix, range: toRange(word, 0, query.length) }
+  }
+  const index = word.text.indexOf(query)
+  if (index !== -1) {
+    return { score: MATCH_SCORES.substring, range: toRange(word, index, index + query.length) }
+  }
+  const limit = fuzzy ? maxEdits(query.length) : 0
+  if (limit === 0 || word.text.length < query.length - limit) return null
+  const closest = prefixDistance(query, word.text, limit)
+  if (!closest || closest.length === 0) return null
+  return { score: MATCH_SCORES.fuzzy / closest.distance, range: toRange(word, 0, closest.length) }
+}
+
+/**
+ * Whether a folded query word matches a folded word, typos included
+ */
+export function matchesWord(query: string, text: string): boolean {
+  return matchWord(query, { text, start: 0, end: text.length }, true) !== null
+}
+
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: MatchRange[] = []
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([...range])
+    }
+  }
+  return merged
+}
+
+interface Match {
+  score: number
+  ranges: Record<SearchField, MatchRange[]>
+}
+
+const emptyMatch = (): Match => ({ score: 0, ranges: { title: [], artist: [], album: [] } })
+
+type TextQuery = Extract<SearchQuery, { type: 'text' }>
+
+// Every word has to match somewhere, adding the score of its best match
+function matchWords({ text, field }: TextQuery, entry: IndexedSong, fuzzy: boolean): Match | null {
+  const match = emptyMatch()
+  for (const query of new Set(splitQuery(text))) {
+    let best = 0
+    for (const searched of field ? [field] : SEARCH_FIELDS) {
+      for (const word of entry.words[searched]) {
+        const wordMatch = matchWord(query, word, fuzzy)
+        if (!wordMatch) continue
+        best = Math.max(best, wordMatch.score * FIELD_WEIGHTS[searched])
+        match.ranges[searched].push(wordMatch.range)
+      }
+    }
+    if (best === 0) return null
+    match.score += best
+  }
+  return match
+}
+
+// The phrase's words have to appear together and in order, exactly
+function matchPhrase({ text, field }: TextQuery, entry: IndexedSong): Match | null {
+  const phrase = splitQuery(text)
+  const match = emptyMatch()
+  for (const searched of field ? [field] : SEARCH_FIELDS) {
+    const words = entry.words[searched]
+    for (let i = 0; i + phrase.length <= words.length; i++) {
+      if (phrase.every((query, k) => words[i + k].text === query)) {
+        match.score = Math.max(match.score, MATCH_SCORES.exact * phrase.length * FIELD_WEIGHTS[searched])
+        match.ranges[searched].push([words[i].start, words[i + phrase.length - 1].end])
+      }
+    }
+  }
+  return match.score > 0 ? match : null
+}
+
+function compareDuration(
+  duration: number,
+  { comparison, seconds }: Extract<SearchQuery, { type: 'duration' }>
+): boolean {
+  const rounded = Math.round(duration)
+  switch (comparison) {
+    case '<':
+      return rounded < seconds
+    case '<=':
+      return rounded <= seconds
+    case '>':
+      return rounded > seconds
+    case '>=':
+      return rounded >= seconds
+    case '=':
+      return rounded === seconds
+  }
+}
+
+/**
+ * Scores one song against a query, or null if it doesn't match. Filters
+ * like durations and exclusions match without adding to the score. Typos
+ * are only forgiven when looking for songs, not when excluding them.
+ */
+function matchQuery(query: SearchQuery, entry: IndexedSong, fuzzy: boolean): Match | null {
+  switch (query.type) {
+    case 'text':
+      if (splitQuery(query.text).length === 0) return emptyMatch()
+      return query.phrase ? matchPhrase(query, entry) : matchWords(query, entry, fuzzy)
+    case 'duration':
+      return compareDuration(entry.song.duration, query) ? emptyMatch() : null
+    case 'not':
+      return matchQuery(query.query, entry, false) ? null : emptyMatch()
+    case 'and': {
+      const match = emptyMatch()
+      for (const part of query.queries) {
+        const partMatch = matchQuery(part, entry, fuzzy)
+        if (!partMatch) return null
+        match.score += partMatch.score
+        for (const field of SEARCH_FIELDS) match.ranges[field].push(...partMatch.ranges[field])
+      }
+      return match
+    }
+    case 'or': {
+      let match: Match | null = null
+      for (const part of query.queries) {
+        const partMatch = matchQuery(part, entry, fuzzy)
+        if (!partMatch) continue
+        match ??= emptyMatch()
+        match.score = Math.max(match.score, partMatch.score)
+        for (const field of SEARCH_FIELDS) match.ranges[field].push(...partMatch.ranges[field])
+      }
+      return match
+    }
+  }
+}
+
+/**
+ * Scores one song against a parsed query, as searchSongs does
+ * @returns The score and where it matched, or null if it doesn't match
+ */
+export function scoreSong(
+  entry: IndexedSong,
+  query: SearchQuery
+): Pick<SearchResult, 'score' | 'matches'> | null {
+  const match = matchQuery(query, entry, true)
+  if (!match) return null
+
+  const matches: SearchMatches = {}
+  for (const field of SEARCH_FIELDS) {
+    if (match.ranges[field].length > 0) {
+      matches[field] = mergeRanges(match.ranges[field])
+    }
+  }
+  return { score: match.score, matches }
+}
+
+/**
+ * Ranks songs against a parsed query, forgiving typos and accents. Each
+ * word adds the score of its best match across title, artist and album, so
+ * songs matching more words, more closely, in more important fields rank
+ * higher.
+ * @param index - Songs prepared by createSearchIndex
+ * @param query - A query from parseQuery
+ * @returns Matching songs, best first, ties in library order
+ */
+export function searchSongs(index: SearchIndex, query: SearchQuery): SearchResult[] {
+  const results: SearchResult[] = []
+  for (const entry of index) {
+    const scored = scoreSong(entry, query)
+    if (scored) results.push({ song: entry.song, ...scored })
+  }
+  // sort is stable, so equal scores keep their order
+  return results.sort((a, b) => b.score - a.score)
+}
@@ -0,0 +1,197 @@
+import type { Playlist, QueueSource, RepeatMode, ShuffleStrategy, Song } from '../types'
+import type { PlayerState } from '../context/playerReducer'
+
+const SESSION_KEY = 'music-player:session'
+const POSITION_KEY = 'music-player:position'
+const SESSION_VERSION = 1
+
+// Older history isn't worth the storage space
+const MAX_PERSISTED_HISTORY = 100
+
+const REPEAT_MODES: RepeatMode[] = ['off', 'all', 'one']
+const SHUFFLE_STRATEGIES: ShuffleStrategy[] = ['random', 'smart']
+
+/**
+ * Queue state stored by song id so it survives catalogue changes
+ */
+export interface PlayerSession {
+  version: number
+  currentSongId: string | null
+  queueIds: string[]
+  originalQueueIds: string[]
+  historyIds: string[]
+  // Names the source list when it can be fetched again, leaving
+  // sourceSongIds empty; missing from sessions saved before sources
+  source?: QueueSource | null
+  sourceSongIds: string[]
+  isShuffled: boolean
+  // Optional so sessions saved before shuffle strategies still load
+  shuffleStrategy?: ShuffleStrategy
+  shuffleSeed?: number | null
+  repeatMode: RepeatMode
+}
+
+/**
+ * Every song a stored session can refer to
+ */
+export interface Catalogue {
+  library: Song[]
+  playlists: Playlist[]
+}
+
+/**
+ * Playback position within a song, stored separately because it changes
+ * far more often than the queue
+ */
+export interface SavedPosition {
+  songId: string
+  position: number
+}
+
+const toIds = (songs: Song[]) => songs.map((song) => song.id)
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string')
+
+function isQueueSource(value: unknown): value is QueueSource {
+  if (typeof value !== 'object' || value === null) return false
+  const source = value as Record<string, unknown>
+  return source.type === 'library' || (source.type === 'playlist' && typeof source.id === 'string')
+}
+
+function isPlayerSession(value: unknown): value is PlayerSession {
+  if (typeof value !== 'object' || value === null) return false
+  const session = value as Record<string, unknown>
+  return (
+    session.version === SESSION_VERSION &&
+    (session.currentSongId === null || typeof session.currentSongId === 'string') &&
+    isStringArray(session.queueIds) &&
+    isStringArray(session.originalQueueIds) &&
+    isStringArray(session.historyIds) &&
+    (session.source === undefined || session.source === null || isQueueSource(session.source)) &&
+    isStringArray(session.sourceSongIds) &&
+    typeof session.isShuffled === 'boolean' &&
+    (session.shuffleStrategy === undefined ||
+      SHUFFLE_STRATEGIES.includes(session.shuffleStrategy as ShuffleStrategy)) &&
+    (session.shuffleSeed === undefined ||
+      session.shuffleSeed === null ||
+      typeof session.shuffleSeed === 'number') &&
+    REPEAT_MODES.includes(session.repeatMode as RepeatMode)
+  )
+}
+
+/**
+ * Converts queue state into its id-based storage form. A named source is
+ * stored by name, since it can be the whole library.
+ * @param snapshot - The current queue state
+ * @returns A serializable session
+ */
+export function createSession(snapshot: PlayerState): PlayerSession {
+  return {
+    version: SESSION_VERSION,
+    currentSongId: snapshot.currentSong?.id ?? null,
+    queueIds: toIds(snapshot.queue),
+    originalQueueIds: toIds(snapshot.originalQueue),
+    historyIds: toIds(snapshot.history.slice(-MAX_PERSISTED_HISTORY)),
+    source: snapshot.source,
+    sourceSongIds: snapshot.source ? [] : toIds(snapshot.sourceSongs),
+    isShuffled: snapshot.isShuffled,
+    shuffleStrategy: snapshot.shuffleStrategy,
+    shuffleSeed: snapshot.shuffleSeed,
+    repeatMode: snapshot.repeatMode,
+  }
+}
+
+// The songs a named source holds now; a playlist that's gone holds none
+function resolveSource(source: QueueSource, catalogue: Catalogue): Song[] {
+  switch (source.type) {
+    case 'library':
+      return catalogue.library
+    case 'playlist':
+      return catalogue.playlists.find((playlist) => playlist.id === source.id)?.songs ?? []
+  }
+}
+
+/**
+ * Rebuilds queue state from a stored session, dropping ids that are no
+ * longer in the catalogue
+ * @param session - The stored session
+ * @param catalogue - The library and playlists the session may refer to
+ * @returns Queue state containing only songs that still exist
+ */
+export function resolveSession(session: PlayerSession, catalogue: Catalogue): PlayerState {
+  const songsById = new Map(
+    [catalogue.library, ...catalogue.playlists.map((playlist) => playlist.songs)]
+      .flat()
+      .map((song) => [song.id, song])
+  )
+  const resolve = (ids: string[]) =>
+    ids.flatMap((id) => {
+      const song = songsById.get(id)
+      return song ? [song] : []
+    })
+
+  return {
+    currentSong: session.currentSongId ? songsById.get(session.currentSongId) ?? null : null,
+    queue: resolve(session.queueIds),
+    originalQueue: resolve(session.originalQueueIds),
+    history: resolve(session.historyIds),
+    sourceSongs: session.source
+      ? resolveSource(session.source, catalogue)
+      : resolve(session.sourceSongIds),
+    source: session.source ?? null,
+    isShuffled: session.isShuffled,
+    shuffleStrategy: session.shuffleStrategy ?? 'random',
+    shuffleSeed: session.shuffleSeed ?? null,
+    repeatMode: session.repeatMode,
+  }
+}
+
+/**
+ * Reads the stored session, ignoring missing or malformed data
+ */
+export function loadSession(): PlayerSession | null {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY)
+    if (!raw) return null
+    const parsed: unknown = JSON.parse(raw)
+    return isPlayerSession(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+export function saveSession(session: PlayerSession): void {
+  try {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+  } catch {
+    // Storage full or unavailable (e.g. private mode) - persistence is best effort
+  }
+}
+
+/**
+ * Reads the stored playback position, ignoring missing or malformed data
+ */
+export function loadPosition(): SavedPosition | null {
+  try {
+    const raw = localStorage.getItem(POSITION_KEY)
+    if (!raw) return null
+    const parsed: unknown = JSON.parse(raw)
+    if (typeof parsed !== 'object' || parsed === null) return null
+    const { songId, position } = parsed as Record<string, unknown>
+    if (typeof songId !== 'string' || typeof position !== 'number' || !(position >= 0)) {
+      return null
+    }
+    return { songId, position }
+  } catch {
+    return null
+  }
+}
+
+export function savePosition(songId: string, position: number): void {
+  try {
+    localStorage.setItem(POSITION_KEY, JSON.stringify({ songId, position: Math.floor(position) }))
+  } catch {
+    // Best effort, see saveSession
+  }
+}
@@ -0,0 +1,24 @@
+import { MAX_CROSSFADE_SECONDS } from './crossfade'
+
+const CROSSFADE_KEY = 'music-player:crossfade'
+
+/**
+ * Reads the stored crossfade length, falling back to no crossfade
+ * @returns Crossfade length in seconds
+ */
+export function loadCrossfadeDuration(): number {
+  try {
+    const stored = Number(localStorage.getItem(CROSSFADE_KEY))
+    return Number.isFinite(stored) ? Math.min(Math.max(0, stored), MAX_CROSSFADE_SECONDS) : 0
+  } catch {
+    return 0
+  }
+}
+
+export function saveCrossfadeDuration(seconds: number): void {
+  try {
+    localStorage.setItem(CROSSFADE_KEY, String(seconds))
+  } catch {
+    // Storage full or unavailable - the setting just won't stick
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Creates a deterministic random number generator (mulberry32), so the same
+ * seed always produces the same sequence
+ * @param seed - Any 32-bit integer
+ * @returns A function returning numbers in [0, 1), like Math.random
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Picks a fresh random seed for createSeededRandom
+ * @param random - Source of numbers in [0, 1)
+ * @returns An unsigned 32-bit integer
+ */
+export function createSeed(random: () => number = Math.random): number {
+  return Math.floor(random() * 4294967296) >>> 0
+}
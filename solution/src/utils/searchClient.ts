@@ -0,0 +1,120 @@
+import type { Song } from '../types'
+import type { SearchQuery } from './searchQuery'
+import {
+  buildInvertedIndex,
+  searchInvertedIndex,
+  type IndexedResult,
+  type InvertedIndex,
+} from './searchIndex'
+
+export type SearchWorkerRequest =
+  | { type: 'index'; songs: Song[] }
+  | { type: 'search'; id: number; query: SearchQuery }
+
+export interface SearchWorkerResponse {
+  id: number
+  results: IndexedResult[]
+}
+
+export interface SearchClient {
+  // Indexes a library; later searches run against it
+  setSongs: (songs: Song[]) => void
+  /**
+   * Ranks the library against a query, as searchSongs would
+   * @returns Matching songs by position in the library, or null if a newer
+   *   search replaced this one before it finished
+   */
+  search: (query: SearchQuery) => Promise<IndexedResult[] | null>
+  // Stops searching; a pending search resolves to null
+  dispose: () => void
+}
+
+// Searches on this thread, indexing on the first search after the songs change
+function createLocalClient(): SearchClient {
+  let songs: Song[] = []
+  let index: InvertedIndex | null = null
+  let latest = 0
+
+  return {
+    setSongs(next) {
+      songs = next
+      index = null
+    },
+    search(query) {
+      const id = ++latest
+      index ??= buildInvertedIndex(songs)
+      return searchInvertedIndex(index, query, () => id !== latest)
+    },
+    dispose() {
+      latest++
+    },
+  }
+}
+
+/**
+ * Searches in a Web Worker, so indexing and ranking a big library doesn't
+ * hold up typing. Only the newest search runs to the end: starting one
+ * settles the last with null, and the worker drops it at its next break.
+ * Where workers aren't available, or this one fails to start, searches run
+ * on this thread instead.
+ */
+export function createSearchClient(): SearchClient {
+  if (typeof Worker === 'undefined') return createLocalClient()
+
+  const worker = new Worker(new URL('../workers/searchWorker.ts', import.meta.url), {
+    type: 'module',
+  })
+  let songs: Song[] = []
+  let latest = 0
+  let pending: {
+    id: number
+    query: SearchQuery
+    resolve: (results: IndexedResult[] | null) => void
+  } | null = null
+  let fallback: SearchClient | null = null
+
+  const post = (message: SearchWorkerRequest) => worker.postMessage(message)
+
+  worker.onmessage = ({ data }: MessageEvent<SearchWorkerResponse>) => {
+    if (data.id !== pending?.id) return
+    pending.resolve(data.results)
+    pending = null
+  }
+
+  // Searching here is slower but finds the same songs, so the switch is
+  // silent; preventDefault keeps the browser from reporting the error too
+  worker.onerror = (event) => {
+    event.preventDefault()
+    worker.terminate()
+    fallback = createLocalClient()
+    fallback.setSongs(songs)
+    if (pending) {
+      const { query, resolve } = pending
+      pending = null
+      void fallback.search(query).then(resolve)
+    }
+  }
+
+  return {
+    setSongs(next) {
+      songs = next
+      if (fallback) fallback.setSongs(next)
+      else post({ type: 'index', songs: next })
+    },
+    search(query) {
+      if (fallback) return fallback.search(query)
+      pending?.resolve(null)
+      const id = ++latest
+      return new Promise((resolve) => {
+        pending = { id, query, resolve }
+        post({ type: 'search', id, query })
+      })
+    },
+    dispose() {
+      worker.terminate()
+      fallback?.dispose()
+      pending?.resolve(null)
+      pending = null
+    },
+  }
+}
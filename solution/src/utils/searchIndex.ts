@@ -0,0 +1,217 @@
+import type { Song } from '../types'
+import {
+  SEARCH_FIELDS,
+  indexSong,
+  matchesWord,
+  maxEdits,
+  scoreSong,
+  splitQuery,
+  type IndexedSong,
+  type SearchMatches,
+} from './fuzzySearch'
+import type { SearchQuery } from './searchQuery'
+
+/**
+ * A library prepared for searching without scoring every song. Each
+ * distinct word lists the songs it appears in, and each pair of letters
+ * lists the words it appears in, so a query word finds the words it could
+ * match, and through them the only songs worth scoring.
+ */
+export interface InvertedIndex {
+  songs: IndexedSong[]
+  // Every distinct folded word in the library
+  words: string[]
+  wordIds: Map<string, number>
+  // The songs each word appears in, by position in songs, ascending
+  postings: number[][]
+  // The words each bigram appears in, by position in words
+  bigrams: Map<string, number[]>
+  // Words recent query words matched; typing repeats most of them
+  lookups: Map<string, number[]>
+}
+
+export interface IndexedResult {
+  // Where the song is in the library that was indexed
+  index: number
+  score: number
+  matches: SearchMatches
+}
+
+// Songs scored between checks for a newer query
+const SLICE_SIZE = 2000
+const MAX_LOOKUPS = 200
+
+function bigramsOf(text: string): Set<string> {
+  const bigrams = new Set<string>()
+  for (let i = 0; i + 2 <= text.length; i++) bigrams.add(text.slice(i, i + 2))
+  return bigrams
+}
+
+export function buildInvertedIndex(songs: Song[]): InvertedIndex {
+  const index: InvertedIndex = {
+    songs: songs.map(indexSong),
+    words: [],
+    wordIds: new Map(),
+    postings: [],
+    bigrams: new Map(),
+    lookups: new Map(),
+  }
+
+  index.songs.forEach((entry, songIndex) => {
+    for (const field of SEARCH_FIELDS) {
+      for (const { text } of entry.words[field]) {
+        let id = index.wordIds.get(text)
+        if (id === undefined) {
+          id = index.words.length
+          index.wordIds.set(text, id)
+          index.words.push(text)
+          index.postings.push([])
+          for (const bigram of bigramsOf(text)) {
+            const ids = index.bigrams.get(bigram)
+            if (ids) ids.push(id)
+            else index.bigrams.set(bigram, [id])
+          }
+        }
+        // Songs are visited in order, so a repeat is always the last one
+        const songIds = index.postings[id]
+        if (songIds[songIds.length - 1] !== songIndex) songIds.push(songIndex)
+      }
+    }
+  })
+
+  return index
+}
+
+/**
+ * Finds the words a query word matches, typos included. An edit breaks at
+ * most three of the query's bigrams (swapping two letters does), so a word
+ * within k typos shares all but 3k of them and only words sharing that
+ * many need comparing. Words too short to rule anything out that way are
+ * compared against the whole vocabulary, which is still far smaller than
+ * the library.
+ */
+function lookUpWord(index: InvertedIndex, query: string): number[] {
+  const cached = index.lookups.get(query)
+  if (cached) return cached
+
+  const bigrams = bigramsOf(query)
+  const needed = bigrams.size - 3 * maxEdits(query.length)
+  const ids: number[] = []
+  if (needed <= 0) {
+    index.words.forEach((word, id) => {
+      if (matchesWord(query, word)) ids.push(id)
+    })
+  } else {
+    const shared = new Map<number, number>()
+    for (const bigram of bigrams) {
+      for (const id of index.bigrams.get(bigram) ?? []) shared.set(id, (shared.get(id) ?? 0) + 1)
+    }
+    for (const [id, count] of shared) {
+      if (count >= needed && matchesWord(query, index.words[id])) ids.push(id)
+    }
+  }
+
+  if (index.lookups.size === MAX_LOOKUPS) {
+    index.lookups.delete(index.lookups.keys().next().value as string)
+  }
+  index.lookups.set(query, ids)
+  return ids
+}
+
+function songsWith(index: InvertedIndex, wordIds: number[]): Set<number> {
+  const songs = new Set<number>()
+  for (const id of wordIds) {
+    for (const song of index.postings[id]) songs.add(song)
+  }
+  return songs
+}
+
+function intersect(sets: Set<number>[]): Set<number> {
+  const [smallest, ...rest] = [...sets].sort((a, b) => a.size - b.size)
+  return new Set([...smallest].filter((song) => rest.every((set) => set.has(song))))
+}
+
+/**
+ * The songs that could match a query, or null if any song could. Only
+ * words narrow the search: durations and exclusions match songs that share
+ * no words with the query.
+ */
+function findCandidates(index: InvertedIndex, query: SearchQuery): Set<number> | null {
+  switch (query.type) {
+    case 'text': {
+      const words = [...new Set(splitQuery(query.text))]
+      if (words.length === 0) return null
+      // A phrase's words have to appear exactly
+      return intersect(
+        words.map((word) => {
+          if (!query.phrase) return songsWith(index, lookUpWord(index, word))
+          const id = index.wordIds.get(word)
+          return songsWith(index, id === undefined ? [] : [id])
+        })
+      )
+    }
+    case 'duration':
+    case 'not':
+      return null
+    case 'and': {
+      const sets = query.queries
+        .map((part) => findCandidates(index, part))
+        .filter((set): set is Set<number> => set !== null)
+      return sets.length > 0 ? intersect(sets) : null
+    }
+    case 'or': {
+      const union = new Set<number>()
+      for (const part of query.queries) {
+        const songs = findCandidates(index, part)
+        if (!songs) return null
+        for (const song of songs) union.add(song)
+      }
+      return union
+    }
+  }
+}
+
+// Lets queued messages, like a newer query, be handled first. setTimeout
+// would do, but browsers slow it down when it's chained.
+function nextTask(): Promise<void> {
+  return new Promise((resolve) => {
+    const channel = new MessageChannel()
+    channel.port1.onmessage = () => {
+      channel.port1.close()
+      resolve()
+    }
+    channel.port2.postMessage(null)
+  })
+}
+
+/**
+ * Ranks the library against a query, with the same results as
+ * searchSongs, scoring only the songs the index says could match. Scores
+ * in slices, so a newer query can take over part way through.
+ * @param isCancelled - Checked between slices
+ * @returns Matching songs by position in the library, best first, ties in
+ *   library order; or null if cancelled
+ */
+export async function searchInvertedIndex(
+  index: InvertedIndex,
+  query: SearchQuery,
+  isCancelled: () => boolean = () => false
+): Promise<IndexedResult[] | null> {
+  const candidates = findCandidates(index, query)
+  // Without candidates, every song in order
+  const order = candidates && [...candidates].sort((a, b) => a - b)
+  const count = order ? order.length : index.songs.length
+
+  const results: IndexedResult[] = []
+  for (let i = 0; i < count; i++) {
+    if (i > 0 && i % SLICE_SIZE === 0) {
+      await nextTask()
+      if (isCancelled()) return null
+    }
+    const songIndex = order ? order[i] : i
+    const scored = scoreSong(index.songs[songIndex], query)
+    if (scored) results.push({ index: songIndex, ...scored })
+  }
+  // sort is stable, so equal scores keep their order
+  return results.sort((a, b) => b.score - a.score)
+}
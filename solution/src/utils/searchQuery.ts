@@ -0,0 +1,257 @@
+import { SEARCH_FIELDS, foldText, type SearchField } from './fuzzySearch'
+
+export const QUERY_FIELDS = [...SEARCH_FIELDS, 'duration'] as const
+
+export type Comparison = '<' | '<=' | '>' | '>=' | '='
+
+/**
+ * A parsed search. Words next to each other must all match; OR between
+ * them means either side may.
+ */
+export type SearchQuery =
+  // Words, or an exact phrase if quoted, in one field or any of them
+  | { type: 'text'; text: string; phrase: boolean; field?: SearchField }
+  | { type: 'duration'; comparison: Comparison; seconds: number }
+  | { type: 'not'; query: SearchQuery }
+  | { type: 'and'; queries: SearchQuery[] }
+  | { type: 'or'; queries: SearchQuery[] }
+
+export interface QueryError {
+  message: string
+  // [start, end) of the part of the query at fault
+  start: number
+  end: number
+}
+
+export type ParseResult = { ok: true; query: SearchQuery } | { ok: false; error: QueryError }
+
+// Thrown inside the parser, and returned from parseQuery as a QueryError
+class QuerySyntaxError extends Error {
+  readonly start: number
+  readonly end: number
+
+  constructor(message: string, start: number, end: number) {
+    super(message)
+    this.name = 'QuerySyntaxError'
+    this.start = start
+    this.end = end
+  }
+}
+
+type Token =
+  | { type: 'or'; start: number; end: number }
+  | {
+      type: 'term'
+      start: number
+      end: number
+      negated: boolean
+      // As typed, before checking it's a known field
+      field?: { name: string; start: number; end: number }
+      value: string
+      valueStart: number
+      quoted: boolean
+    }
+
+const isSpace = (char: string | undefined) => char !== undefined && /\s/.test(char)
+
+function lex(text: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < text.length) {
+    if (isSpace(text[i])) {
+      i++
+      continue
+    }
+    const start = i
+
+    if (text.startsWith('OR', i) && (i + 2 === text.length || isSpace(text[i + 2]))) {
+      tokens.push({ type: 'or', start, end: i + 2 })
+      i += 2
+      continue
+    }
+
+    const negated = text[i] === '-'
+    if (negated) {
+      i++
+      if (i === text.length || isSpace(text[i])) {
+        throw new QuerySyntaxError('Nothing to exclude after "-"', start, i)
+      }
+    }
+
+    let field: { name: string; start: number; end: number } | undefined
+    const fieldMatch = /^([a-z]+):/i.exec(text.slice(i))
+    if (fieldMatch) {
+      field = { name: fieldMatch[1].toLowerCase(), start: i, end: i + fieldMatch[1].length }
+      i += fieldMatch[0].length
+    }
+
+    const valueStart = i
+    let value: string
+    let quoted = false
+    if (text[i] === '"') {
+      const close = text.indexOf('"', i + 1)
+      if (close === -1) {
+        throw new QuerySyntaxError('Missing closing quote', i, text.length)
+      }
+      value = text.slice(i + 1, close)
+      quoted = true
+      i = close + 1
+    } else {
+      while (i < text.length && !isSpace(text[i])) i++
+      value = text.slice(valueStart, i)
+    }
+
+    if (!value.trim()) {
+      const message = field
+        ? `Nothing to search for after "${field.name}:"`
+        : 'Nothing to search for between the quotes'
+      throw new QuerySyntaxError(message, start, i)
+    }
+    tokens.push({ type: 'term', start, end: i, negated, field, value, valueStart, quoted })
+  }
+
+  return tokens
+}
+
+// Seconds, or minutes and seconds, after an optional comparison:
+// "300", ">300", "<=4:30"
+function parseDuration(value: string, start: number, end: number): SearchQuery {
+  const match = /^(<=|>=|<|>|=)?(\d+)(?::([0-5]\d))?$/.exec(value.trim())
+  if (!match) {
+    throw new QuerySyntaxError(
+      'Durations look like 300, >300 or <=4:30 (seconds, or minutes:seconds)',
+      start,
+      end
+    )
+  }
+  const [, comparison = '=', first, seconds] = match
+  return {
+    type: 'duration',
+    comparison: comparison as Comparison,
+    seconds: seconds === undefined ? Number(first) : Number(first) * 60 + Number(seconds),
+  }
+}
+
+function toQuery(token: Extract<Token, { type: 'term' }>): SearchQuery {
+  const { field, value, quoted } = token
+  let query: SearchQuery
+
+  if (!field) {
+    query = { type: 'text', text: value, phrase: quoted }
+  } else if (field.name === 'duration') {
+    query = parseDuration(value, token.valueStart, token.end)
+  } else if ((SEARCH_FIELDS as readonly string[]).includes(field.name)) {
+    query = { type: 'text', text: value, phrase: quoted, field: field.name as SearchField }
+  } else {
+    throw new QuerySyntaxError(
+      `Unknown field "${field.name}". Use ${QUERY_FIELDS.join(', ')}`,
+      field.start,
+      field.end
+    )
+  }
+
+  return token.negated ? { type: 'not', query } : query
+}
+
+const all = (queries: SearchQuery[]): SearchQuery =>
+  queries.length === 1 ? queries[0] : { type: 'and', queries }
+
+/**
+ * Reads a search such as `artist:"neon pulse" album:unplugged
+ * duration:>300 -live`.
+ *
+ * - Plain words match title, artist or album; `title:`, `artist:` and
+ *   `album:` limit a word to one field
+ * - Quotes match an exact phrase
+ * - `-` excludes songs that match
+ * - `OR` between words means either may match
+ * - `duration:` compares seconds or minutes:seconds with <, <=, >, >= or =
+ *
+ * An empty query matches every song.
+ */
+export function parseQuery(text: string): ParseResult {
+  try {
+    const groups: SearchQuery[][] = [[]]
+    let lastOr: Token | null = null
+
+    for (const token of lex(text)) {
+      if (token.type === 'or') {
+        if (groups[groups.length - 1].length === 0) {
+          throw new QuerySyntaxError('OR needs something to search for on each side', token.start, token.end)
+        }
+        groups.push([])
+        lastOr = token
+      } else {
+        groups[groups.length - 1].push(toQuery(token))
+      }
+    }
+    if (lastOr && groups[groups.length - 1].length === 0) {
+      throw new QuerySyntaxError('OR needs something to search for on each side', lastOr.start, lastOr.end)
+    }
+
+    const query: SearchQuery =
+      groups.length === 1 ? all(groups[0]) : { type: 'or', queries: groups.map(all) }
+    return { ok: true, query }
+  } catch (error) {
+    if (!(error instanceof QuerySyntaxError)) throw error
+    return { ok: false, error: { message: error.message, start: error.start, end: error.end } }
+  }
+}
+
+export interface Suggestion {
+  // What the list shows, e.g. "artist:" or "Neon Pulse"
+  label: string
+  // The whole query with the suggestion filled in
+  query: string
+}
+
+const MAX_SUGGESTIONS = 8
+
+// Where the last term starts, skipping spaces inside quotes
+function lastTermStart(text: string): number {
+  let start = 0
+  let inQuotes = false
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') inQuotes = !inQuotes
+    else if (!inQuotes && isSpace(text[i])) start = i + 1
+  }
+  return start
+}
+
+/**
+ * Suggests ways to finish the last term of a query: field names as they're
+ * typed, and artist names after `artist:`
+ * @param artists - Artist names to offer, in the order to offer them
+ */
+export function getSuggestions(text: string, artists: string[]): Suggestion[] {
+  const start = lastTermStart(text)
+  const term = text.slice(start)
+  if (!term) return []
+
+  const negation = term.startsWith('-') ? '-' : ''
+  const before = text.slice(0, start) + negation
+  const typed = term.slice(negation.length)
+
+  if (/^[a-z]{2,}$/i.test(typed)) {
+    return QUERY_FIELDS.filter(
+      (field) => field.startsWith(typed.toLowerCase()) && field !== typed.toLowerCase()
+    ).map((field) => ({ label: `${field}:`, query: `${before}${field}:` }))
+  }
+
+  const artistMatch = /^artist:"?([^"]*)$/i.exec(typed)
+  if (!artistMatch) return []
+  const partial = foldText(artistMatch[1])
+  const suggestions: Suggestion[] = []
+  for (const artist of artists) {
+    // Nothing to add to a name typed in full
+    if (artist.toLowerCase() === artistMatch[1].toLowerCase()) continue
+    const folded = foldText(artist)
+    if (folded.startsWith(partial) || folded.includes(` ${partial}`)) {
+      const value = /\s/.test(artist) ? `"${artist}"` : artist
+      suggestions.push({ label: artist, query: `${before}artist:${value} ` })
+      if (suggestions.length === MAX_SUGGESTIONS) break
+    }
+  }
+  return suggestions
+}
@@ -1,12 +1,13 @@
 /**
  * Fisher-Yates shuffle algorithm - produces an unbiased permutation
  * @param array - The array to shuffle
+ * @param random - Source of numbers in [0, 1), e.g. a seeded generator
  * @returns A new shuffled array (does not mutate original)
  */
-export function shuffle<T>(array: T[]): T[] {
+export function shuffle<T>(array: T[], random: () => number = Math.random): T[] {
   const result = [...array]
   for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
+    const j = Math.floor(random() * (i + 1))
     ;[result[i], result[j]] = [result[j], result[i]]
   }
   return result
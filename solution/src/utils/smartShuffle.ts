@@ -0,0 +1,79 @@
+import type { Song } from '../types'
+import { shuffle } from './shuffle'
+
+interface Pool<T> {
+  items: T[]
+  next: number
+}
+
+const remaining = <T>(pool: Pool<T>) => pool.items.length - pool.next
+
+function groupBy(songs: Song[], key: (song: Song) => string): Song[][] {
+  const groups = new Map<string, Song[]>()
+  for (const song of songs) {
+    const group = groups.get(key(song))
+    if (group) {
+      group.push(song)
+    } else {
+      groups.set(key(song), [song])
+    }
+  }
+  return [...groups.values()]
+}
+
+// Merges groups so no two neighbours come from the same group where possible.
+// Groups are picked at random weighted by how many items they have left,
+// unless one group must be picked now for the rest to stay separable.
+function interleave<T>(groups: T[][], random: () => number): T[] {
+  const pools: Pool<T>[] = groups.map((items) => ({ items, next: 0 }))
+  const total = groups.reduce((sum, items) => sum + items.length, 0)
+  const result: T[] = []
+  let last: Pool<T> | null = null
+
+  while (result.length < total) {
+    const remainingTotal = total - result.length
+    let candidates = pools.filter((pool) => pool !== last && remaining(pool) > 0)
+    if (candidates.length === 0) {
+      // Only the previous group has items left, so repeats are unavoidable
+      candidates = [last!]
+    }
+
+    const largest = candidates.reduce((a, b) => (remaining(b) > remaining(a) ? b : a))
+    let pick = largest
+    if (remaining(largest) * 2 < remainingTotal) {
+      let target = random() * candidates.reduce((sum, pool) => sum + remaining(pool), 0)
+      for (const pool of candidates) {
+        target -= remaining(pool)
+        if (target < 0) {
+          pick = pool
+          break
+        }
+      }
+    }
+
+    result.push(pick.items[pick.next])
+    pick.next++
+    last = pick
+  }
+
+  return result
+}
+
+/**
+ * Shuffle that avoids back-to-back songs by the same artist and spreads each
+ * artist's albums out, by interleaving albums within each artist and then
+ * interleaving artists. Same-artist neighbours only occur when one artist has
+ * more than half the songs.
+ * @param songs - The songs to shuffle
+ * @param random - Source of numbers in [0, 1), e.g. a seeded generator
+ * @returns A new shuffled array (does not mutate original)
+ */
+export function smartShuffle(songs: Song[], random: () => number = Math.random): Song[] {
+  const byArtist = groupBy(shuffle(songs, random), (song) => song.artist).map((artistSongs) =>
+    interleave(
+      groupBy(artistSongs, (song) => song.album),
+      random
+    )
+  )
+  return interleave(byArtist, random)
+}
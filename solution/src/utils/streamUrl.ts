@@ -0,0 +1,10 @@
+import type { Song } from '../types'
+
+/**
+ * Builds the URL the audio element should load for a song
+ * @param song - The song to stream
+ * @returns Relative API path for the song's audio stream
+ */
+export function getStreamUrl(song: Song): string {
+  return `/api/songs/${encodeURIComponent(song.id)}/stream`
+}
@@ -0,0 +1,25 @@
+import { buildInvertedIndex, searchInvertedIndex, type InvertedIndex } from '../utils/searchIndex'
+import type { SearchWorkerRequest, SearchWorkerResponse } from '../utils/searchClient'
+
+// The app is typed for a window; this is the part of a worker's scope used here
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<SearchWorkerRequest>) => void) | null
+  postMessage: (message: SearchWorkerResponse) => void
+}
+
+let index: InvertedIndex = buildInvertedIndex([])
+// Searches before this one are no longer wanted
+let latest = 0
+
+scope.onmessage = ({ data }) => {
+  if (data.type === 'index') {
+    index = buildInvertedIndex(data.songs)
+    return
+  }
+
+  const { id, query } = data
+  latest = id
+  void searchInvertedIndex(index, query, () => id !== latest).then((results) => {
+    if (results) scope.postMessage({ id, results })
+  })
+}
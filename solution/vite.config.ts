@@ -6,10 +6,10 @@ export default defineConfig({
   server: {
     port: 5174, // Different port from parent project
     proxy: {
+      // The API's routes start with /api too, so paths go through as they are
       '/api': {
         target: 'http://localhost:3001',
         changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api/, ''),
       },
     },
   },